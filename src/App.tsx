@@ -5,19 +5,49 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import History from "./pages/History";
+import ComplianceReport from "./pages/ComplianceReport";
+import Outbox from "./pages/Outbox";
+import Templates from "./pages/Templates";
+import EmployeeImport from "./pages/EmployeeImport";
+import Groups from "./pages/Groups";
+import Approvals from "./pages/Approvals";
+import Inbox from "./pages/Inbox";
+import Login from "./pages/Login";
+import Respond from "./pages/Respond";
 import NotFound from "./pages/NotFound";
+import { RequireAuth } from "./components/RequireAuth";
+import { useNotificationScheduler } from "./hooks/use-notification-scheduler";
 
 const queryClient = new QueryClient();
 
+const NotificationScheduler = () => {
+  useNotificationScheduler();
+  return null;
+};
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
+    <NotificationScheduler />
     <TooltipProvider>
       <Toaster />
       <Sonner />
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/history" element={<History />} />
+          <Route path="/login" element={<Login />} />
+          <Route path="/respond/:token" element={<Respond />} />
+          <Route path="/" element={<RequireAuth><Index /></RequireAuth>} />
+          <Route path="/history" element={<RequireAuth><History /></RequireAuth>} />
+          <Route path="/history/:id/report" element={<RequireAuth><ComplianceReport /></RequireAuth>} />
+          {/* Captured messages span every notification, so the outbox follows the History visibility rules */}
+          <Route path="/outbox" element={<RequireAuth permission="viewAllHistory"><Outbox /></RequireAuth>} />
+          <Route path="/templates" element={<RequireAuth permission="compose"><Templates /></RequireAuth>} />
+          <Route
+            path="/employees/import"
+            element={<RequireAuth permission="administer"><EmployeeImport /></RequireAuth>}
+          />
+          <Route path="/groups" element={<RequireAuth permission="compose"><Groups /></RequireAuth>} />
+          <Route path="/approvals" element={<RequireAuth><Approvals /></RequireAuth>} />
+          <Route path="/inbox" element={<RequireAuth><Inbox /></RequireAuth>} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
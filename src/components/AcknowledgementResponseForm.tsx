@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, CheckCircle2, ShieldQuestion } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import type { Notification, RecipientRef } from "./NotificationCenter";
+import { findResponse, getResponseOptions, isLateResponse, type ResponseInput } from "@/lib/acknowledgements";
+
+interface AcknowledgementResponseFormProps {
+  notification: Notification;
+  recipient: RecipientRef;
+  onSubmit: (input: ResponseInput) => void;
+  isSubmitting?: boolean;
+}
+
+export const AcknowledgementResponseForm = ({
+  notification,
+  recipient,
+  onSubmit,
+  isSubmitting,
+}: AcknowledgementResponseFormProps) => {
+  const options = getResponseOptions(notification);
+  const [selectedOption, setSelectedOption] = useState(options.length === 1 ? options[0] : "");
+  const [comment, setComment] = useState("");
+
+  const existing = findResponse(notification, recipient);
+  const deadline = notification.acknowledgementSettings?.deadline;
+  const allowComments = notification.acknowledgementSettings?.allowComments;
+
+  if (existing) {
+    return (
+      <div className="p-4 rounded-lg bg-success/5 border border-success/20 space-y-1">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <CheckCircle2 className="w-4 h-4 text-success" />
+          You responded "{existing.selectedOption}"
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {format(existing.respondedAt, "MMMM d, yyyy 'at' h:mm a")}
+          {isLateResponse(notification, existing) && " (after the deadline)"}
+        </p>
+        {existing.comment && <p className="text-sm text-muted-foreground italic">"{existing.comment}"</p>}
+      </div>
+    );
+  }
+
+  const isPastDeadline = isLateResponse(notification, { respondedAt: new Date() });
+
+  return (
+    <form
+      className="p-4 rounded-lg border border-border space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit({ selectedOption, comment: allowComments ? comment : undefined });
+      }}
+    >
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <ShieldQuestion className="w-4 h-4 text-primary" />
+        Your response is requested
+        {deadline && !isPastDeadline && (
+          <span className="font-normal text-muted-foreground">by {format(deadline, "MMM d, h:mm a")}</span>
+        )}
+      </div>
+
+      {isPastDeadline && (
+        <div className="flex items-start gap-2 p-2 rounded-md bg-warning/10 text-sm">
+          <AlertTriangle className="w-4 h-4 text-warning mt-0.5 shrink-0" />
+          The deadline was {format(deadline, "MMMM d 'at' h:mm a")}. You can still respond, but it will be
+          marked as late.
+        </div>
+      )}
+
+      <RadioGroup value={selectedOption} onValueChange={setSelectedOption}>
+        {options.map((option) => (
+          <div key={option} className="flex items-center gap-2">
+            <RadioGroupItem value={option} id={`response-${option}`} />
+            <Label htmlFor={`response-${option}`} className="font-normal">
+              {option}
+            </Label>
+          </div>
+        ))}
+      </RadioGroup>
+
+      {allowComments && (
+        <div className="space-y-2">
+          <Label htmlFor="response-comment">Comment (optional)</Label>
+          <Textarea
+            id="response-comment"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            className="min-h-[80px]"
+          />
+        </div>
+      )}
+
+      <Button type="submit" disabled={!selectedOption || isSubmitting}>
+        {isSubmitting ? "Sending..." : "Send Response"}
+      </Button>
+    </form>
+  );
+};
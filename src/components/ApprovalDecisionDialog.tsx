@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { ApprovalDecision, Notification } from "./NotificationCenter";
+import { getCurrentStep } from "@/lib/approvals";
+
+interface ApprovalDecisionDialogProps {
+  // Null while closed
+  target: { notification: Notification; decision: ApprovalDecision } | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (comment?: string) => void;
+}
+
+const DECISION_COPY: Record<ApprovalDecision, { title: string; action: string; commentLabel: string }> = {
+  approved: { title: "Approve Notification", action: "Approve", commentLabel: "Comment (optional)" },
+  changes_requested: { title: "Request Changes", action: "Send Back", commentLabel: "What needs to change? *" },
+  rejected: { title: "Reject Notification", action: "Reject", commentLabel: "Reason *" },
+};
+
+export const ApprovalDecisionDialog = ({ target, onOpenChange, onConfirm }: ApprovalDecisionDialogProps) => {
+  const [comment, setComment] = useState("");
+
+  useEffect(() => {
+    if (target) setComment("");
+  }, [target]);
+
+  const copy = target && DECISION_COPY[target.decision];
+  const step = target && getCurrentStep(target.notification);
+  const needsComment = target?.decision !== "approved";
+  const isValid = !needsComment || comment.trim();
+
+  return (
+    <Dialog open={target !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{copy?.title}</DialogTitle>
+          <DialogDescription>
+            "{target?.notification.title}"{step && ` - ${step.name} sign-off by ${step.approvers}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="approval-comment">{copy?.commentLabel}</Label>
+          <Textarea
+            id="approval-comment"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            className="min-h-[100px]"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant={target?.decision === "rejected" ? "destructive" : "default"}
+            onClick={() => onConfirm(comment.trim() || undefined)}
+            disabled={!isValid}
+          >
+            {copy?.action}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
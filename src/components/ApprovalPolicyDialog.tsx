@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useEmployeeFacets } from "@/hooks/use-employees";
+import { hasConditions, type ApprovalPolicy } from "@/lib/approvals";
+import type { NotificationChannel } from "./NotificationCenter";
+
+interface ApprovalPolicyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Null when creating a new policy
+  policy: ApprovalPolicy | null;
+  onSave: (policy: ApprovalPolicy) => void;
+}
+
+const CHANNELS: NotificationChannel[] = ["email", "sms", "portal"];
+
+const toggleValue = <T extends string>(values: T[], value: T) =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+export const ApprovalPolicyDialog = ({ open, onOpenChange, policy, onSave }: ApprovalPolicyDialogProps) => {
+  const [name, setName] = useState("");
+  const [approvers, setApprovers] = useState("");
+  const [minRecipients, setMinRecipients] = useState("");
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const { data: facets } = useEmployeeFacets();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(policy?.name ?? "");
+    setApprovers(policy?.approvers ?? "");
+    setMinRecipients(policy?.minRecipients ? String(policy.minRecipients) : "");
+    setChannels(policy?.channels ?? []);
+    setDepartments(policy?.departments ?? []);
+  }, [open, policy]);
+
+  const draft: ApprovalPolicy = {
+    id: policy?.id ?? crypto.randomUUID(),
+    name: name.trim(),
+    approvers: approvers.trim(),
+    enabled: policy?.enabled ?? true,
+    minRecipients: Number(minRecipients) > 0 ? Number(minRecipients) : undefined,
+    channels,
+    departments,
+  };
+  const isValid = draft.name && draft.approvers && hasConditions(draft);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{policy ? "Edit Approval Policy" : "New Approval Policy"}</DialogTitle>
+          <DialogDescription>
+            Notifications matching every condition you set wait for this sign-off before they are sent.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-3 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="policy-name">Name *</Label>
+              <Input id="policy-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="policy-approvers">Approved by *</Label>
+              <Input
+                id="policy-approvers"
+                placeholder="e.g. HR"
+                value={approvers}
+                onChange={(e) => setApprovers(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="policy-min-recipients">At least this many recipients</Label>
+            <Input
+              id="policy-min-recipients"
+              type="number"
+              min={1}
+              placeholder="Any audience size"
+              value={minRecipients}
+              onChange={(e) => setMinRecipients(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Uses any of these channels</Label>
+            <div className="flex gap-4">
+              {CHANNELS.map((channel) => (
+                <label key={channel} className="flex items-center gap-2 text-sm capitalize cursor-pointer">
+                  <Checkbox
+                    checked={channels.includes(channel)}
+                    onCheckedChange={() => setChannels(toggleValue(channels, channel))}
+                  />
+                  {channel}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Reaches any of these departments</Label>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {(facets?.departments ?? []).map((department) => (
+                <label key={department} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={departments.includes(department)}
+                    onCheckedChange={() => setDepartments(toggleValue(departments, department))}
+                  />
+                  {department}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {!hasConditions(draft) && (
+            <p className="text-xs text-muted-foreground">Set at least one condition.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={() => onSave(draft)} disabled={!isValid}>
+            Save Policy
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,67 @@
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, Circle, MessageSquareWarning, RotateCcw, Send, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import type { ApprovalEvent, NotificationApproval } from "./NotificationCenter";
+
+const EVENT_LABELS: Record<ApprovalEvent["action"], string> = {
+  submitted: "Submitted for approval",
+  resubmitted: "Resubmitted",
+  approved: "Approved",
+  rejected: "Rejected",
+  changes_requested: "Requested changes",
+};
+
+const EVENT_ICONS: Record<ApprovalEvent["action"], typeof Send> = {
+  submitted: Send,
+  resubmitted: RotateCcw,
+  approved: CheckCircle2,
+  rejected: XCircle,
+  changes_requested: MessageSquareWarning,
+};
+
+const EVENT_STYLES: Partial<Record<ApprovalEvent["action"], string>> = {
+  approved: "text-success",
+  rejected: "text-destructive",
+  changes_requested: "text-warning",
+};
+
+/** The approval steps of a notification and every decision taken on them. */
+export const ApprovalTrail = ({ approval }: { approval: NotificationApproval }) => (
+  <div className="space-y-3">
+    <div className="flex flex-wrap gap-2">
+      {approval.steps.map((step, index) => (
+        <Badge
+          key={`${step.policyId}-${index}`}
+          variant="outline"
+          className={cn("gap-1", step.decision && EVENT_STYLES[step.decision])}
+          title={step.reason}
+        >
+          {step.decision === "approved" ? <CheckCircle2 className="w-3 h-3" /> : <Circle className="w-3 h-3" />}
+          {index + 1}. {step.name} ({step.approvers})
+        </Badge>
+      ))}
+    </div>
+    <ol className="space-y-2">
+      {approval.trail.map((event, index) => {
+        const Icon = EVENT_ICONS[event.action];
+        return (
+          <li key={index} className="flex items-start gap-2 text-sm">
+            <Icon className={cn("w-4 h-4 mt-0.5 shrink-0 text-muted-foreground", EVENT_STYLES[event.action])} />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between gap-2">
+                <span>
+                  <span className="font-medium">{EVENT_LABELS[event.action]}</span>
+                  {event.stepName && <span className="text-muted-foreground"> · {event.stepName}</span>}
+                  {event.actor && <span className="text-muted-foreground"> by {event.actor}</span>}
+                </span>
+                <span className="text-xs text-muted-foreground shrink-0">{format(event.at, "MMM d, h:mm a")}</span>
+              </div>
+              {event.comment && <p className="text-muted-foreground italic">"{event.comment}"</p>}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  </div>
+);
@@ -0,0 +1,328 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChevronDown, Plus, Search, Trash2, FolderPlus } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  OPERATOR_LABELS,
+  RULE_FIELDS,
+  createCondition,
+  createRuleGroup,
+  type AudienceRule,
+  type RuleCondition,
+  type RuleField,
+  type RuleGroup,
+} from "@/lib/audience-rules";
+import type { EmployeeFacets } from "@/lib/employee-directory";
+import { useEmployeeFacets, useEmployeeQuery } from "@/hooks/use-employees";
+
+// Deeper nesting is allowed by the engine but gets unreadable in the builder
+const MAX_GROUP_DEPTH = 2;
+
+const FACET_OPTIONS: Record<"department" | "role" | "location" | "status", keyof EmployeeFacets> = {
+  department: "departments",
+  role: "roles",
+  location: "locations",
+  status: "statuses",
+};
+
+interface ValuePickerProps {
+  options: string[];
+  values: string[];
+  onChange: (values: string[]) => void;
+}
+
+const MultiValuePicker = ({ options, values, onChange }: ValuePickerProps) => {
+  const toggle = (option: string) =>
+    onChange(values.includes(option) ? values.filter((value) => value !== option) : [...values, option]);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="h-9 flex-1 min-w-0 justify-between font-normal">
+          <span className={cn("truncate", values.length === 0 && "text-muted-foreground")}>
+            {values.length > 0 ? values.join(", ") : "Choose values..."}
+          </span>
+          <ChevronDown className="w-4 h-4 opacity-50 shrink-0" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[240px] p-0 bg-popover" align="start">
+        <ScrollArea className="max-h-[240px]">
+          <div className="p-2">
+            {options.map((option) => (
+              <div
+                key={option}
+                className="flex items-center gap-2 p-2 rounded-md hover:bg-muted/50 cursor-pointer text-sm"
+                onClick={() => toggle(option)}
+              >
+                <Checkbox checked={values.includes(option)} />
+                {option}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+interface ManagerPickerProps {
+  condition: RuleCondition;
+  onChange: (condition: RuleCondition) => void;
+}
+
+const ManagerPicker = ({ condition, onChange }: ManagerPickerProps) => {
+  const [search, setSearch] = useState("");
+  const { data: result } = useEmployeeQuery({ search: search || undefined, pageSize: 8 });
+  const labels = condition.labels ?? {};
+
+  const toggle = (id: string, name: string) => {
+    const values = condition.values.includes(id)
+      ? condition.values.filter((value) => value !== id)
+      : [...condition.values, id];
+    onChange({ ...condition, values, labels: { ...labels, [id]: name } });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="h-9 flex-1 min-w-0 justify-between font-normal">
+          <span className={cn("truncate", condition.values.length === 0 && "text-muted-foreground")}>
+            {condition.values.length > 0
+              ? condition.values.map((id) => labels[id] ?? id).join(", ")
+              : "Choose managers..."}
+          </span>
+          <ChevronDown className="w-4 h-4 opacity-50 shrink-0" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[280px] p-0 bg-popover" align="start">
+        <div className="p-2 border-b border-border relative">
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Search employees..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-8 h-8"
+          />
+        </div>
+        <div className="p-2">
+          {(result?.employees ?? []).map((employee) => (
+            <div
+              key={employee.id}
+              className="flex items-center gap-2 p-2 rounded-md hover:bg-muted/50 cursor-pointer"
+              onClick={() => toggle(employee.id, employee.name)}
+            >
+              <Checkbox checked={condition.values.includes(employee.id)} />
+              <div className="min-w-0">
+                <div className="text-sm truncate">{employee.name}</div>
+                <div className="text-xs text-muted-foreground truncate">{employee.role}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+interface ConditionEditorProps {
+  condition: RuleCondition;
+  facets?: EmployeeFacets;
+  onChange: (condition: RuleCondition) => void;
+  onRemove: () => void;
+}
+
+const ConditionEditor = ({ condition, facets, onChange, onRemove }: ConditionEditorProps) => {
+  const { field, operator, values } = condition;
+
+  const renderValues = () => {
+    if (field === "manager") {
+      return <ManagerPicker condition={condition} onChange={onChange} />;
+    }
+    if (field === "startDate") {
+      const setDate = (index: number, value: string) => {
+        const next = [...values];
+        next[index] = value;
+        onChange({ ...condition, values: next });
+      };
+      return (
+        <div className="flex flex-1 min-w-0 items-center gap-2">
+          <Input type="date" className="h-9" value={values[0] ?? ""} onChange={(e) => setDate(0, e.target.value)} />
+          {operator === "between" && (
+            <>
+              <span className="text-xs text-muted-foreground">and</span>
+              <Input type="date" className="h-9" value={values[1] ?? ""} onChange={(e) => setDate(1, e.target.value)} />
+            </>
+          )}
+        </div>
+      );
+    }
+    return (
+      <MultiValuePicker
+        options={facets?.[FACET_OPTIONS[field]] ?? []}
+        values={values}
+        onChange={(next) => onChange({ ...condition, values: next })}
+      />
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={field} onValueChange={(value) => onChange({ ...createCondition(value as RuleField), id: condition.id })}>
+        <SelectTrigger className="h-9 w-[130px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-popover">
+          {(Object.keys(RULE_FIELDS) as RuleField[]).map((key) => (
+            <SelectItem key={key} value={key}>
+              {RULE_FIELDS[key].label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={operator}
+        onValueChange={(value) => onChange({ ...condition, operator: value as RuleCondition["operator"] })}
+      >
+        <SelectTrigger className="h-9 w-[150px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-popover">
+          {RULE_FIELDS[field].operators.map((op) => (
+            <SelectItem key={op} value={op}>
+              {OPERATOR_LABELS[op]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {renderValues()}
+      <Button type="button" variant="ghost" size="sm" className="h-8 w-8 p-0" title="Remove condition" onClick={onRemove}>
+        <Trash2 className="w-4 h-4 text-muted-foreground" />
+      </Button>
+    </div>
+  );
+};
+
+interface RuleGroupEditorProps {
+  group: RuleGroup;
+  facets?: EmployeeFacets;
+  depth: number;
+  onChange: (group: RuleGroup) => void;
+  onRemove?: () => void;
+}
+
+const RuleGroupEditor = ({ group, facets, depth, onChange, onRemove }: RuleGroupEditorProps) => {
+  const updateRule = (index: number, rule: AudienceRule) =>
+    onChange({ ...group, rules: group.rules.map((existing, i) => (i === index ? rule : existing)) });
+  const removeRule = (index: number) =>
+    onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+  const addRule = (rule: AudienceRule) => onChange({ ...group, rules: [...group.rules, rule] });
+
+  return (
+    <div className={cn("space-y-3", depth > 0 && "p-3 rounded-lg border border-border bg-muted/30")}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={group.combinator}
+          onValueChange={(value) => onChange({ ...group, combinator: value as RuleGroup["combinator"] })}
+        >
+          <SelectTrigger className="h-8 w-[150px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-popover">
+            <SelectItem value="and">Match all (AND)</SelectItem>
+            <SelectItem value="or">Match any (OR)</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Switch
+            id={`negate-${group.id}`}
+            checked={!!group.negate}
+            onCheckedChange={(negate) => onChange({ ...group, negate })}
+          />
+          <Label htmlFor={`negate-${group.id}`} className="text-xs font-normal">
+            NOT (exclude matches)
+          </Label>
+        </div>
+        {onRemove && (
+          <Button type="button" variant="ghost" size="sm" className="h-8 ml-auto text-xs" onClick={onRemove}>
+            <Trash2 className="w-3 h-3 mr-1" />
+            Remove group
+          </Button>
+        )}
+      </div>
+
+      {group.rules.length === 0 && (
+        <p className="text-xs text-muted-foreground">No conditions yet - this group matches everyone.</p>
+      )}
+
+      {group.rules.map((rule, index) => (
+        <div key={rule.id} className="space-y-2">
+          {index > 0 && (
+            <Badge variant="outline" className="text-[10px] uppercase">
+              {group.combinator}
+            </Badge>
+          )}
+          {rule.type === "condition" ? (
+            <ConditionEditor
+              condition={rule}
+              facets={facets}
+              onChange={(next) => updateRule(index, next)}
+              onRemove={() => removeRule(index)}
+            />
+          ) : (
+            <RuleGroupEditor
+              group={rule}
+              facets={facets}
+              depth={depth + 1}
+              onChange={(next) => updateRule(index, next)}
+              onRemove={() => removeRule(index)}
+            />
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" className="h-8 text-xs" onClick={() => addRule(createCondition())}>
+          <Plus className="w-3 h-3 mr-1" />
+          Condition
+        </Button>
+        {depth < MAX_GROUP_DEPTH && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-8 text-xs"
+            onClick={() => addRule(createRuleGroup(group.combinator === "and" ? "or" : "and"))}
+          >
+            <FolderPlus className="w-3 h-3 mr-1" />
+            Group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface AudienceRuleBuilderProps {
+  value: RuleGroup;
+  onChange: (value: RuleGroup) => void;
+}
+
+/** Editor for a targeting rule tree: conditions combined with AND/OR, optionally negated, in nested groups. */
+export const AudienceRuleBuilder = ({ value, onChange }: AudienceRuleBuilderProps) => {
+  const { data: facets } = useEmployeeFacets();
+  return <RuleGroupEditor group={value} facets={facets} depth={0} onChange={onChange} />;
+};
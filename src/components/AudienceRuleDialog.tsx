@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { BookmarkPlus, Loader2, Plus, Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useEmployeeQuery } from "@/hooks/use-employees";
+import { useSaveSegment } from "@/hooks/use-segments";
+import { scopeFilter } from "@/lib/auth";
+import { createRuleGroup, describeRule, hasActiveRules, type RuleGroup } from "@/lib/audience-rules";
+import { queryAllEmployees } from "@/lib/employee-directory";
+import type { Employee } from "@/lib/employees";
+import type { AudienceSegment } from "@/lib/segments";
+import { AudienceRuleBuilder } from "./AudienceRuleBuilder";
+
+// Names listed under the live count
+const SAMPLE_SIZE = 5;
+
+interface AudienceRuleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAddMatches: (employees: Employee[]) => void;
+  onSegmentSaved: (segment: AudienceSegment) => void;
+  // Matches outside these departments are left out; unrestricted when unset
+  departments?: string[];
+}
+
+export const AudienceRuleDialog = ({
+  open,
+  onOpenChange,
+  onAddMatches,
+  onSegmentSaved,
+  departments,
+}: AudienceRuleDialogProps) => {
+  const { toast } = useToast();
+  const saveSegment = useSaveSegment();
+  const [rules, setRules] = useState<RuleGroup>(() => createRuleGroup());
+  const [segmentName, setSegmentName] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setRules(createRuleGroup());
+      setSegmentName("");
+    }
+  }, [open]);
+
+  const isActive = hasActiveRules(rules);
+  const { data: result, isFetching } = useEmployeeQuery({ ...scopeFilter({ rules }, departments), pageSize: SAMPLE_SIZE });
+  const total = result?.total ?? 0;
+
+  const handleAddMatches = async () => {
+    setIsAdding(true);
+    try {
+      onAddMatches(await queryAllEmployees(scopeFilter({ rules }, departments)));
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Could Not Add Matches",
+        description: error instanceof Error ? error.message : "The employee directory could not be loaded.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleSaveSegment = () => {
+    saveSegment.mutate(
+      // Saved with the department scope so the segment cannot grow past it later
+      { segment: { name: segmentName.trim(), filter: scopeFilter({ rules }, departments) } },
+      {
+        onSuccess: (segment) => {
+          onSegmentSaved(segment);
+          onOpenChange(false);
+          toast({
+            title: "Segment Saved",
+            description: `"${segment.name}" was added to the recipients and will be re-evaluated at send time.`,
+          });
+        },
+        onError: () => {
+          toast({
+            title: "Segment Not Saved",
+            description: "The segment could not be saved. Please try again.",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Targeting Rules</DialogTitle>
+          <DialogDescription>
+            Combine conditions with AND, OR and NOT to describe who should receive this notification.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[50vh] pr-3">
+          <AudienceRuleBuilder value={rules} onChange={setRules} />
+        </ScrollArea>
+
+        <div className="p-3 rounded-lg border border-border bg-muted/30 space-y-1">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            {isFetching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Users className="w-4 h-4" />}
+            {total} employee(s) match
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {isActive ? describeRule(rules) : "No conditions yet - everyone in the directory matches."}
+          </p>
+          {result && result.employees.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {result.employees.map((employee) => employee.name).join(", ")}
+              {total > SAMPLE_SIZE && ` and ${total - SAMPLE_SIZE} more`}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="rule-segment-name">Save as segment</Label>
+          <div className="flex gap-2">
+            <Input
+              id="rule-segment-name"
+              placeholder="e.g. IT and Ops, not on leave"
+              value={segmentName}
+              onChange={(e) => setSegmentName(e.target.value)}
+            />
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={handleSaveSegment}
+              disabled={!isActive || !segmentName.trim() || saveSegment.isPending}
+            >
+              <BookmarkPlus className="w-4 h-4 mr-2" />
+              Save Segment
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleAddMatches} disabled={!isActive || total === 0 || isAdding}>
+            {isAdding ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+            Add {total} Recipient(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -9,8 +9,10 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { Mail, Bell, MessageSquare, Paperclip, X, Bold, Italic, Link, List, Database, ChevronDown } from "lucide-react";
+import { Mail, Bell, MessageSquare, Paperclip, X, Database, ChevronDown } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { findUnknownFields, TEMPLATE_FIELDS } from "@/lib/template";
+import { RichTextEditor } from "./RichTextEditor";
 
 export interface ChannelMessages {
   email: { content: string; attachments: File[] };
@@ -24,7 +26,7 @@ interface ChannelMessageEditorsProps {
   onMessagesChange: (messages: ChannelMessages) => void;
 }
 
-const SMS_CHAR_LIMIT = 160;
+export const SMS_CHAR_LIMIT = 160;
 const MAX_FILE_SIZE_MB = 10;
 const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
 
@@ -153,48 +155,11 @@ export const ChannelMessageEditors = ({
     });
   };
 
-  const insertHtmlTag = (
-    channel: "email" | "portal",
-    wrapper: { open: string; close: string }
-  ) => {
-    const content = channel === "email" ? messages.email.content : messages.portal.content;
-    const newContent = `${content}${wrapper.open}${wrapper.close}`;
-
-    if (channel === "email") {
-      updateEmailContent(newContent);
-    } else {
-      updatePortalContent(newContent);
-    }
-  };
-
-  const insertPlaceholder = (channel: "email" | "portal" | "sms", placeholder: string) => {
-    const tag = `{{${placeholder}}}`;
-    if (channel === "email") {
-      updateEmailContent(messages.email.content + tag);
-    } else if (channel === "portal") {
-      updatePortalContent(messages.portal.content + tag);
-    } else {
-      const newContent = messages.sms.content + tag;
-      if (newContent.length <= SMS_CHAR_LIMIT) {
-        updateSmsContent(newContent);
-      }
-    }
+  const insertSmsPlaceholder = (tag: string) => {
+    updateSmsContent(messages.sms.content + tag);
   };
 
-  const availableFields = [
-    { key: "name", label: "Full Name", description: "Employee's full name" },
-    { key: "first_name", label: "First Name", description: "Employee's first name" },
-    { key: "last_name", label: "Last Name", description: "Employee's last name" },
-    { key: "email", label: "Email", description: "Employee's email address" },
-    { key: "role", label: "Role", description: "Job title or role" },
-    { key: "department", label: "Department", description: "Department name" },
-    { key: "location", label: "Location", description: "Office location" },
-    { key: "manager", label: "Manager", description: "Direct manager's name" },
-    { key: "employee_id", label: "Employee ID", description: "Unique employee identifier" },
-    { key: "start_date", label: "Start Date", description: "Employment start date" },
-  ];
-
-  const FieldPlaceholderButton = ({ channel }: { channel: "email" | "portal" | "sms" }) => (
+  const FieldPlaceholderButton = ({ onInsert }: { onInsert: (tag: string) => void }) => (
     <Popover>
       <PopoverTrigger asChild>
         <Button
@@ -213,11 +178,11 @@ export const ChannelMessageEditors = ({
           <p className="text-xs font-medium text-muted-foreground px-2 py-1">
             Database Fields
           </p>
-          {availableFields.map((field) => (
+          {TEMPLATE_FIELDS.map((field) => (
             <button
               key={field.key}
               type="button"
-              onClick={() => insertPlaceholder(channel, field.key)}
+              onClick={() => onInsert(`{{${field.key}}}`)}
               className="w-full text-left px-2 py-1.5 text-sm rounded-md hover:bg-muted flex items-center justify-between group"
             >
               <div>
@@ -234,53 +199,16 @@ export const ChannelMessageEditors = ({
     </Popover>
   );
 
-  const RichTextToolbar = ({ channel }: { channel: "email" | "portal" }) => (
-    <div className="flex items-center gap-1 p-2 border-b border-border bg-muted/30 flex-wrap">
-      <Button
-        type="button"
-        variant="ghost"
-        size="sm"
-        className="h-7 w-7 p-0"
-        onClick={() => insertHtmlTag(channel, { open: "<strong>", close: "</strong>" })}
-        title="Bold"
-      >
-        <Bold className="w-3.5 h-3.5" />
-      </Button>
-      <Button
-        type="button"
-        variant="ghost"
-        size="sm"
-        className="h-7 w-7 p-0"
-        onClick={() => insertHtmlTag(channel, { open: "<em>", close: "</em>" })}
-        title="Italic"
-      >
-        <Italic className="w-3.5 h-3.5" />
-      </Button>
-      <Button
-        type="button"
-        variant="ghost"
-        size="sm"
-        className="h-7 w-7 p-0"
-        onClick={() => insertHtmlTag(channel, { open: '<a href="">', close: "</a>" })}
-        title="Link"
-      >
-        <Link className="w-3.5 h-3.5" />
-      </Button>
-      <Button
-        type="button"
-        variant="ghost"
-        size="sm"
-        className="h-7 w-7 p-0"
-        onClick={() => insertHtmlTag(channel, { open: "<ul>\n  <li>", close: "</li>\n</ul>" })}
-        title="List"
-      >
-        <List className="w-3.5 h-3.5" />
-      </Button>
-      <div className="w-px h-5 bg-border mx-1" />
-      <FieldPlaceholderButton channel={channel} />
-      <span className="text-xs text-muted-foreground ml-auto">HTML supported</span>
-    </div>
-  );
+  const PlaceholderWarnings = ({ content }: { content: string }) => {
+    const unknownFields = content.includes("{{") ? findUnknownFields(content) : [];
+    if (unknownFields.length === 0) return null;
+
+    return (
+      <p className="text-xs text-destructive">
+        Unknown placeholder(s): {unknownFields.map((field) => `{{${field}}}`).join(", ")}
+      </p>
+    );
+  };
 
   const AttachmentSection = ({
     attachments,
@@ -345,15 +273,14 @@ export const ChannelMessageEditors = ({
             Email Message *
           </Label>
           <Card className="overflow-hidden">
-            <RichTextToolbar channel="email" />
-            <Textarea
-              placeholder="Compose your email message with HTML formatting..."
+            <RichTextEditor
               value={messages.email.content}
-              onChange={(e) => updateEmailContent(e.target.value)}
-              rows={6}
-              className="border-0 rounded-none focus-visible:ring-0"
+              onChange={updateEmailContent}
+              placeholder="Compose your email message..."
+              toolbarExtras={(insertText) => <FieldPlaceholderButton onInsert={insertText} />}
             />
           </Card>
+          <PlaceholderWarnings content={messages.email.content} />
           <AttachmentSection
             attachments={messages.email.attachments}
             onRemove={removeEmailAttachment}
@@ -372,15 +299,14 @@ export const ChannelMessageEditors = ({
             Portal Message *
           </Label>
           <Card className="overflow-hidden">
-            <RichTextToolbar channel="portal" />
-            <Textarea
-              placeholder="Compose your portal notification with HTML formatting..."
+            <RichTextEditor
               value={messages.portal.content}
-              onChange={(e) => updatePortalContent(e.target.value)}
-              rows={6}
-              className="border-0 rounded-none focus-visible:ring-0"
+              onChange={updatePortalContent}
+              placeholder="Compose your portal notification..."
+              toolbarExtras={(insertText) => <FieldPlaceholderButton onInsert={insertText} />}
             />
           </Card>
+          <PlaceholderWarnings content={messages.portal.content} />
           <AttachmentSection
             attachments={messages.portal.attachments}
             onRemove={removePortalAttachment}
@@ -400,7 +326,7 @@ export const ChannelMessageEditors = ({
               <MessageSquare className="w-4 h-4 text-accent" />
               SMS Message *
             </Label>
-            <FieldPlaceholderButton channel="sms" />
+            <FieldPlaceholderButton onInsert={insertSmsPlaceholder} />
           </div>
           <div className="relative">
             <Textarea
@@ -418,6 +344,7 @@ export const ChannelMessageEditors = ({
               {remaining} characters remaining
             </div>
           </div>
+          <PlaceholderWarnings content={messages.sms.content} />
         </div>
       );
     }
@@ -436,15 +363,14 @@ export const ChannelMessageEditors = ({
             Email Message
           </div>
           <Card className="overflow-hidden">
-            <RichTextToolbar channel="email" />
-            <Textarea
-              placeholder="Compose your email message with HTML formatting..."
+            <RichTextEditor
               value={messages.email.content}
-              onChange={(e) => updateEmailContent(e.target.value)}
-              rows={5}
-              className="border-0 rounded-none focus-visible:ring-0"
+              onChange={updateEmailContent}
+              placeholder="Compose your email message..."
+              toolbarExtras={(insertText) => <FieldPlaceholderButton onInsert={insertText} />}
             />
           </Card>
+          <PlaceholderWarnings content={messages.email.content} />
           <AttachmentSection
             attachments={messages.email.attachments}
             onRemove={removeEmailAttachment}
@@ -462,15 +388,14 @@ export const ChannelMessageEditors = ({
             Portal Message
           </div>
           <Card className="overflow-hidden">
-            <RichTextToolbar channel="portal" />
-            <Textarea
-              placeholder="Compose your portal notification with HTML formatting..."
+            <RichTextEditor
               value={messages.portal.content}
-              onChange={(e) => updatePortalContent(e.target.value)}
-              rows={5}
-              className="border-0 rounded-none focus-visible:ring-0"
+              onChange={updatePortalContent}
+              placeholder="Compose your portal notification..."
+              toolbarExtras={(insertText) => <FieldPlaceholderButton onInsert={insertText} />}
             />
           </Card>
+          <PlaceholderWarnings content={messages.portal.content} />
           <AttachmentSection
             attachments={messages.portal.attachments}
             onRemove={removePortalAttachment}
@@ -488,7 +413,7 @@ export const ChannelMessageEditors = ({
               <MessageSquare className="w-4 h-4 text-accent" />
               SMS Message
             </div>
-            <FieldPlaceholderButton channel="sms" />
+            <FieldPlaceholderButton onInsert={insertSmsPlaceholder} />
           </div>
           <div className="relative">
             <Textarea
@@ -508,6 +433,7 @@ export const ChannelMessageEditors = ({
               {SMS_CHAR_LIMIT - messages.sms.content.length} characters remaining
             </div>
           </div>
+          <PlaceholderWarnings content={messages.sms.content} />
           <p className="text-xs text-muted-foreground">
             SMS messages are limited to 160 characters. No HTML or attachments supported.
           </p>
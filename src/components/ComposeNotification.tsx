@@ -1,4 +1,5 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,16 +8,62 @@ import { Switch } from "@/components/ui/switch";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { Mail, MessageSquare, Bell, Send, Save, TestTube, Loader2, Clock, CalendarIcon, Zap, Plus, X } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Mail, MessageSquare, Bell, Send, Save, TestTube, Loader2, Clock, CalendarIcon, Zap, Plus, X, LayoutTemplate } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { format } from "date-fns";
+import { format, startOfDay } from "date-fns";
 import { cn } from "@/lib/utils";
-import type { Notification, AcknowledgementSettings } from "./NotificationCenter";
+import type {
+  Notification,
+  AcknowledgementSettings,
+  AttachmentMetadata,
+  NotificationChannelMessages,
+  NotificationSchedule,
+  ReminderPolicy,
+  ManagerEscalationRule,
+  NotificationAudience,
+} from "./NotificationCenter";
 import { RecipientSelector, type Employee } from "./RecipientSelector";
+import { TimezoneSelect } from "./TimezoneSelect";
+import { formatInTimeZone, getLocalTimeZone, utcToZonedTime, zonedTimeToUtc } from "@/lib/timezones";
+import { sendTestNotification } from "@/lib/dispatcher";
+import { findUnknownFields, renderTemplate } from "@/lib/template";
+import { getTemplateContext, getTemplateContexts } from "@/lib/employees";
+import { employeeDirectory } from "@/lib/employee-directory";
+import { getTemplateCategories, type NotificationTemplate } from "@/lib/notification-templates";
+import { useSaveTemplate, useTemplates } from "@/hooks/use-templates";
+import { useSegmentMembers } from "@/hooks/use-segments";
+import { useGroupExpansion } from "@/hooks/use-groups";
+import { useResubmitNotification } from "@/hooks/use-notifications";
+import { useCurrentUser } from "@/hooks/use-auth";
+import { getAllowedDepartments, toAuthor } from "@/lib/auth";
+import { notificationRepository } from "@/lib/notification-repository";
+import type { AudienceSegment } from "@/lib/segments";
+import { listGroups, type RecipientGroup } from "@/lib/recipient-groups";
+import { resolveAudience } from "@/lib/audience";
+import { toRecipientRef } from "@/lib/recipients";
+import { checkEligibility, loadEligibilityPolicy, summarizeEligibility } from "@/lib/eligibility";
+import { estimateChannels, loadSendReviewPolicy } from "@/lib/send-review";
 import { ChannelMessageEditors, type ChannelMessages } from "./ChannelMessageEditors";
+import { RecipientPreviewPane } from "./RecipientPreviewPane";
+import { TemplateDetailsDialog, type TemplateDetails } from "./TemplateDetailsDialog";
+import { EligibilityPolicyPopover } from "./EligibilityPolicyPopover";
+import { SendReviewDialog, type SendReview } from "./SendReviewDialog";
+import { ReminderPolicyFields } from "./ReminderPolicyFields";
+import { ManagerEscalationFields } from "./ManagerEscalationFields";
+import { DEFAULT_REMINDER_POLICY } from "@/lib/reminders";
+import { DEFAULT_ESCALATION_RULE } from "@/lib/escalations";
 
 interface ComposeNotificationProps {
-  onSend: (notification: Omit<Notification, "id" | "status" | "sentAt">) => void;
+  onSend: (notification: Omit<Notification, "id" | "status" | "sentAt">) => Promise<Notification>;
 }
 
 interface Draft {
@@ -25,10 +72,14 @@ interface Draft {
   channels: ("email" | "sms" | "portal")[];
   channelMessages: ChannelMessages;
   recipients: Employee[];
+  segments?: AudienceSegment[];
+  groups?: RecipientGroup[];
   requiresAcknowledgement: boolean;
   acknowledgementOptions: string[];
   allowAcknowledgementComments: boolean;
   acknowledgementDeadline?: string;
+  reminderPolicy?: ReminderPolicy;
+  escalationRule?: ManagerEscalationRule;
   savedAt: string;
 }
 
@@ -39,6 +90,19 @@ const initialMessages: ChannelMessages = {
 };
 
 const DRAFTS_STORAGE_KEY = "notification_drafts";
+
+// Test sends go to the person composing, not to the selected recipients
+const TEST_RECIPIENT = {
+  name: "You (test)",
+  email: "you@company.com",
+  phone: "+1 555 010 0000",
+};
+
+const toAttachmentMetadata = (files: File[]): AttachmentMetadata[] =>
+  files.map((file) => ({ name: file.name, size: file.size, type: file.type }));
+
+const toPlainText = (html: string) =>
+  html.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
 const DEFAULT_ACKNOWLEDGEMENT_OPTIONS = ["Acknowledged", "Need more information", "Have questions"];
 
 export const ComposeNotification = ({ onSend }: ComposeNotificationProps) => {
@@ -50,13 +114,58 @@ export const ComposeNotification = ({ onSend }: ComposeNotificationProps) => {
   const [acknowledgementOptions, setAcknowledgementOptions] = useState<string[]>(DEFAULT_ACKNOWLEDGEMENT_OPTIONS);
   const [allowAcknowledgementComments, setAllowAcknowledgementComments] = useState(false);
   const [acknowledgementDeadline, setAcknowledgementDeadline] = useState<Date | undefined>(undefined);
+  const [reminderPolicy, setReminderPolicy] = useState<ReminderPolicy>(DEFAULT_REMINDER_POLICY);
+  const [escalationRule, setEscalationRule] = useState<ManagerEscalationRule>(DEFAULT_ESCALATION_RULE);
   const [newOptionText, setNewOptionText] = useState("");
   const [selectedRecipients, setSelectedRecipients] = useState<Employee[]>([]);
+  const [selectedSegments, setSelectedSegments] = useState<AudienceSegment[]>([]);
+  const [selectedGroups, setSelectedGroups] = useState<RecipientGroup[]>([]);
   const [isSendingTest, setIsSendingTest] = useState(false);
   const [drafts, setDrafts] = useState<Draft[]>([]);
   const [deliveryType, setDeliveryType] = useState<"immediate" | "scheduled">("immediate");
   const [scheduledDate, setScheduledDate] = useState<Date | undefined>(undefined);
   const [scheduledTime, setScheduledTime] = useState("09:00");
+  const [scheduledTimezone, setScheduledTimezone] = useState(getLocalTimeZone);
+  const [pendingSend, setPendingSend] = useState<(SendReview & { audience?: NotificationAudience }) | null>(null);
+  const { data: templates = [] } = useTemplates();
+  const saveTemplate = useSaveTemplate();
+  const [loadedTemplate, setLoadedTemplate] = useState<NotificationTemplate | null>(null);
+  const [isSaveTemplateOpen, setIsSaveTemplateOpen] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { data: segmentMembers = [] } = useSegmentMembers(selectedSegments);
+  const { data: groupExpansion } = useGroupExpansion(selectedGroups);
+  // A notification an approver sent back, being edited for resubmission
+  const [revising, setRevising] = useState<Notification | null>(null);
+  const resubmit = useResubmitNotification();
+  const { data: user } = useCurrentUser();
+
+  // Everyone the notification currently reaches: picked individuals plus segment and group members
+  const audienceMembers = useMemo(() => {
+    const members = new Map(selectedRecipients.map((r) => [r.id, r]));
+    [...segmentMembers, ...(groupExpansion?.employees ?? [])].forEach((member) => {
+      if (!members.has(member.id)) members.set(member.id, member);
+    });
+    return Array.from(members.values());
+  }, [selectedRecipients, segmentMembers, groupExpansion]);
+
+  // Resolved again here so validation and the recorded expansion reflect the directory as it is now
+  const resolveAudienceMembers = async () => {
+    if (selectedSegments.length === 0 && selectedGroups.length === 0) {
+      return { members: selectedRecipients, audience: undefined };
+    }
+
+    const resolved = await resolveAudience({
+      segments: selectedSegments.map(({ id, name, filter }) => ({ id, name, filter })),
+      groups: selectedGroups.map(({ id, name }) => ({ id, name })),
+      individuals: selectedRecipients.map(toRecipientRef),
+      resolvedAt: new Date(),
+    });
+    const selectedIds = new Set(selectedRecipients.map((r) => r.id));
+    return {
+      members: [...selectedRecipients, ...resolved.members.filter((member) => !selectedIds.has(member.id))],
+      audience: resolved.audience,
+    };
+  };
 
   // Load drafts from localStorage
   useEffect(() => {
@@ -70,6 +179,146 @@ export const ComposeNotification = ({ onSend }: ComposeNotificationProps) => {
     }
   }, []);
 
+  const applyTemplate = useCallback((template: NotificationTemplate) => {
+    setTitle(template.title);
+    setChannels(template.channels);
+    setChannelMessages(template.channelMessages);
+    setRequiresAcknowledgement(template.acknowledgement.required);
+    setAcknowledgementOptions(
+      template.acknowledgement.responseOptions.length > 0
+        ? template.acknowledgement.responseOptions
+        : DEFAULT_ACKNOWLEDGEMENT_OPTIONS
+    );
+    setAllowAcknowledgementComments(template.acknowledgement.allowComments);
+    setAcknowledgementDeadline(undefined);
+    setSelectedRecipients([]);
+    setSelectedSegments([]);
+    setSelectedGroups([]);
+    setLoadedTemplate(template);
+    employeeDirectory.getMany(template.defaultRecipientIds).then(setSelectedRecipients);
+
+    toast({
+      title: "Template Applied",
+      description: `Started from "${template.name}". Review the content before sending.`,
+    });
+  }, [toast]);
+
+  // The template library links here with ?template=<id>
+  const requestedTemplateId = searchParams.get("template");
+  useEffect(() => {
+    if (!requestedTemplateId || templates.length === 0) return;
+    const template = templates.find((t) => t.id === requestedTemplateId);
+    if (template) applyTemplate(template);
+    setSearchParams({}, { replace: true });
+  }, [requestedTemplateId, templates, applyTemplate, setSearchParams]);
+
+  // History and the approval queue link here with ?revise=<id> for notifications sent back for changes
+  const requestedRevisionId = searchParams.get("revise");
+  useEffect(() => {
+    if (!requestedRevisionId) return;
+    setSearchParams({}, { replace: true });
+
+    const loadRevision = async () => {
+      const notification = await notificationRepository.get(requestedRevisionId);
+      if (notification?.status !== "changes_requested") {
+        toast({
+          title: "Cannot Revise",
+          description: "This notification is no longer waiting for changes.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const messages = notification.channelMessages ?? {};
+      const audience = notification.audience;
+      const individuals = audience?.individuals ?? notification.recipients;
+      const groupIds = new Set((audience?.groups ?? []).map((group) => group.id));
+      const [recipients, groups] = await Promise.all([
+        employeeDirectory.getMany(individuals.map((recipient) => recipient.employeeId).filter(Boolean)),
+        groupIds.size > 0 ? listGroups() : Promise.resolve([]),
+      ]);
+
+      setTitle(notification.title);
+      setChannels(notification.channels);
+      setChannelMessages({
+        email: { content: messages.email?.content ?? "", attachments: [] },
+        portal: { content: messages.portal?.content ?? "", attachments: [] },
+        sms: { content: messages.sms?.content ?? "" },
+      });
+      setSelectedRecipients(recipients);
+      setSelectedSegments((audience?.segments ?? []).map((segment) => ({ ...segment, updatedAt: audience.resolvedAt })));
+      setSelectedGroups(groups.filter((group) => groupIds.has(group.id)));
+      setRequiresAcknowledgement(notification.requiresAcknowledgement);
+      setAcknowledgementOptions(
+        notification.acknowledgementSettings?.responseOptions.length
+          ? notification.acknowledgementSettings.responseOptions
+          : DEFAULT_ACKNOWLEDGEMENT_OPTIONS
+      );
+      setAllowAcknowledgementComments(notification.acknowledgementSettings?.allowComments ?? false);
+      setAcknowledgementDeadline(notification.acknowledgementSettings?.deadline);
+      setReminderPolicy(notification.acknowledgementSettings?.reminders ?? DEFAULT_REMINDER_POLICY);
+      setEscalationRule(notification.acknowledgementSettings?.escalation ?? DEFAULT_ESCALATION_RULE);
+      setDeliveryType(notification.schedule ? "scheduled" : "immediate");
+      if (notification.schedule) {
+        const { day, time } = utcToZonedTime(notification.schedule.sendAt, notification.schedule.timezone);
+        setScheduledDate(day);
+        setScheduledTime(time);
+        setScheduledTimezone(notification.schedule.timezone);
+      }
+      setLoadedTemplate(null);
+      setRevising(notification);
+
+      const hadAttachments = [messages.email, messages.portal].some((message) => message?.attachments.length > 0);
+      toast({
+        title: "Revision Loaded",
+        description: hadAttachments
+          ? "Attachments are not kept between revisions. Add them again before resubmitting."
+          : "Make the requested changes, then resubmit for approval.",
+      });
+    };
+    loadRevision();
+  }, [requestedRevisionId, setSearchParams, toast]);
+
+  const templateDetails = useMemo<TemplateDetails>(
+    () =>
+      loadedTemplate
+        ? { name: loadedTemplate.name, category: loadedTemplate.category, description: loadedTemplate.description }
+        : { name: title, category: "", description: "" },
+    [loadedTemplate, title]
+  );
+
+  const handleSaveTemplate = async (details: TemplateDetails, replaceExisting: boolean) => {
+    try {
+      const saved = await saveTemplate.mutateAsync({
+        id: replaceExisting ? loadedTemplate?.id : undefined,
+        template: {
+          ...details,
+          title,
+          channels,
+          channelMessages,
+          acknowledgement: {
+            required: requiresAcknowledgement,
+            responseOptions: acknowledgementOptions,
+            allowComments: allowAcknowledgementComments,
+          },
+          defaultRecipientIds: selectedRecipients.map((r) => r.id),
+        },
+      });
+      setLoadedTemplate(saved);
+      setIsSaveTemplateOpen(false);
+      toast({
+        title: "Template Saved",
+        description: `"${saved.name}" is available in the template library.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could Not Save Template",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleChannelToggle = (channel: "email" | "sms" | "portal") => {
     setChannels((prev) =>
       prev.includes(channel) ? prev.filter((c) => c !== channel) : [...prev, channel]
@@ -114,10 +363,14 @@ export const ComposeNotification = ({ onSend }: ComposeNotificationProps) => {
         sms: { content: channelMessages.sms.content },
       },
       recipients: selectedRecipients,
+      segments: selectedSegments,
+      groups: selectedGroups,
       requiresAcknowledgement,
       acknowledgementOptions,
       allowAcknowledgementComments,
       acknowledgementDeadline: acknowledgementDeadline?.toISOString(),
+      reminderPolicy,
+      escalationRule,
       savedAt: new Date().toISOString(),
     };
 
@@ -136,10 +389,15 @@ export const ComposeNotification = ({ onSend }: ComposeNotificationProps) => {
     setChannels(draft.channels);
     setChannelMessages(draft.channelMessages);
     setSelectedRecipients(draft.recipients);
+    setSelectedSegments(draft.segments ?? []);
+    setSelectedGroups(draft.groups ?? []);
     setRequiresAcknowledgement(draft.requiresAcknowledgement);
     setAcknowledgementOptions(draft.acknowledgementOptions || DEFAULT_ACKNOWLEDGEMENT_OPTIONS);
     setAllowAcknowledgementComments(draft.allowAcknowledgementComments || false);
     setAcknowledgementDeadline(draft.acknowledgementDeadline ? new Date(draft.acknowledgementDeadline) : undefined);
+    setReminderPolicy(draft.reminderPolicy ?? DEFAULT_REMINDER_POLICY);
+    setEscalationRule(draft.escalationRule ?? DEFAULT_ESCALATION_RULE);
+    setLoadedTemplate(null);
 
     toast({
       title: "Draft Loaded",
@@ -158,6 +416,26 @@ export const ComposeNotification = ({ onSend }: ComposeNotificationProps) => {
     });
   };
 
+  const buildChannelMessages = (): NotificationChannelMessages => {
+    const notificationMessages: NotificationChannelMessages = {};
+    if (channels.includes("email")) {
+      notificationMessages.email = {
+        content: channelMessages.email.content,
+        attachments: toAttachmentMetadata(channelMessages.email.attachments),
+      };
+    }
+    if (channels.includes("portal")) {
+      notificationMessages.portal = {
+        content: channelMessages.portal.content,
+        attachments: toAttachmentMetadata(channelMessages.portal.attachments),
+      };
+    }
+    if (channels.includes("sms")) {
+      notificationMessages.sms = { content: channelMessages.sms.content };
+    }
+    return notificationMessages;
+  };
+
   const handleSendTestNotification = async () => {
     if (channels.length === 0 || !hasValidMessages()) {
       toast({
@@ -170,37 +448,56 @@ export const ComposeNotification = ({ onSend }: ComposeNotificationProps) => {
 
     setIsSendingTest(true);
 
-    // Simulate sending test notifications (in production, this would call edge functions)
-    await new Promise((resolve) => setTimeout(resolve, 1500));
-
-    setIsSendingTest(false);
+    let results: Awaited<ReturnType<typeof sendTestNotification>>;
+    try {
+      results = await sendTestNotification(
+        {
+          title: title || "Test notification",
+          message: "",
+          channels,
+          channelMessages: buildChannelMessages(),
+        },
+        TEST_RECIPIENT,
+        // Fill placeholders as the first selected recipient would see them
+        audienceMembers[0] ? await getTemplateContext(audienceMembers[0]) : {}
+      );
+    } catch (error) {
+      toast({
+        title: "Test Notification Failed",
+        description: error instanceof Error ? error.message : "The test notification could not be sent.",
+        variant: "destructive",
+      });
+      return;
+    } finally {
+      setIsSendingTest(false);
+    }
 
-    const channelResults = channels.map((ch) => {
-      if (ch === "email") return "📧 Email sent to your inbox";
-      if (ch === "sms") return "📱 SMS sent to your phone";
-      if (ch === "portal") return "🔔 Portal notification displayed";
-      return "";
-    });
+    const channelLabels = { email: "📧 Email", sms: "📱 SMS", portal: "🔔 Portal" };
+    const hasFailures = results.some(({ result }) => result.status === "failed" || result.status === "bounced");
 
     toast({
-      title: "Test Notification Sent",
+      title: hasFailures ? "Test Notification Partly Failed" : "Test Notification Sent",
+      variant: hasFailures ? "destructive" : "default",
       description: (
         <div className="mt-2 space-y-1">
-          {channelResults.map((result, i) => (
-            <div key={i} className="text-sm">{result}</div>
+          {results.map(({ channel, result }) => (
+            <div key={channel} className="text-sm">
+              {channelLabels[channel]}: {"reason" in result ? result.reason : result.status}
+            </div>
           ))}
           <p className="text-xs text-muted-foreground mt-2">
-            (Mock mode - Connect to Lovable Cloud for real delivery)
+            Captured locally - open the Outbox to inspect the messages
           </p>
         </div>
       ),
     });
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!title || channels.length === 0 || selectedRecipients.length === 0 || !hasValidMessages()) {
+    const hasAudience = selectedRecipients.length > 0 || selectedSegments.length > 0 || selectedGroups.length > 0;
+    if (!title || channels.length === 0 || !hasAudience || !hasValidMessages()) {
       toast({
         title: "Missing Information",
         description: "Please fill in all required fields, select channels, add messages, and select recipients.",
@@ -218,49 +515,169 @@ export const ComposeNotification = ({ onSend }: ComposeNotificationProps) => {
       return;
     }
 
-    const recipientNames = selectedRecipients.map((r) => r.name);
+    const schedule =
+      deliveryType === "scheduled"
+        ? {
+            sendAt: zonedTimeToUtc(scheduledDate, scheduledTime, scheduledTimezone),
+            timezone: scheduledTimezone,
+          }
+        : undefined;
 
-    // Combine messages for storage (in production, would store separately per channel)
-    const combinedMessage = channels
-      .map((ch) => {
-        if (ch === "email") return `[Email] ${channelMessages.email.content}`;
-        if (ch === "portal") return `[Portal] ${channelMessages.portal.content}`;
-        if (ch === "sms") return `[SMS] ${channelMessages.sms.content}`;
-        return "";
-      })
-      .join("\n\n");
+    if (schedule && schedule.sendAt <= new Date()) {
+      toast({
+        title: "Schedule In The Past",
+        description: "Please pick a delivery time that is still in the future.",
+        variant: "destructive",
+      });
+      return;
+    }
 
-    const acknowledgementSettings: AcknowledgementSettings | undefined = requiresAcknowledgement
+    const templates = [title, ...channels.map((channel) => channelMessages[channel].content)];
+    const unknownFields = Array.from(new Set(templates.flatMap(findUnknownFields)));
+    if (unknownFields.length > 0) {
+      toast({
+        title: "Unknown Placeholders",
+        description: `Remove or fix ${unknownFields.map((field) => `{{${field}}}`).join(", ")} before sending.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // The directory and template lookups below can fail, e.g. when the employee API is down
+    try {
+      const { members, audience } = await resolveAudienceMembers();
+      if (members.length === 0) {
+        toast({
+          title: "No Recipients",
+          description: "The selected segments and groups currently have no members. Adjust them or add recipients individually.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Segments and groups can reach beyond what the recipient picker lets a composer choose
+      const allowedDepartments = getAllowedDepartments(user);
+      const outOfScope = allowedDepartments
+        ? members.filter((member) => !allowedDepartments.includes(member.department))
+        : [];
+      if (outOfScope.length > 0) {
+        toast({
+          title: "Recipients Outside Your Departments",
+          description: `${outOfScope.length} recipient(s), including ${outOfScope[0].name}, are outside ${allowedDepartments.join(", ")}. Remove them or ask an admin to send this.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const contexts = await getTemplateContexts(members);
+      const missingFieldReport = members
+        .map((recipient, index) => {
+          const context = contexts[index];
+          const fields = templates.flatMap((template) => renderTemplate(template, context).missingFields);
+          return { recipient, fields: Array.from(new Set(fields)) };
+        })
+        .filter((entry) => entry.fields.length > 0);
+
+      // Scheduled sends are checked against the send time; the dispatcher checks again when it goes out
+      const eligibility = members.map((member) =>
+        checkEligibility(member, channels, loadEligibilityPolicy(), schedule?.sendAt)
+      );
+      const estimates = estimateChannels(
+        channels,
+        eligibility,
+        (index) => renderTemplate(channelMessages.sms.content, contexts[index]).output,
+        loadSendReviewPolicy()
+      );
+
+      setPendingSend({
+        title,
+        channels,
+        messages: channelMessages,
+        members,
+        audience,
+        schedule,
+        acknowledgement: buildAcknowledgementSettings(),
+        missingFieldReport,
+        eligibility: summarizeEligibility(eligibility),
+        estimates,
+      });
+    } catch (error) {
+      toast({
+        title: "Could Not Prepare Send",
+        description: error instanceof Error ? error.message : "The recipients could not be checked. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const buildAcknowledgementSettings = (): AcknowledgementSettings | undefined =>
+    requiresAcknowledgement
       ? {
           required: true,
           responseOptions: acknowledgementOptions,
           allowComments: allowAcknowledgementComments,
           deadline: acknowledgementDeadline,
+          reminders: reminderPolicy,
+          // Escalation needs a deadline to count the overdue days from
+          escalation: acknowledgementDeadline ? escalationRule : undefined,
         }
       : undefined;
 
-    onSend({
+  // The audience keeps segment rules and groups so they can be resolved again at send time
+  const submitNotification = async (
+    members: Employee[],
+    audience: NotificationAudience | undefined,
+    schedule?: NotificationSchedule
+  ) => {
+    const recipients = members.map(toRecipientRef);
+
+    const notificationMessages = buildChannelMessages();
+    const summary = toPlainText(notificationMessages[channels[0]].content);
+
+    const acknowledgementSettings = buildAcknowledgementSettings();
+
+    const notification = {
       title,
-      message: combinedMessage,
+      message: summary,
+      channelMessages: notificationMessages,
       channels,
-      recipients: recipientNames,
+      recipients,
+      audience,
       requiresAcknowledgement,
       acknowledgementSettings,
-    });
+      schedule,
+      createdBy: toAuthor(user),
+    };
 
-    if (deliveryType === "scheduled" && scheduledDate) {
-      const [hours, minutes] = scheduledTime.split(":").map(Number);
-      const scheduledDateTime = new Date(scheduledDate);
-      scheduledDateTime.setHours(hours, minutes);
+    let saved: Notification;
+    try {
+      saved = revising
+        ? await resubmit.mutateAsync({ id: revising.id, notification })
+        : await onSend(notification);
+    } catch {
+      toast({
+        title: "Send Failed",
+        description: "The notification could not be saved. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
 
+    if (saved.status === "pending_approval") {
+      const approvers = Array.from(new Set(saved.approval.steps.map((step) => step.approvers)));
+      toast({
+        title: "Submitted For Approval",
+        description: `"${title}" needs sign-off from ${approvers.join(", then ")} before it is sent.`,
+      });
+    } else if (schedule) {
       toast({
         title: "Notification Scheduled",
-        description: `Your notification will be sent on ${format(scheduledDateTime, "PPP 'at' p")} to ${recipientNames.length} recipient(s).`,
+        description: `Your notification will be sent on ${formatInTimeZone(schedule.sendAt, schedule.timezone)} to ${recipients.length} recipient(s).`,
       });
     } else {
       toast({
         title: "Notification Sent",
-        description: `Your notification has been sent to ${recipientNames.length} recipient(s) via ${channels.join(", ")}.`,
+        description: `Your notification has been sent to ${recipients.length} recipient(s) via ${channels.join(", ")}.`,
       });
     }
 
@@ -272,11 +689,24 @@ export const ComposeNotification = ({ onSend }: ComposeNotificationProps) => {
     setAcknowledgementOptions(DEFAULT_ACKNOWLEDGEMENT_OPTIONS);
     setAllowAcknowledgementComments(false);
     setAcknowledgementDeadline(undefined);
+    setReminderPolicy(DEFAULT_REMINDER_POLICY);
+    setEscalationRule(DEFAULT_ESCALATION_RULE);
     setNewOptionText("");
     setSelectedRecipients([]);
+    setSelectedSegments([]);
+    setSelectedGroups([]);
+    setLoadedTemplate(null);
     setDeliveryType("immediate");
     setScheduledDate(undefined);
     setScheduledTime("09:00");
+    setScheduledTimezone(getLocalTimeZone());
+    setRevising(null);
+  };
+
+  const handleConfirmPendingSend = async () => {
+    const { schedule, members, audience } = pendingSend;
+    setPendingSend(null);
+    await submitNotification(members, audience, schedule);
   };
 
   const resetForm = () => {
@@ -287,8 +717,14 @@ export const ComposeNotification = ({ onSend }: ComposeNotificationProps) => {
     setAcknowledgementOptions(DEFAULT_ACKNOWLEDGEMENT_OPTIONS);
     setAllowAcknowledgementComments(false);
     setAcknowledgementDeadline(undefined);
+    setReminderPolicy(DEFAULT_REMINDER_POLICY);
+    setEscalationRule(DEFAULT_ESCALATION_RULE);
     setNewOptionText("");
     setSelectedRecipients([]);
+    setSelectedSegments([]);
+    setSelectedGroups([]);
+    setLoadedTemplate(null);
+    setRevising(null);
   };
 
   const handleAddOption = () => {
@@ -347,13 +783,67 @@ export const ComposeNotification = ({ onSend }: ComposeNotificationProps) => {
       {/* Main Compose Card */}
       <Card className="shadow-lg border-border/50">
         <CardHeader>
-          <CardTitle>Compose New Notification</CardTitle>
+          <CardTitle>{revising ? "Revise Notification" : "Compose New Notification"}</CardTitle>
           <CardDescription>
-            Create and send a notification to your employees through multiple channels
+            {revising
+              ? "Make the requested changes and resubmit it for approval"
+              : "Create and send a notification to your employees through multiple channels"}
           </CardDescription>
+          {revising && (
+            <div className="flex items-start justify-between gap-3 mt-2 p-3 rounded-lg border border-warning/20 bg-warning/5 text-sm">
+              <div className="space-y-1">
+                <p className="font-medium">Changes requested on "{revising.title}"</p>
+                {revising.approval?.trail
+                  .filter((event) => event.action === "changes_requested")
+                  .slice(-1)
+                  .map((event) => (
+                    <p key={event.at.getTime()} className="text-muted-foreground">
+                      {event.actor}: {event.comment}
+                    </p>
+                  ))}
+              </div>
+              <Button type="button" variant="ghost" size="sm" onClick={resetForm}>
+                Discard Revision
+              </Button>
+            </div>
+          )}
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-6">
+            {templates.length > 0 && (
+              <div className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 rounded-lg border border-dashed border-border">
+                <div className="flex items-center gap-2 text-sm text-muted-foreground flex-1">
+                  <LayoutTemplate className="w-4 h-4" />
+                  {loadedTemplate ? `Based on "${loadedTemplate.name}"` : "Start from a template"}
+                </div>
+                <Select
+                  value=""
+                  onValueChange={(id) => {
+                    const template = templates.find((t) => t.id === id);
+                    if (template) applyTemplate(template);
+                  }}
+                >
+                  <SelectTrigger className="sm:w-[260px]">
+                    <SelectValue placeholder="Use template..." />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover">
+                    {getTemplateCategories(templates).map((category) => (
+                      <SelectGroup key={category}>
+                        <SelectLabel>{category}</SelectLabel>
+                        {templates
+                          .filter((t) => t.category === category)
+                          .map((t) => (
+                            <SelectItem key={t.id} value={t.id}>
+                              {t.name}
+                            </SelectItem>
+                          ))}
+                      </SelectGroup>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="title">Notification Title *</Label>
               <Input
@@ -424,15 +914,35 @@ export const ComposeNotification = ({ onSend }: ComposeNotificationProps) => {
               </div>
             </div>
 
-            <ChannelMessageEditors
-              channels={channels}
-              messages={channelMessages}
-              onMessagesChange={setChannelMessages}
-            />
+            {channels.length > 0 ? (
+              <div className="grid gap-4 xl:grid-cols-2 items-start">
+                <ChannelMessageEditors
+                  channels={channels}
+                  messages={channelMessages}
+                  onMessagesChange={setChannelMessages}
+                />
+                <RecipientPreviewPane
+                  title={title}
+                  channels={channels}
+                  messages={channelMessages}
+                  recipients={audienceMembers}
+                />
+              </div>
+            ) : (
+              <ChannelMessageEditors
+                channels={channels}
+                messages={channelMessages}
+                onMessagesChange={setChannelMessages}
+              />
+            )}
 
             <RecipientSelector
               selectedRecipients={selectedRecipients}
               onRecipientsChange={setSelectedRecipients}
+              selectedSegments={selectedSegments}
+              onSegmentsChange={setSelectedSegments}
+              selectedGroups={selectedGroups}
+              onGroupsChange={setSelectedGroups}
             />
 
             {/* Delivery Time */}
@@ -440,6 +950,9 @@ export const ComposeNotification = ({ onSend }: ComposeNotificationProps) => {
               <div className="flex items-center gap-2">
                 <Clock className="w-4 h-4 text-muted-foreground" />
                 <Label className="text-base font-medium">Delivery Time</Label>
+                <div className="ml-auto">
+                  <EligibilityPolicyPopover />
+                </div>
               </div>
               
               <div className="grid grid-cols-2 gap-3">
@@ -517,7 +1030,7 @@ export const ComposeNotification = ({ onSend }: ComposeNotificationProps) => {
                         mode="single"
                         selected={scheduledDate}
                         onSelect={setScheduledDate}
-                        disabled={(date) => date < new Date()}
+                        disabled={(date) => date < startOfDay(new Date())}
                         initialFocus
                         className="p-3 pointer-events-auto"
                       />
@@ -534,6 +1047,12 @@ export const ComposeNotification = ({ onSend }: ComposeNotificationProps) => {
                       className="w-[130px]"
                     />
                   </div>
+
+                  <TimezoneSelect
+                    value={scheduledTimezone}
+                    onValueChange={setScheduledTimezone}
+                    className="w-[220px]"
+                  />
                 </div>
               )}
             </div>
@@ -629,7 +1148,7 @@ export const ComposeNotification = ({ onSend }: ComposeNotificationProps) => {
                         <div className="space-y-0.5">
                           <div className="text-sm font-medium">Response Deadline</div>
                           <p className="text-xs text-muted-foreground">
-                            Set a due date for responses (reminders sent if overdue)
+                            Set a due date for responses
                           </p>
                         </div>
                         <Popover>
@@ -673,6 +1192,24 @@ export const ComposeNotification = ({ onSend }: ComposeNotificationProps) => {
                         </Popover>
                       </div>
                     </div>
+
+                    {/* Reminders */}
+                    <div className="pt-2 border-t border-border">
+                      <ReminderPolicyFields
+                        policy={reminderPolicy}
+                        onChange={setReminderPolicy}
+                        hasDeadline={!!acknowledgementDeadline}
+                      />
+                    </div>
+
+                    {/* Manager Escalation */}
+                    <div className="pt-2 border-t border-border">
+                      <ManagerEscalationFields
+                        rule={escalationRule}
+                        onChange={setEscalationRule}
+                        hasDeadline={!!acknowledgementDeadline}
+                      />
+                    </div>
                   </div>
                 )}
               </div>
@@ -706,6 +1243,17 @@ export const ComposeNotification = ({ onSend }: ComposeNotificationProps) => {
                   Save Draft
                 </Button>
 
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="lg"
+                  onClick={() => setIsSaveTemplateOpen(true)}
+                  disabled={!hasAnyContent()}
+                >
+                  <LayoutTemplate className="w-4 h-4 mr-2" />
+                  Save as Template
+                </Button>
+
                 <Button
                   type="button"
                   variant="outline"
@@ -725,6 +1273,22 @@ export const ComposeNotification = ({ onSend }: ComposeNotificationProps) => {
           </form>
         </CardContent>
       </Card>
+
+      <TemplateDetailsDialog
+        open={isSaveTemplateOpen}
+        onOpenChange={setIsSaveTemplateOpen}
+        title="Save as Template"
+        initialDetails={templateDetails}
+        categories={getTemplateCategories(templates)}
+        existingTemplateName={loadedTemplate?.name}
+        onSave={handleSaveTemplate}
+      />
+
+      <SendReviewDialog
+        review={pendingSend}
+        onOpenChange={(open) => !open && setPendingSend(null)}
+        onConfirm={handleConfirmPendingSend}
+      />
     </div>
   );
 };
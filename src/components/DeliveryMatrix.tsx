@@ -0,0 +1,118 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { CheckCircle2, CheckCheck, Clock, MinusCircle, PauseCircle, Undo2, XCircle } from "lucide-react";
+import { countDeliveriesByStatus } from "@/lib/delivery-status";
+import { recipientKey, uniqueRecipients } from "@/lib/recipients";
+import type { DeliveryRecord, DeliveryStatus, NotificationChannel, RecipientRef } from "./NotificationCenter";
+
+interface DeliveryMatrixProps {
+  channels: NotificationChannel[];
+  deliveries: DeliveryRecord[];
+}
+
+const statusStyles: Record<DeliveryStatus, { label: string; className: string; icon: JSX.Element }> = {
+  queued: { label: "Queued", className: "text-muted-foreground", icon: <Clock className="w-4 h-4" /> },
+  sent: { label: "Sent", className: "text-primary", icon: <CheckCircle2 className="w-4 h-4" /> },
+  delivered: { label: "Delivered", className: "text-success", icon: <CheckCheck className="w-4 h-4" /> },
+  bounced: { label: "Bounced", className: "text-destructive", icon: <Undo2 className="w-4 h-4" /> },
+  failed: { label: "Failed", className: "text-destructive", icon: <XCircle className="w-4 h-4" /> },
+  skipped: { label: "Skipped", className: "text-muted-foreground", icon: <MinusCircle className="w-4 h-4" /> },
+  deferred: { label: "Deferred", className: "text-warning", icon: <PauseCircle className="w-4 h-4" /> },
+};
+
+export const DeliveryStatusCell = ({ delivery }: { delivery?: DeliveryRecord }) => {
+  if (!delivery) return <span className="text-muted-foreground">—</span>;
+  const style = statusStyles[delivery.status];
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className={`inline-flex items-center gap-1 text-xs ${style.className}`}>
+          {style.icon}
+          {style.label}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent>
+        <div className="space-y-1 text-xs">
+          {(delivery.attempts ?? []).map((attempt, idx) => (
+            <div key={idx}>
+              Attempt {idx + 1}: {statusStyles[attempt.status].label} at {attempt.at.toLocaleString()}
+              {attempt.reason && ` - ${attempt.reason}`}
+            </div>
+          ))}
+          {!delivery.attempts?.length && (
+            <div>{delivery.reason ?? `${style.label} at ${delivery.updatedAt.toLocaleString()}`}</div>
+          )}
+          {delivery.deferredUntil && (
+            <div className="text-muted-foreground">
+              Held until {delivery.deferredUntil.toLocaleString()}
+            </div>
+          )}
+          {delivery.nextRetryAt && (
+            <div className="text-muted-foreground">
+              Next retry at {delivery.nextRetryAt.toLocaleString()}
+            </div>
+          )}
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+export const DeliveryMatrix = ({ channels, deliveries }: DeliveryMatrixProps) => {
+  const recipients = uniqueRecipients(deliveries.map((delivery) => delivery.recipient));
+  const counts = countDeliveriesByStatus(deliveries);
+
+  const findDelivery = (recipient: RecipientRef, channel: NotificationChannel) =>
+    deliveries.find(
+      (delivery) => recipientKey(delivery.recipient) === recipientKey(recipient) && delivery.channel === channel
+    );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(statusStyles) as DeliveryStatus[])
+          .filter((status) => counts[status] > 0)
+          .map((status) => (
+            <Badge key={status} variant="outline" className={statusStyles[status].className}>
+              {statusStyles[status].label}: {counts[status]}
+            </Badge>
+          ))}
+      </div>
+      <div className="rounded-lg border border-border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Recipient</TableHead>
+              {channels.map((channel) => (
+                <TableHead key={channel} className="capitalize">
+                  {channel}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {recipients.map((recipient) => (
+              <TableRow key={recipientKey(recipient)}>
+                <TableCell className="font-medium text-sm">{recipient.name}</TableCell>
+                {channels.map((channel) => (
+                  <TableCell key={channel}>
+                    <DeliveryStatusCell delivery={findDelivery(recipient, channel)} />
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ShieldCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { loadEligibilityPolicy, saveEligibilityPolicy, type EligibilityPolicy } from "@/lib/eligibility";
+import { loadSendReviewPolicy, saveSendReviewPolicy, type SendReviewPolicy } from "@/lib/send-review";
+
+const ON_LEAVE_OPTIONS: { value: EligibilityPolicy["onLeave"]; label: string; description: string }[] = [
+  { value: "portal-only", label: "Portal only", description: "Post to their inbox, skip email and SMS" },
+  { value: "defer", label: "Defer until return", description: "Hold everything until the day after their leave ends" },
+  { value: "skip", label: "Skip", description: "Do not notify them at all" },
+];
+
+export const EligibilityPolicyPopover = () => {
+  const { toast } = useToast();
+  const [policy, setPolicy] = useState<EligibilityPolicy>(loadEligibilityPolicy);
+  const [reviewPolicy, setReviewPolicy] = useState<SendReviewPolicy>(loadSendReviewPolicy);
+
+  const updateNumber = (key: keyof SendReviewPolicy, value: string) => {
+    const parsed = Number(value);
+    if (!Number.isNaN(parsed)) {
+      setReviewPolicy((prev) => ({ ...prev, [key]: parsed }));
+    }
+  };
+
+  const isValid = reviewPolicy.confirmationThreshold >= 1 && reviewPolicy.smsCostPerSegment >= 0;
+
+  const handleSave = () => {
+    saveEligibilityPolicy(policy);
+    saveSendReviewPolicy(reviewPolicy);
+    toast({ title: "Delivery Rules Saved", description: "New sends will follow the updated rules." });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="gap-2">
+          <ShieldCheck className="w-4 h-4" />
+          Delivery Rules
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 bg-popover" align="end">
+        <div className="space-y-4">
+          <p className="text-xs text-muted-foreground">
+            Inactive employees and channels an employee opted out of are always skipped.
+          </p>
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Employees on leave</div>
+            <RadioGroup
+              value={policy.onLeave}
+              onValueChange={(onLeave) =>
+                setPolicy((prev) => ({ ...prev, onLeave: onLeave as EligibilityPolicy["onLeave"] }))
+              }
+            >
+              {ON_LEAVE_OPTIONS.map((option) => (
+                <div key={option.value} className="flex items-start gap-2">
+                  <RadioGroupItem value={option.value} id={`on-leave-${option.value}`} className="mt-0.5" />
+                  <Label htmlFor={`on-leave-${option.value}`} className="font-normal">
+                    <span className="text-sm">{option.label}</span>
+                    <span className="block text-xs text-muted-foreground">{option.description}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <div className="text-sm font-medium">Quiet Hours</div>
+              <p className="text-xs text-muted-foreground">Hold email and SMS until they end</p>
+            </div>
+            <Switch
+              checked={policy.respectQuietHours}
+              onCheckedChange={(respectQuietHours) => setPolicy((prev) => ({ ...prev, respectQuietHours }))}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="confirmation-threshold" className="text-xs">Type to confirm from</Label>
+              <Input
+                id="confirmation-threshold"
+                type="number"
+                min={1}
+                value={reviewPolicy.confirmationThreshold}
+                onChange={(e) => updateNumber("confirmationThreshold", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sms-cost" className="text-xs">SMS cost / segment ($)</Label>
+              <Input
+                id="sms-cost"
+                type="number"
+                min={0}
+                step={0.0001}
+                value={reviewPolicy.smsCostPerSegment}
+                onChange={(e) => updateNumber("smsCostPerSegment", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <Button type="button" size="sm" className="w-full" onClick={handleSave} disabled={!isValid}>
+            Save Rules
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
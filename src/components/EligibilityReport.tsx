@@ -0,0 +1,46 @@
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+import type { NotificationChannel } from "./NotificationCenter";
+import type { ChannelDecision, EligibilitySummary, RecipientEligibility } from "@/lib/eligibility";
+
+const describeDecision = (channel: NotificationChannel, decision: ChannelDecision) => {
+  if (decision.action === "skip") return `${channel}: ${decision.reason}`;
+  if (decision.action === "defer") return `${channel}: held until ${format(decision.until, "MMM d, h:mm a")}`;
+  return `${channel}: sent`;
+};
+
+const Row = ({ result }: { result: RecipientEligibility }) => (
+  <div className="flex items-start justify-between gap-2 p-2 rounded-md border border-border text-sm">
+    <span className="font-medium">{result.employee.name}</span>
+    <span className="text-xs text-muted-foreground text-right">
+      {(Object.entries(result.decisions) as [NotificationChannel, ChannelDecision][])
+        .filter(([, decision]) => decision.action !== "send")
+        .map(([channel, decision]) => describeDecision(channel, decision))
+        .join("; ")}
+    </span>
+  </div>
+);
+
+/** Lists recipients the eligibility rules skip, defer or limit. */
+export const EligibilityReport = ({ summary }: { summary: EligibilitySummary }) => {
+  const sections = [
+    { label: "Skipped", results: summary.skipped },
+    { label: "Deferred", results: summary.deferred },
+    { label: "Fewer channels", results: summary.limited },
+  ].filter((section) => section.results.length > 0);
+
+  return (
+    <div className="space-y-3">
+      {sections.map((section) => (
+        <div key={section.label} className="space-y-2">
+          <Badge variant="outline">
+            {section.label} ({section.results.length})
+          </Badge>
+          {section.results.map((result) => (
+            <Row key={result.employee.id} result={result} />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
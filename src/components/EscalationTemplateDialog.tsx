@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ChevronDown, Database } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { TEMPLATE_FIELDS } from "@/lib/template";
+import {
+  DEFAULT_ESCALATION_TEMPLATE,
+  ESCALATION_FIELDS,
+  loadEscalationTemplate,
+  saveEscalationTemplate,
+  type EscalationTemplate,
+} from "@/lib/escalations";
+import { RichTextEditor } from "./RichTextEditor";
+
+// The manager is the one receiving the notice, so only their own details make sense here
+const MANAGER_FIELDS = TEMPLATE_FIELDS.filter((field) => ["name", "first_name", "department"].includes(field.key));
+
+const FIELD_GROUPS = [
+  { title: "Escalation", fields: ESCALATION_FIELDS },
+  { title: "Manager", fields: MANAGER_FIELDS },
+];
+
+const InsertFieldButton = ({ onInsert }: { onInsert: (tag: string) => void }) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <Button type="button" variant="outline" size="sm" className="h-7 gap-1 text-xs">
+        <Database className="w-3.5 h-3.5" />
+        Insert Field
+        <ChevronDown className="w-3 h-3" />
+      </Button>
+    </PopoverTrigger>
+    <PopoverContent className="w-64 p-2 bg-popover" align="start">
+      {FIELD_GROUPS.map((group) => (
+        <div key={group.title} className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground px-2 py-1">{group.title}</p>
+          {group.fields.map((field) => (
+            <button
+              key={field.key}
+              type="button"
+              onClick={() => onInsert(`{{${field.key}}}`)}
+              className="w-full text-left px-2 py-1.5 text-sm rounded-md hover:bg-muted"
+            >
+              <span className="font-medium">{field.label}</span>
+              <p className="text-xs text-muted-foreground">{field.description}</p>
+            </button>
+          ))}
+        </div>
+      ))}
+    </PopoverContent>
+  </Popover>
+);
+
+interface EscalationTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Edits the notice sent to managers of overdue recipients; shared by every notification. */
+export const EscalationTemplateDialog = ({ open, onOpenChange }: EscalationTemplateDialogProps) => {
+  const { toast } = useToast();
+  const [template, setTemplate] = useState<EscalationTemplate>(loadEscalationTemplate);
+
+  useEffect(() => {
+    if (open) setTemplate(loadEscalationTemplate());
+  }, [open]);
+
+  const handleSave = () => {
+    saveEscalationTemplate(template);
+    onOpenChange(false);
+    toast({
+      title: "Escalation Notice Saved",
+      description: "Managers will receive this notice for any notification that escalates.",
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Manager Escalation Notice</DialogTitle>
+          <DialogDescription>
+            Emailed to a manager when their direct reports are overdue on a response.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="escalation-subject">Subject</Label>
+            <Input
+              id="escalation-subject"
+              value={template.subject}
+              onChange={(e) => setTemplate((prev) => ({ ...prev, subject: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Message</Label>
+            <RichTextEditor
+              value={template.body}
+              onChange={(body) => setTemplate((prev) => ({ ...prev, body }))}
+              toolbarExtras={(insertText) => <InsertFieldButton onInsert={insertText} />}
+            />
+            <p className="text-xs text-muted-foreground">
+              Must include {"{{pending_reports}}"} so the manager knows who to follow up with.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <Button type="button" variant="ghost" onClick={() => setTemplate(DEFAULT_ESCALATION_TEMPLATE)}>
+            Reset to Default
+          </Button>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={handleSave}
+              disabled={!template.subject.trim() || !template.body.includes("{{pending_reports}}")}
+            >
+              Save Notice
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,214 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Search, X } from "lucide-react";
+import { useEmployeeFacets, useEmployeeQuery } from "@/hooks/use-employees";
+import { employeeDirectory } from "@/lib/employee-directory";
+import type { Employee } from "@/lib/employees";
+import type { NewRecipientGroup, RecipientGroup } from "@/lib/recipient-groups";
+
+interface GroupEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Null when creating a new list
+  group: RecipientGroup | null;
+  // Candidates for nesting
+  groups: RecipientGroup[];
+  onSave: (group: NewRecipientGroup) => void;
+}
+
+const toggleValue = (values: string[], value: string) =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+interface CheckboxListProps {
+  options: { value: string; label: string }[];
+  values: string[];
+  onToggle: (value: string) => void;
+  empty: string;
+}
+
+const CheckboxList = ({ options, values, onToggle, empty }: CheckboxListProps) =>
+  options.length === 0 ? (
+    <p className="text-xs text-muted-foreground">{empty}</p>
+  ) : (
+    <ScrollArea className="h-[120px] rounded-md border border-border">
+      <div className="p-2">
+        {options.map((option) => (
+          <div
+            key={option.value}
+            className="flex items-center gap-2 p-1.5 rounded-md hover:bg-muted/50 cursor-pointer text-sm"
+            onClick={() => onToggle(option.value)}
+          >
+            <Checkbox checked={values.includes(option.value)} />
+            {option.label}
+          </div>
+        ))}
+      </div>
+    </ScrollArea>
+  );
+
+export const GroupEditorDialog = ({ open, onOpenChange, group, groups, onSave }: GroupEditorDialogProps) => {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [members, setMembers] = useState<Employee[]>([]);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [locations, setLocations] = useState<string[]>([]);
+  const [groupIds, setGroupIds] = useState<string[]>([]);
+  const [search, setSearch] = useState("");
+  const { data: facets } = useEmployeeFacets();
+  const { data: result } = useEmployeeQuery({ search: search || undefined, pageSize: 8 });
+
+  useEffect(() => {
+    if (!open) return;
+    setName(group?.name ?? "");
+    setDescription(group?.description ?? "");
+    setDepartments(group?.departments ?? []);
+    setLocations(group?.locations ?? []);
+    setGroupIds(group?.groupIds ?? []);
+    setSearch("");
+    setMembers([]);
+    if (group?.employeeIds.length) {
+      employeeDirectory.getMany(group.employeeIds).then(setMembers);
+    }
+  }, [open, group]);
+
+  const toggleMember = (employee: Employee) =>
+    setMembers((current) =>
+      current.some((member) => member.id === employee.id)
+        ? current.filter((member) => member.id !== employee.id)
+        : [...current, employee]
+    );
+
+  const isEmpty = members.length === 0 && departments.length === 0 && locations.length === 0 && groupIds.length === 0;
+
+  const handleSave = () => {
+    onSave({
+      name: name.trim(),
+      description: description.trim() || undefined,
+      employeeIds: members.map((member) => member.id),
+      departments,
+      locations,
+      groupIds,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{group ? "Edit Distribution List" : "New Distribution List"}</DialogTitle>
+          <DialogDescription>
+            Members are expanded to individual employees each time a notification is sent.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[65vh] pr-3">
+          <div className="space-y-4">
+            <div className="grid gap-3 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="group-name">Name *</Label>
+                <Input id="group-name" value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="group-description">Description</Label>
+                <Input id="group-description" value={description} onChange={(e) => setDescription(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Employees</Label>
+              {members.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {members.map((member) => (
+                    <Badge key={member.id} variant="secondary" className="gap-1">
+                      {member.name}
+                      <button
+                        type="button"
+                        onClick={() => toggleMember(member)}
+                        className="hover:bg-muted rounded-full p-0.5"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search employees to add..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <CheckboxList
+                options={(result?.employees ?? []).map((employee) => ({
+                  value: employee.id,
+                  label: `${employee.name} - ${employee.role}`,
+                }))}
+                values={members.map((member) => member.id)}
+                onToggle={(id) => toggleMember(result.employees.find((employee) => employee.id === id))}
+                empty="No employees match your search."
+              />
+            </div>
+
+            <div className="grid gap-3 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Whole departments</Label>
+                <CheckboxList
+                  options={(facets?.departments ?? []).map((value) => ({ value, label: value }))}
+                  values={departments}
+                  onToggle={(value) => setDepartments(toggleValue(departments, value))}
+                  empty="No departments in the directory."
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Whole locations</Label>
+                <CheckboxList
+                  options={(facets?.locations ?? []).map((value) => ({ value, label: value }))}
+                  values={locations}
+                  onToggle={(value) => setLocations(toggleValue(locations, value))}
+                  empty="No locations in the directory."
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Nested groups</Label>
+              <CheckboxList
+                options={groups
+                  .filter((candidate) => candidate.id !== group?.id)
+                  .map((candidate) => ({ value: candidate.id, label: candidate.name }))}
+                values={groupIds}
+                onToggle={(value) => setGroupIds(toggleValue(groupIds, value))}
+                empty="No other groups yet."
+              />
+            </div>
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={!name.trim() || isEmpty}>
+            Save List
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
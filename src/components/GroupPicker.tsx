@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ChevronDown, Search, Settings2, UsersRound } from "lucide-react";
+import { useGroupExpansion, useGroups } from "@/hooks/use-groups";
+import type { RecipientGroup } from "@/lib/recipient-groups";
+
+interface GroupPickerProps {
+  selectedGroups: RecipientGroup[];
+  onGroupsChange: (groups: RecipientGroup[]) => void;
+}
+
+export const GroupPicker = ({ selectedGroups, onGroupsChange }: GroupPickerProps) => {
+  const [search, setSearch] = useState("");
+  const { data: groups = [], isLoading } = useGroups();
+  const { data: expansion } = useGroupExpansion(groups);
+
+  const sizes = Object.fromEntries(
+    (expansion?.expansions ?? []).map((entry) => [entry.groupId, entry.employeeIds.length])
+  );
+  const query = search.trim().toLowerCase();
+  const visibleGroups = groups.filter((group) => !query || group.name.toLowerCase().includes(query));
+  const sections = [
+    { label: "Distribution lists", groups: visibleGroups.filter((group) => !group.builtIn) },
+    { label: "Directory groups", groups: visibleGroups.filter((group) => group.builtIn) },
+  ];
+
+  const isSelected = (group: RecipientGroup) => selectedGroups.some((g) => g.id === group.id);
+
+  const toggleGroup = (group: RecipientGroup) => {
+    onGroupsChange(
+      isSelected(group) ? selectedGroups.filter((g) => g.id !== group.id) : [...selectedGroups, group]
+    );
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" className="gap-2 shrink-0">
+          <UsersRound className="w-4 h-4" />
+          Groups
+          {selectedGroups.length > 0 && <Badge variant="secondary">{selectedGroups.length}</Badge>}
+          <ChevronDown className="w-4 h-4 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[340px] p-0 bg-popover" align="end">
+        <div className="p-3 border-b border-border">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Search groups..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9 h-9"
+            />
+          </div>
+        </div>
+        <ScrollArea className="h-[280px]">
+          {isLoading ? (
+            <div className="p-4 text-center text-muted-foreground text-sm">Loading groups...</div>
+          ) : (
+            <div className="p-2 space-y-2">
+              {sections.map(
+                (section) =>
+                  section.groups.length > 0 && (
+                    <div key={section.label}>
+                      <p className="px-2 py-1 text-xs font-medium text-muted-foreground">{section.label}</p>
+                      {section.groups.map((group) => (
+                        <div
+                          key={group.id}
+                          className="flex items-center gap-3 p-2 rounded-md hover:bg-muted/50 cursor-pointer"
+                          onClick={() => toggleGroup(group)}
+                        >
+                          <Checkbox checked={isSelected(group)} />
+                          <div className="flex-1 min-w-0">
+                            <div className="font-medium text-sm truncate">{group.name}</div>
+                            {group.description && (
+                              <div className="text-xs text-muted-foreground truncate">{group.description}</div>
+                            )}
+                          </div>
+                          {sizes[group.id] !== undefined && (
+                            <Badge variant="outline" className="text-xs shrink-0">
+                              {sizes[group.id]}
+                            </Badge>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )
+              )}
+            </div>
+          )}
+        </ScrollArea>
+        <div className="p-2 border-t border-border">
+          <Link to="/groups" className="flex items-center gap-1 px-2 text-xs text-muted-foreground hover:text-primary">
+            <Settings2 className="w-3 h-3" />
+            Manage distribution lists
+          </Link>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
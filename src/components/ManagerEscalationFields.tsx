@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { FileText } from "lucide-react";
+import type { ManagerEscalationRule } from "./NotificationCenter";
+import { EscalationTemplateDialog } from "./EscalationTemplateDialog";
+
+interface ManagerEscalationFieldsProps {
+  rule: ManagerEscalationRule;
+  onChange: (rule: ManagerEscalationRule) => void;
+  hasDeadline: boolean;
+}
+
+export const ManagerEscalationFields = ({ rule, onChange, hasDeadline }: ManagerEscalationFieldsProps) => {
+  const [isTemplateOpen, setIsTemplateOpen] = useState(false);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="space-y-0.5">
+          <div className="text-sm font-medium">Escalate to Managers</div>
+          <p className="text-xs text-muted-foreground">
+            {hasDeadline
+              ? "Email each overdue recipient's manager with their pending direct reports"
+              : "Set a response deadline to escalate overdue recipients"}
+          </p>
+        </div>
+        <Switch
+          checked={rule.enabled && hasDeadline}
+          onCheckedChange={(enabled) => onChange({ ...rule, enabled })}
+          disabled={!hasDeadline}
+        />
+      </div>
+
+      {rule.enabled && hasDeadline && (
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="escalation-days" className="text-xs">
+              Days overdue
+            </Label>
+            <Input
+              id="escalation-days"
+              type="number"
+              min={0}
+              className="w-24"
+              value={rule.daysOverdue}
+              onChange={(e) => onChange({ ...rule, daysOverdue: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+            />
+          </div>
+          <Button type="button" variant="outline" size="sm" className="gap-1" onClick={() => setIsTemplateOpen(true)}>
+            <FileText className="w-4 h-4" />
+            Edit Notice
+          </Button>
+        </div>
+      )}
+
+      <EscalationTemplateDialog open={isTemplateOpen} onOpenChange={setIsTemplateOpen} />
+    </div>
+  );
+};
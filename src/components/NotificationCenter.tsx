@@ -1,42 +1,254 @@
-import { useState } from "react";
 import { Link } from "react-router-dom";
 import { ComposeNotification } from "./ComposeNotification";
-import { Bell, History } from "lucide-react";
+import { Bell, History, Inbox, LayoutTemplate, Mailbox, ShieldCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { useNotifications, useSendNotification } from "@/hooks/use-notifications";
+import { useCurrentUser } from "@/hooks/use-auth";
+import { can, canViewNotification } from "@/lib/auth";
+import { getInboxItems, isUnread } from "@/lib/inbox";
+import { UserMenu } from "./UserMenu";
+import type { EmployeeFilter } from "@/lib/employee-directory";
+
+// When to nudge recipients who have not responded, and on which channel
+export interface ReminderPolicy {
+  enabled: boolean;
+  // The first reminder goes out this long before the deadline; ignored without a deadline
+  hoursBeforeDeadline: number;
+  // Later reminders follow the deadline at this spacing, e.g. 24 for daily
+  intervalHours: number;
+  maxReminders: number;
+  // Channel for the first, second, ... reminder; the last one repeats
+  escalation: NotificationChannel[];
+}
+
+// Emails a recipient's manager once they are this many days past the deadline
+export interface ManagerEscalationRule {
+  enabled: boolean;
+  daysOverdue: number;
+}
 
 export interface AcknowledgementSettings {
   required: boolean;
   responseOptions: string[];
   allowComments: boolean;
   deadline?: Date;
+  reminders?: ReminderPolicy;
+  // Only applies when there is a deadline
+  escalation?: ManagerEscalationRule;
+}
+
+// A recipient as they were when the notification was addressed
+export interface RecipientRef {
+  // Missing only for legacy recipients whose name matched no employee
+  employeeId?: string;
+  name: string;
+  email?: string;
 }
 
 export interface AcknowledgementResponse {
-  recipientName: string;
+  recipient: RecipientRef;
   selectedOption: string;
   comment?: string;
   respondedAt: Date;
 }
 
+export type NotificationChannel = "email" | "sms" | "portal";
+
+export interface AttachmentMetadata {
+  name: string;
+  size: number;
+  type: string;
+}
+
+export interface NotificationChannelMessages {
+  email?: { content: string; attachments: AttachmentMetadata[] };
+  portal?: { content: string; attachments: AttachmentMetadata[] };
+  sms?: { content: string };
+}
+
+// One reminder sent to one recipient
+export interface ReminderRecord {
+  recipient: RecipientRef;
+  // 1 for a recipient's first reminder
+  sequence: number;
+  channel: NotificationChannel;
+  at: Date;
+  status: DeliveryStatus;
+  reason?: string;
+  // Sent by the reminder policy, or by hand from History
+  trigger: "automatic" | "manual";
+  // Email only: same purpose as on DeliveryRecord
+  responseToken?: string;
+}
+
+// One escalation notice, covering every pending direct report of one manager
+export interface EscalationRecord {
+  // Missing when the recipients had no manager on file
+  manager?: RecipientRef;
+  // The direct reports listed in the notice
+  reports: RecipientRef[];
+  at: Date;
+  status: DeliveryStatus;
+  reason?: string;
+}
+
+export interface NotificationSchedule {
+  sendAt: Date;
+  // IANA zone the sender picked the time in, e.g. "America/New_York"
+  timezone: string;
+}
+
+// A saved segment as it was defined when the notification was composed
+export interface AudienceSegmentSnapshot {
+  id: string;
+  name: string;
+  filter: EmployeeFilter;
+}
+
+// A recipient group as it was named when the notification was composed
+export interface RecipientGroupSnapshot {
+  id: string;
+  name: string;
+}
+
+// Which employees a group contributed when it was last expanded, kept for auditing
+export interface GroupExpansion {
+  groupId: string;
+  groupName: string;
+  employeeIds: string[];
+  // Nested groups that were expanded along the way
+  viaGroupIds: string[];
+}
+
+// Who a notification targets; segments and groups are re-evaluated each time it is sent
+export interface NotificationAudience {
+  segments: AudienceSegmentSnapshot[];
+  groups?: RecipientGroupSnapshot[];
+  // Recipients picked one by one, always included
+  individuals: RecipientRef[];
+  // When `recipients` was last resolved from this audience
+  resolvedAt: Date;
+  groupExpansions?: GroupExpansion[];
+}
+
+// "skipped" and "deferred" are decided by the eligibility rules before anything is sent
+export type DeliveryStatus = "queued" | "sent" | "delivered" | "bounced" | "failed" | "skipped" | "deferred";
+
+export interface DeliveryAttempt {
+  at: Date;
+  status: DeliveryStatus;
+  reason?: string;
+}
+
+// One recipient on one channel
+export interface DeliveryRecord {
+  recipient: RecipientRef;
+  channel: NotificationChannel;
+  status: DeliveryStatus;
+  reason?: string;
+  providerMessageId?: string;
+  updatedAt: Date;
+  attempts?: DeliveryAttempt[];
+  // Set while an automatic retry is pending for a failed delivery
+  nextRetryAt?: Date;
+  // When a deferred delivery is checked again
+  deferredUntil?: Date;
+  // Portal only: set by the recipient from their inbox
+  readAt?: Date;
+  archivedAt?: Date;
+  // Email only: identifies the recipient on the response page linked from the message
+  responseToken?: string;
+}
+
+// "partial" means some recipient/channel deliveries failed and others went through.
+// "pending_approval", "changes_requested" and "rejected" are never dispatched until approved.
+export type NotificationStatus =
+  | "sent"
+  | "partial"
+  | "pending"
+  | "failed"
+  | "scheduled"
+  | "cancelled"
+  | "pending_approval"
+  | "changes_requested"
+  | "rejected";
+
+export type ApprovalDecision = "approved" | "rejected" | "changes_requested";
+
+// One sign-off required by an approval policy; steps are approved in order
+export interface ApprovalStep {
+  policyId: string;
+  name: string;
+  // Who is expected to sign off, e.g. "HR"
+  approvers: string;
+  // Why the policy applied, e.g. "120 recipients"
+  reason: string;
+  decision?: ApprovalDecision;
+}
+
+export interface ApprovalEvent {
+  at: Date;
+  action: ApprovalDecision | "submitted" | "resubmitted";
+  actor?: string;
+  stepName?: string;
+  comment?: string;
+}
+
+// Who composed a notification, as they were when they sent it
+export interface NotificationAuthor {
+  userId: string;
+  name: string;
+  department: string;
+}
+
+export interface NotificationApproval {
+  steps: ApprovalStep[];
+  // Every submission and decision, oldest first
+  trail: ApprovalEvent[];
+}
+
 export interface Notification {
   id: string;
   title: string;
+  // Plain-text summary used for search and list previews
   message: string;
-  channels: ("email" | "sms" | "portal")[];
-  recipients: string[];
+  channelMessages?: NotificationChannelMessages;
+  channels: NotificationChannel[];
+  recipients: RecipientRef[];
+  audience?: NotificationAudience;
   requiresAcknowledgement: boolean;
   acknowledgementSettings?: AcknowledgementSettings;
   acknowledgementResponses?: AcknowledgementResponse[];
-  status: "sent" | "pending" | "failed";
+  status: NotificationStatus;
+  // For scheduled notifications this is the planned send time
   sentAt: Date;
+  schedule?: NotificationSchedule;
+  deliveries?: DeliveryRecord[];
+  // Recipient keys (see recipientKey) of everyone who acknowledged
   acknowledgedBy?: string[];
+  approval?: NotificationApproval;
+  createdBy?: NotificationAuthor;
+  reminders?: ReminderRecord[];
+  escalations?: EscalationRecord[];
+  // Why a "failed" notification went out to nobody, e.g. its audience no longer matched anyone
+  failureReason?: string;
 }
 
 export const NotificationCenter = () => {
-  const handleSendNotification = (notification: Omit<Notification, "id" | "status" | "sentAt">) => {
-    // In production, this would save to a database
-    console.log("Notification sent:", notification);
-  };
+  const { data: allNotifications = [] } = useNotifications();
+  const { data: user } = useCurrentUser();
+  const sendNotification = useSendNotification();
+  const notifications = allNotifications.filter((n) => canViewNotification(user, n));
+  const awaitingApproval = (can(user, "approve") ? allNotifications : notifications).filter(
+    (n) => n.status === "pending_approval"
+  ).length;
+
+  const unreadInInbox = user ? getInboxItems(allNotifications, user.id).filter(isUnread).length : 0;
+
+  const handleSendNotification = (notification: Omit<Notification, "id" | "status" | "sentAt">) =>
+    sendNotification.mutateAsync(notification);
 
   return (
     <div className="min-h-screen bg-background">
@@ -56,16 +268,61 @@ export const NotificationCenter = () => {
                 </p>
               </div>
             </div>
-            <Link to="/history">
-              <Button variant="outline" className="gap-2">
-                <History className="w-4 h-4" />
-                View History
-              </Button>
-            </Link>
+            <div className="flex gap-2">
+              <Link to="/inbox">
+                <Button variant="ghost" className="gap-2">
+                  <Mailbox className="w-4 h-4" />
+                  My Inbox
+                  {unreadInInbox > 0 && <Badge variant="secondary">{unreadInInbox}</Badge>}
+                </Button>
+              </Link>
+              {can(user, "compose") && (
+                <Link to="/templates">
+                  <Button variant="ghost" className="gap-2">
+                    <LayoutTemplate className="w-4 h-4" />
+                    Templates
+                  </Button>
+                </Link>
+              )}
+              <Link to="/approvals">
+                <Button variant="ghost" className="gap-2">
+                  <ShieldCheck className="w-4 h-4" />
+                  Approvals
+                  {awaitingApproval > 0 && <Badge variant="secondary">{awaitingApproval}</Badge>}
+                </Button>
+              </Link>
+              {can(user, "viewAllHistory") && (
+                <Link to="/outbox">
+                  <Button variant="ghost" className="gap-2">
+                    <Inbox className="w-4 h-4" />
+                    Outbox
+                  </Button>
+                </Link>
+              )}
+              <Link to="/history">
+                <Button variant="outline" className="gap-2">
+                  <History className="w-4 h-4" />
+                  View History
+                  {notifications.length > 0 && (
+                    <Badge variant="secondary">{notifications.length}</Badge>
+                  )}
+                </Button>
+              </Link>
+              <UserMenu />
+            </div>
           </div>
         </div>
 
-        <ComposeNotification onSend={handleSendNotification} />
+        {can(user, "compose") ? (
+          <ComposeNotification onSend={handleSendNotification} />
+        ) : (
+          <Card className="border-dashed">
+            <CardContent className="p-8 text-center text-sm text-muted-foreground">
+              Your role does not include sending notifications. You can still review History
+              {can(user, "approve") && " and the approval queue"}.
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -8,30 +8,51 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { Mail, MessageSquare, Bell, CheckCircle2, XCircle, RefreshCw, Clock, MessageCircle, AlertTriangle } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Mail, MessageSquare, Bell, CheckCircle2, XCircle, RefreshCw, Clock, MessageCircle, AlertTriangle, Paperclip, RotateCcw, Layers, UsersRound, Download, Printer } from "lucide-react";
+import { Link } from "react-router-dom";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
-import type { AcknowledgementSettings, AcknowledgementResponse } from "./NotificationCenter";
+import { formatInTimeZone } from "@/lib/timezones";
+import { hasBeenSent, isFailedDelivery } from "@/lib/delivery-status";
+import { DeliveryMatrix } from "./DeliveryMatrix";
+import { ApprovalTrail } from "./ApprovalTrail";
+import { ReminderLog } from "./ReminderLog";
+import { SanitizedHtml } from "./SanitizedHtml";
+import { describeFilter } from "@/lib/segments";
+import { getUnacknowledgedRecipients, hasAcknowledged } from "@/lib/recipients";
+import { isLateResponse } from "@/lib/acknowledgements";
+import { getRemindableRecipients } from "@/lib/reminders";
+import { buildComplianceReport, downloadComplianceCsv } from "@/lib/compliance-report";
+import type { AcknowledgementResponse, AttachmentMetadata, Notification } from "./NotificationCenter";
 
-interface Notification {
-  id: string;
-  title: string;
-  message: string;
-  channels: ("email" | "sms" | "portal")[];
-  recipients: string[];
-  requiresAcknowledgement: boolean;
-  acknowledgementSettings?: AcknowledgementSettings;
-  acknowledgementResponses?: AcknowledgementResponse[];
-  status: "sent" | "pending" | "failed";
-  sentAt: Date;
-  acknowledgedBy?: string[];
-}
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const AttachmentList = ({ attachments }: { attachments: AttachmentMetadata[] }) =>
+  attachments.length > 0 ? (
+    <div className="flex flex-wrap gap-2 mt-3">
+      {attachments.map((attachment, idx) => (
+        <Badge key={idx} variant="secondary" className="gap-1 py-1">
+          <Paperclip className="w-3 h-3" />
+          {attachment.name}
+          <span className="text-muted-foreground">({formatFileSize(attachment.size)})</span>
+        </Badge>
+      ))}
+    </div>
+  ) : null;
 
 interface NotificationDetailModalProps {
   notification: Notification | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSendReminder: (notification: Notification) => void;
+  onRetryFailed: (notification: Notification) => void;
+  // Whether the user may retry and remind; everyone who can see the notification gets the rest
+  canManage: boolean;
 }
 
 export const NotificationDetailModal = ({
@@ -39,6 +60,8 @@ export const NotificationDetailModal = ({
   open,
   onOpenChange,
   onSendReminder,
+  onRetryFailed,
+  canManage,
 }: NotificationDetailModalProps) => {
   if (!notification) return null;
 
@@ -55,12 +78,25 @@ export const NotificationDetailModal = ({
     }
   };
 
-  const acknowledgedRecipients = notification.acknowledgedBy || [];
-  const unacknowledgedRecipients = notification.recipients.filter(
-    (r) => !acknowledgedRecipients.includes(r)
-  );
-  const needsReminder =
-    notification.requiresAcknowledgement && unacknowledgedRecipients.length > 0;
+  // Older notifications only stored the flattened message
+  const channelMessages = notification.channelMessages;
+  const messageChannels = notification.channels.filter((channel) => channelMessages?.[channel]);
+
+  const failedDeliveries = (notification.deliveries ?? []).filter((delivery) =>
+    isFailedDelivery(delivery.status)
+  ).length;
+
+  const acknowledgedRecipients = notification.recipients.filter((r) => hasAcknowledged(notification, r));
+  const unacknowledgedRecipients = getUnacknowledgedRecipients(notification);
+  const recipientNames = new Map(notification.recipients.map((r) => [r.employeeId, r.name]));
+  const describeExpansion = (employeeIds: string[]) => {
+    const names = employeeIds.slice(0, 5).map((id) => recipientNames.get(id) ?? id);
+    return employeeIds.length > 5 ? `${names.join(", ")} and ${employeeIds.length - 5} more` : names.join(", ");
+  };
+  const wasSent = hasBeenSent(notification.status);
+  // Recipients the notification never reached cannot be reminded
+  const remindableRecipients = getRemindableRecipients(notification);
+  const needsReminder = remindableRecipients.length > 0;
 
   const hasResponseOptions = notification.acknowledgementSettings?.responseOptions?.length;
   const responses = notification.acknowledgementResponses || [];
@@ -86,18 +122,59 @@ export const NotificationDetailModal = ({
           <DialogTitle className="text-xl">{notification.title}</DialogTitle>
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             <Clock className="w-4 h-4" />
-            Sent {format(notification.sentAt, "MMMM d, yyyy 'at' h:mm a")}
+            {notification.status === "scheduled" && notification.schedule
+              ? `Scheduled for ${formatInTimeZone(notification.schedule.sendAt, notification.schedule.timezone)}`
+              : !wasSent && notification.approval
+                ? `Submitted ${format(notification.approval.trail[0].at, "MMMM d, yyyy 'at' h:mm a")}, not sent`
+                : `Sent ${format(notification.sentAt, "MMMM d, yyyy 'at' h:mm a")}`}
           </div>
         </DialogHeader>
 
         <ScrollArea className="flex-1 pr-4">
           <div className="space-y-6">
+            {notification.failureReason && (
+              <div className="flex items-center gap-2 p-3 rounded-lg border border-destructive/20 bg-destructive/5 text-sm text-destructive">
+                <XCircle className="w-4 h-4 shrink-0" />
+                Not sent: {notification.failureReason}
+              </div>
+            )}
+
             {/* Message */}
             <div>
               <h3 className="text-sm font-medium text-muted-foreground mb-2">Message</h3>
-              <div className="p-4 rounded-lg bg-muted/50 border border-border">
-                <p className="whitespace-pre-wrap">{notification.message}</p>
-              </div>
+              {messageChannels.length > 0 ? (
+                <Tabs defaultValue={messageChannels[0]}>
+                  <TabsList>
+                    {messageChannels.map((channel) => (
+                      <TabsTrigger key={channel} value={channel} className="gap-1 capitalize">
+                        {getChannelIcon(channel)}
+                        {channel}
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+                  {messageChannels.map((channel) => {
+                    const channelMessage = channelMessages[channel];
+                    return (
+                      <TabsContent key={channel} value={channel}>
+                        <div className="p-4 rounded-lg bg-muted/50 border border-border">
+                          {channel === "sms" ? (
+                            <p className="whitespace-pre-wrap">{channelMessage.content}</p>
+                          ) : (
+                            <SanitizedHtml html={channelMessage.content} />
+                          )}
+                          {"attachments" in channelMessage && (
+                            <AttachmentList attachments={channelMessage.attachments} />
+                          )}
+                        </div>
+                      </TabsContent>
+                    );
+                  })}
+                </Tabs>
+              ) : (
+                <div className="p-4 rounded-lg bg-muted/50 border border-border">
+                  <p className="whitespace-pre-wrap">{notification.message}</p>
+                </div>
+              )}
             </div>
 
             {/* Channels */}
@@ -113,6 +190,35 @@ export const NotificationDetailModal = ({
               </div>
             </div>
 
+            {/* Approval */}
+            {notification.approval && (
+              <div>
+                <h3 className="text-sm font-medium text-muted-foreground mb-2">Approval</h3>
+                <ApprovalTrail approval={notification.approval} />
+              </div>
+            )}
+
+            {/* Delivery Breakdown */}
+            {notification.deliveries && notification.deliveries.length > 0 && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-medium text-muted-foreground">Delivery Status</h3>
+                  {canManage && failedDeliveries > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2 text-destructive hover:text-destructive"
+                      onClick={() => onRetryFailed(notification)}
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Resend Failed ({failedDeliveries})
+                    </Button>
+                  )}
+                </div>
+                <DeliveryMatrix channels={notification.channels} deliveries={notification.deliveries} />
+              </div>
+            )}
+
             <Separator />
 
             {/* Acknowledgement Settings Info */}
@@ -164,6 +270,44 @@ export const NotificationDetailModal = ({
                 )}
               </div>
 
+              {notification.audience && (
+                <div className="mb-3 p-3 rounded-lg border border-border bg-muted/30 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    {notification.audience.segments.map((segment) => (
+                      <Badge key={segment.id} variant="outline" className="gap-1 bg-background" title={describeFilter(segment.filter)}>
+                        <Layers className="w-3 h-3" />
+                        {segment.name}
+                      </Badge>
+                    ))}
+                    {notification.audience.groups?.map((group) => (
+                      <Badge key={group.id} variant="outline" className="gap-1 bg-background">
+                        <UsersRound className="w-3 h-3" />
+                        {group.name}
+                      </Badge>
+                    ))}
+                    {notification.audience.individuals.length > 0 && (
+                      <span className="text-xs text-muted-foreground">
+                        + {notification.audience.individuals.length} picked individually
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {wasSent ? "Segment members resolved" : "Segment members last resolved"}{" "}
+                    {format(notification.audience.resolvedAt, "MMM d, yyyy 'at' h:mm a")}
+                    {!wasSent && " and will be looked up again at send time"}
+                  </p>
+                  {notification.audience.groupExpansions?.map((expansion) => (
+                    <p key={expansion.groupId} className="text-xs text-muted-foreground">
+                      <span className="font-medium text-foreground">{expansion.groupName}</span> expanded to{" "}
+                      {expansion.employeeIds.length} employee(s)
+                      {expansion.viaGroupIds.length > 0 &&
+                        ` via ${expansion.viaGroupIds.length} nested group(s)`}
+                      {expansion.employeeIds.length > 0 && `: ${describeExpansion(expansion.employeeIds)}`}
+                    </p>
+                  ))}
+                </div>
+              )}
+
               {notification.requiresAcknowledgement ? (
                 hasResponseOptions && responses.length > 0 ? (
                   // Show responses grouped by option
@@ -184,9 +328,10 @@ export const NotificationDetailModal = ({
                                 className="p-2 rounded-md bg-success/5 border border-success/20"
                               >
                                 <div className="flex items-center justify-between">
-                                  <span className="text-sm font-medium">{response.recipientName}</span>
+                                  <span className="text-sm font-medium">{response.recipient.name}</span>
                                   <span className="text-xs text-muted-foreground">
                                     {format(new Date(response.respondedAt), "MMM d, h:mm a")}
+                                    {isLateResponse(notification, response) && " (late)"}
                                   </span>
                                 </div>
                                 {response.comment && (
@@ -220,7 +365,7 @@ export const NotificationDetailModal = ({
                               className="bg-warning/10 text-warning border-warning/20"
                             >
                               <Clock className="w-3 h-3 mr-1" />
-                              {recipient}
+                              {recipient.name}
                             </Badge>
                           ))}
                         </div>
@@ -247,7 +392,7 @@ export const NotificationDetailModal = ({
                               className="bg-success/10 text-success border-success/20"
                             >
                               <CheckCircle2 className="w-3 h-3 mr-1" />
-                              {recipient}
+                              {recipient.name}
                             </Badge>
                           ))
                         ) : (
@@ -273,7 +418,7 @@ export const NotificationDetailModal = ({
                               className="bg-warning/10 text-warning border-warning/20"
                             >
                               <Clock className="w-3 h-3 mr-1" />
-                              {recipient}
+                              {recipient.name}
                             </Badge>
                           ))
                         ) : (
@@ -287,15 +432,47 @@ export const NotificationDetailModal = ({
                 <div className="flex flex-wrap gap-2">
                   {notification.recipients.map((recipient, idx) => (
                     <Badge key={idx} variant="outline">
-                      {recipient}
+                      {recipient.name}
                     </Badge>
                   ))}
                 </div>
               )}
             </div>
 
+            {/* Reminders */}
+            {wasSent && notification.requiresAcknowledgement && (
+              <div>
+                <h3 className="text-sm font-medium text-muted-foreground mb-2">Reminders & Escalation</h3>
+                <ReminderLog notification={notification} />
+              </div>
+            )}
+
+            {/* Compliance Report */}
+            {wasSent && notification.requiresAcknowledgement && (
+              <div className="flex items-center justify-between gap-2">
+                <h3 className="text-sm font-medium text-muted-foreground">Compliance Report</h3>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-1"
+                    onClick={() => downloadComplianceCsv(buildComplianceReport(notification))}
+                  >
+                    <Download className="w-4 h-4" />
+                    Export CSV
+                  </Button>
+                  <Button variant="outline" size="sm" className="gap-1" asChild>
+                    <Link to={`/history/${notification.id}/report`} target="_blank">
+                      <Printer className="w-4 h-4" />
+                      Print Report
+                    </Link>
+                  </Button>
+                </div>
+              </div>
+            )}
+
             {/* Reminder Action */}
-            {needsReminder && (
+            {canManage && needsReminder && (
               <>
                 <Separator />
                 <div className={cn(
@@ -313,7 +490,7 @@ export const NotificationDetailModal = ({
                         </p>
                       </div>
                       <p className="text-sm text-muted-foreground">
-                        {unacknowledgedRecipients.length} recipient(s) haven't responded
+                        {remindableRecipients.length} recipient(s) haven't responded
                         {isOverdue && deadline && ` (was due ${format(deadline, "PP")})`}
                       </p>
                     </div>
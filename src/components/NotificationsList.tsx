@@ -124,7 +124,7 @@ export const NotificationsList = ({ notifications }: NotificationsListProps) =>
                     <div className="flex flex-wrap gap-2">
                       {notification.recipients.map((recipient, idx) => (
                         <Badge key={idx} variant="outline">
-                          {recipient}
+                          {recipient.name}
                         </Badge>
                       ))}
                     </div>
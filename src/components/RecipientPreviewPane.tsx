@@ -0,0 +1,227 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertTriangle, Bell, ChevronLeft, ChevronRight, Eye, Mail, MessageSquare, Paperclip } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { buildTemplateContext, renderTemplate } from "@/lib/template";
+import type { Employee } from "@/lib/employees";
+import { useTemplateContexts } from "@/hooks/use-employees";
+import { SMS_CHAR_LIMIT, type ChannelMessages } from "./ChannelMessageEditors";
+import type { NotificationChannel } from "./NotificationCenter";
+import { SanitizedHtml } from "./SanitizedHtml";
+
+interface RecipientPreviewPaneProps {
+  title: string;
+  channels: NotificationChannel[];
+  messages: ChannelMessages;
+  recipients: Employee[];
+}
+
+export const RecipientPreviewPane = ({
+  title,
+  channels,
+  messages,
+  recipients,
+}: RecipientPreviewPaneProps) => {
+  const [index, setIndex] = useState(0);
+  const { data: contexts } = useTemplateContexts(recipients);
+
+  const rendered = useMemo(
+    () =>
+      recipients.map((recipient) => {
+        // Until managers are looked up, render without them
+        const context = contexts?.[recipient.id] ?? buildTemplateContext(recipient);
+        return {
+          recipient,
+          subject: renderTemplate(title, context).output,
+          email: renderTemplate(messages.email.content, context, { html: true }),
+          portal: renderTemplate(messages.portal.content, context, { html: true }),
+          sms: renderTemplate(messages.sms.content, context),
+        };
+      }),
+    [recipients, contexts, title, messages]
+  );
+
+  const overLimit = channels.includes("sms")
+    ? rendered.filter((entry) => entry.sms.output.length > SMS_CHAR_LIMIT)
+    : [];
+
+  if (recipients.length === 0) {
+    return (
+      <Card className="border-dashed">
+        <CardContent className="p-6 text-center text-sm text-muted-foreground">
+          <Eye className="w-6 h-6 mx-auto mb-2" />
+          Select recipients to preview what each of them will receive
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const currentIndex = Math.min(index, recipients.length - 1);
+  const current = rendered[currentIndex];
+  const isCurrentOverLimit = overLimit.includes(current);
+
+  const MissingFields = ({ fields }: { fields: string[] }) =>
+    fields.length > 0 ? (
+      <p className="text-xs text-warning mt-2">
+        No value for {fields.map((field) => `{{${field}}}`).join(", ")}
+      </p>
+    ) : null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Eye className="w-4 h-4" />
+            Preview
+          </CardTitle>
+          <div className="flex items-center gap-1">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={() => setIndex(Math.max(currentIndex - 1, 0))}
+              disabled={currentIndex === 0}
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="text-xs text-muted-foreground">
+              {currentIndex + 1} of {recipients.length}
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={() => setIndex(Math.min(currentIndex + 1, recipients.length - 1))}
+              disabled={currentIndex === recipients.length - 1}
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="text-sm">
+          <span className="font-medium">{current.recipient.name}</span>
+          <span className="text-muted-foreground"> • {current.recipient.email}</span>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {overLimit.length > 0 && (
+          <div className="p-2 rounded-md border border-destructive/20 bg-destructive/5 text-xs space-y-1">
+            <p className="flex items-center gap-1 font-medium text-destructive">
+              <AlertTriangle className="w-3 h-3" />
+              SMS over {SMS_CHAR_LIMIT} characters for {overLimit.length} recipient(s)
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {overLimit.map((entry) => (
+                <button
+                  key={entry.recipient.id}
+                  type="button"
+                  onClick={() => setIndex(rendered.indexOf(entry))}
+                  className="underline hover:text-destructive"
+                >
+                  {entry.recipient.name} ({entry.sms.output.length})
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {channels.length > 0 && (
+          <Tabs defaultValue={channels[0]}>
+            <TabsList>
+              {channels.includes("email") && (
+                <TabsTrigger value="email" className="gap-1">
+                  <Mail className="w-3 h-3" />
+                  Email
+                </TabsTrigger>
+              )}
+              {channels.includes("portal") && (
+                <TabsTrigger value="portal" className="gap-1">
+                  <Bell className="w-3 h-3" />
+                  Portal
+                </TabsTrigger>
+              )}
+              {channels.includes("sms") && (
+                <TabsTrigger value="sms" className="gap-1">
+                  <MessageSquare className="w-3 h-3" />
+                  SMS
+                  {isCurrentOverLimit && <AlertTriangle className="w-3 h-3 text-destructive" />}
+                </TabsTrigger>
+              )}
+            </TabsList>
+
+            <TabsContent value="email">
+              <div className="rounded-lg border border-border overflow-hidden">
+                <div className="px-3 py-2 border-b border-border bg-muted/30 text-xs space-y-0.5">
+                  <div>
+                    <span className="text-muted-foreground">To: </span>
+                    {current.recipient.name} &lt;{current.recipient.email}&gt;
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Subject: </span>
+                    <span className="font-medium">{current.subject}</span>
+                  </div>
+                </div>
+                <SanitizedHtml html={current.email.output} className="p-4 max-h-80 overflow-y-auto" />
+                {messages.email.attachments.length > 0 && (
+                  <div className="flex flex-wrap gap-1 p-2 border-t border-border">
+                    {messages.email.attachments.map((file, idx) => (
+                      <Badge key={idx} variant="secondary" className="gap-1 text-xs">
+                        <Paperclip className="w-3 h-3" />
+                        {file.name}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <MissingFields fields={current.email.missingFields} />
+            </TabsContent>
+
+            <TabsContent value="portal">
+              <div className="p-4 rounded-lg border border-primary/20 bg-card shadow-sm">
+                <div className="flex items-start gap-3">
+                  <div className="p-2 rounded-full bg-primary/10">
+                    <Bell className="w-4 h-4 text-primary" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold">{current.subject}</p>
+                    <SanitizedHtml html={current.portal.output} className="mt-1 text-muted-foreground" />
+                  </div>
+                </div>
+              </div>
+              <MissingFields fields={current.portal.missingFields} />
+            </TabsContent>
+
+            <TabsContent value="sms">
+              <div className="flex justify-end">
+                <div
+                  className={cn(
+                    "max-w-[85%] px-3 py-2 rounded-2xl rounded-br-sm text-sm whitespace-pre-wrap",
+                    isCurrentOverLimit ? "bg-destructive/10 border border-destructive/30" : "bg-accent/10"
+                  )}
+                >
+                  {current.sms.output || <span className="text-muted-foreground">Empty message</span>}
+                </div>
+              </div>
+              <p
+                className={cn(
+                  "text-xs text-right mt-1",
+                  isCurrentOverLimit ? "text-destructive" : "text-muted-foreground"
+                )}
+              >
+                {current.sms.output.length}/{SMS_CHAR_LIMIT} characters
+                {current.recipient.phone ? ` • ${current.recipient.phone}` : " • No phone number on file"}
+              </p>
+              <MissingFields fields={current.sms.missingFields} />
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,4 +1,5 @@
-import { useState, useMemo } from "react";
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -17,71 +18,97 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Search, Users, X, Filter, Plus, ChevronDown } from "lucide-react";
+import { Search, Users, X, Filter, Plus, ChevronDown, ChevronLeft, ChevronRight, Loader2, Upload, Layers, BookmarkPlus, SlidersHorizontal, UsersRound } from "lucide-react";
+import type { Employee } from "@/lib/employees";
+import { queryAllEmployees, type EmployeeFilter } from "@/lib/employee-directory";
+import { useEmployeeFacets, useEmployeeQuery } from "@/hooks/use-employees";
+import { useCurrentUser } from "@/hooks/use-auth";
+import { can, getAllowedDepartments, scopeFilter } from "@/lib/auth";
+import { useSaveSegment } from "@/hooks/use-segments";
+import { useToast } from "@/hooks/use-toast";
+import { describeFilter, type AudienceSegment } from "@/lib/segments";
+import { SegmentPicker } from "./SegmentPicker";
+import { AudienceRuleDialog } from "./AudienceRuleDialog";
+import { GroupPicker } from "./GroupPicker";
+import type { RecipientGroup } from "@/lib/recipient-groups";
 
-export interface Employee {
-  id: string;
-  name: string;
-  email: string;
-  department: string;
-  role: string;
-  location: string;
-  status: "active" | "inactive" | "on-leave";
-}
+export type { Employee };
 
-// Mock employee data
-const mockEmployees: Employee[] = [
-  { id: "1", name: "Alice Johnson", email: "alice@company.com", department: "IT", role: "Developer", location: "New York", status: "active" },
-  { id: "2", name: "Bob Smith", email: "bob@company.com", department: "IT", role: "Manager", location: "New York", status: "active" },
-  { id: "3", name: "Carol Williams", email: "carol@company.com", department: "HR", role: "Recruiter", location: "Los Angeles", status: "active" },
-  { id: "4", name: "David Brown", email: "david@company.com", department: "HR", role: "Manager", location: "Chicago", status: "on-leave" },
-  { id: "5", name: "Eva Martinez", email: "eva@company.com", department: "Sales", role: "Representative", location: "Miami", status: "active" },
-  { id: "6", name: "Frank Garcia", email: "frank@company.com", department: "Sales", role: "Manager", location: "Houston", status: "active" },
-  { id: "7", name: "Grace Lee", email: "grace@company.com", department: "Operations", role: "Analyst", location: "Seattle", status: "active" },
-  { id: "8", name: "Henry Wilson", email: "henry@company.com", department: "Operations", role: "Manager", location: "Boston", status: "inactive" },
-  { id: "9", name: "Ivy Chen", email: "ivy@company.com", department: "IT", role: "Developer", location: "San Francisco", status: "active" },
-  { id: "10", name: "Jack Taylor", email: "jack@company.com", department: "IT", role: "DevOps", location: "Denver", status: "active" },
-  { id: "11", name: "Karen Davis", email: "karen@company.com", department: "HR", role: "Specialist", location: "Phoenix", status: "active" },
-  { id: "12", name: "Leo Anderson", email: "leo@company.com", department: "Sales", role: "Representative", location: "Atlanta", status: "on-leave" },
-  { id: "13", name: "Mia Thomas", email: "mia@company.com", department: "Operations", role: "Coordinator", location: "Dallas", status: "active" },
-  { id: "14", name: "Noah Jackson", email: "noah@company.com", department: "IT", role: "Architect", location: "Austin", status: "active" },
-  { id: "15", name: "Olivia White", email: "olivia@company.com", department: "HR", role: "Director", location: "New York", status: "active" },
-];
+const PAGE_SIZE = 50;
+// Selected recipients shown as chips before collapsing into a count
+const MAX_VISIBLE_RECIPIENTS = 40;
 
-const departments = ["All", "IT", "HR", "Sales", "Operations"];
-const roles = ["All", "Developer", "Manager", "Recruiter", "Representative", "Analyst", "DevOps", "Specialist", "Coordinator", "Architect", "Director"];
-const locations = ["All", "New York", "Los Angeles", "Chicago", "Miami", "Houston", "Seattle", "Boston", "San Francisco", "Denver", "Phoenix", "Atlanta", "Dallas", "Austin"];
-const statuses = ["All", "active", "inactive", "on-leave"];
+const toFilter = (value: string) => (value === "All" ? undefined : value);
 
 interface RecipientSelectorProps {
   selectedRecipients: Employee[];
   onRecipientsChange: (recipients: Employee[]) => void;
+  selectedSegments: AudienceSegment[];
+  onSegmentsChange: (segments: AudienceSegment[]) => void;
+  selectedGroups: RecipientGroup[];
+  onGroupsChange: (groups: RecipientGroup[]) => void;
 }
 
 export const RecipientSelector = ({
   selectedRecipients,
   onRecipientsChange,
+  selectedSegments,
+  onSegmentsChange,
+  selectedGroups,
+  onGroupsChange,
 }: RecipientSelectorProps) => {
+  const { toast } = useToast();
+  const saveSegment = useSaveSegment();
   const [isOpen, setIsOpen] = useState(false);
   const [search, setSearch] = useState("");
   const [departmentFilter, setDepartmentFilter] = useState("All");
   const [roleFilter, setRoleFilter] = useState("All");
   const [locationFilter, setLocationFilter] = useState("All");
   const [statusFilter, setStatusFilter] = useState("All");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [isAddingAll, setIsAddingAll] = useState(false);
+  const [segmentName, setSegmentName] = useState<string | null>(null);
+  const [isRuleDialogOpen, setIsRuleDialogOpen] = useState(false);
+  const { data: user } = useCurrentUser();
+  // Composers only see and add employees from the departments they may send to
+  const allowedDepartments = getAllowedDepartments(user);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search), 250);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  // Any filter change starts over from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearch, departmentFilter, roleFilter, locationFilter, statusFilter]);
 
-  const filteredEmployees = useMemo(() => {
-    return mockEmployees.filter((emp) => {
-      const matchesSearch =
-        emp.name.toLowerCase().includes(search.toLowerCase()) ||
-        emp.email.toLowerCase().includes(search.toLowerCase());
-      const matchesDepartment = departmentFilter === "All" || emp.department === departmentFilter;
-      const matchesRole = roleFilter === "All" || emp.role === roleFilter;
-      const matchesLocation = locationFilter === "All" || emp.location === locationFilter;
-      const matchesStatus = statusFilter === "All" || emp.status === statusFilter;
+  const filters: EmployeeFilter = {
+    search: debouncedSearch || undefined,
+    department: toFilter(departmentFilter),
+    role: toFilter(roleFilter),
+    location: toFilter(locationFilter),
+    status: toFilter(statusFilter) as Employee["status"],
+  };
+
+  const { data: facets } = useEmployeeFacets();
+  const { data: result, isLoading, isError } = useEmployeeQuery({
+    ...scopeFilter(filters, allowedDepartments),
+    page,
+    pageSize: PAGE_SIZE,
+  });
+  const filteredEmployees = result?.employees ?? [];
+  const totalMatches = result?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(totalMatches / PAGE_SIZE));
 
-      return matchesSearch && matchesDepartment && matchesRole && matchesLocation && matchesStatus;
-    });
-  }, [search, departmentFilter, roleFilter, locationFilter, statusFilter]);
+  const departments = [
+    "All",
+    ...(facets?.departments ?? []).filter((dept) => !allowedDepartments || allowedDepartments.includes(dept)),
+  ];
+  const roles = ["All", ...(facets?.roles ?? [])];
+  const locations = ["All", ...(facets?.locations ?? [])];
+  const statuses = ["All", ...(facets?.statuses ?? [])];
 
   const isSelected = (employee: Employee) =>
     selectedRecipients.some((r) => r.id === employee.id);
@@ -94,20 +121,63 @@ export const RecipientSelector = ({
     }
   };
 
-  const addAllFiltered = () => {
-    const newRecipients = [...selectedRecipients];
-    filteredEmployees.forEach((emp) => {
-      if (!newRecipients.some((r) => r.id === emp.id)) {
-        newRecipients.push(emp);
-      }
-    });
-    onRecipientsChange(newRecipients);
+  const addRecipients = (employees: Employee[]) => {
+    const selectedIds = new Set(selectedRecipients.map((r) => r.id));
+    onRecipientsChange([...selectedRecipients, ...employees.filter((emp) => !selectedIds.has(emp.id))]);
+  };
+
+  // Adds every match, not just the page on screen
+  const addAllFiltered = async () => {
+    setIsAddingAll(true);
+    try {
+      addRecipients(await queryAllEmployees(scopeFilter(filters, allowedDepartments)));
+    } catch (error) {
+      toast({
+        title: "Could Not Add Employees",
+        description: error instanceof Error ? error.message : "The employee directory could not be loaded.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAddingAll(false);
+    }
   };
 
   const removeRecipient = (employeeId: string) => {
     onRecipientsChange(selectedRecipients.filter((r) => r.id !== employeeId));
   };
 
+  const removeSegment = (segmentId: string) => {
+    onSegmentsChange(selectedSegments.filter((s) => s.id !== segmentId));
+  };
+
+  // Saves the current filters rather than today's matches, so the segment stays current, within the
+  // composer's departments
+  const handleSaveSegment = () => {
+    const name = segmentName?.trim();
+    if (!name) return;
+    const filter = scopeFilter({ ...filters, search: search.trim() || undefined }, allowedDepartments);
+    saveSegment.mutate(
+      { segment: { name, filter } },
+      {
+        onSuccess: (segment) => {
+          onSegmentsChange([...selectedSegments, segment]);
+          setSegmentName(null);
+          toast({
+            title: "Segment Saved",
+            description: `"${segment.name}" (${describeFilter(segment.filter)}) was added to the recipients.`,
+          });
+        },
+        onError: () => {
+          toast({
+            title: "Segment Not Saved",
+            description: "The segment could not be saved. Please try again.",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
   const clearFilters = () => {
     setSearch("");
     setDepartmentFilter("All");
@@ -125,12 +195,69 @@ export const RecipientSelector = ({
 
   return (
     <div className="space-y-3">
-      <Label>Recipients *</Label>
+      <div className="flex items-center justify-between">
+        <Label>Recipients *</Label>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={() => setIsRuleDialogOpen(true)}
+            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-primary"
+          >
+            <SlidersHorizontal className="w-3 h-3" />
+            Advanced rules
+          </button>
+          {can(user, "administer") && (
+            <Link to="/employees/import" className="flex items-center gap-1 text-xs text-muted-foreground hover:text-primary">
+              <Upload className="w-3 h-3" />
+              Import roster
+            </Link>
+          )}
+        </div>
+      </div>
+
+      <AudienceRuleDialog
+        open={isRuleDialogOpen}
+        onOpenChange={setIsRuleDialogOpen}
+        onAddMatches={addRecipients}
+        onSegmentSaved={(segment) => onSegmentsChange([...selectedSegments, segment])}
+        departments={allowedDepartments}
+      />
 
       {/* Selected Recipients Display */}
-      {selectedRecipients.length > 0 && (
-        <div className="flex flex-wrap gap-2 p-3 rounded-lg border border-border bg-muted/30">
-          {selectedRecipients.map((recipient) => (
+      {(selectedRecipients.length > 0 || selectedSegments.length > 0 || selectedGroups.length > 0) && (
+        <div className="flex flex-wrap items-center gap-2 p-3 rounded-lg border border-border bg-muted/30">
+          {selectedGroups.map((group) => (
+            <Badge key={group.id} variant="outline" className="flex items-center gap-1 py-1 bg-background">
+              <UsersRound className="w-3 h-3" />
+              {group.name}
+              <button
+                type="button"
+                onClick={() => onGroupsChange(selectedGroups.filter((g) => g.id !== group.id))}
+                className="ml-1 hover:bg-muted rounded-full p-0.5"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+          {selectedSegments.map((segment) => (
+            <Badge
+              key={segment.id}
+              variant="outline"
+              className="flex items-center gap-1 py-1 bg-background"
+              title={describeFilter(segment.filter)}
+            >
+              <Layers className="w-3 h-3" />
+              {segment.name}
+              <button
+                type="button"
+                onClick={() => removeSegment(segment.id)}
+                className="ml-1 hover:bg-muted rounded-full p-0.5"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+          {selectedRecipients.slice(0, MAX_VISIBLE_RECIPIENTS).map((recipient) => (
             <Badge
               key={recipient.id}
               variant="secondary"
@@ -146,169 +273,274 @@ export const RecipientSelector = ({
               </button>
             </Badge>
           ))}
-        </div>
-      )}
-
-      {/* Recipient Selector Dropdown */}
-      <Popover open={isOpen} onOpenChange={setIsOpen}>
-        <PopoverTrigger asChild>
+          {selectedRecipients.length > MAX_VISIBLE_RECIPIENTS && (
+            <span className="text-sm text-muted-foreground">
+              and {selectedRecipients.length - MAX_VISIBLE_RECIPIENTS} more
+            </span>
+          )}
           <Button
             type="button"
-            variant="outline"
-            className="w-full justify-between"
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              onRecipientsChange([]);
+              onSegmentsChange([]);
+              onGroupsChange([]);
+            }}
+            className="h-7 text-xs ml-auto"
           >
-            <span className="flex items-center gap-2">
-              <Users className="w-4 h-4" />
-              {selectedRecipients.length > 0
-                ? `${selectedRecipients.length} recipient(s) selected`
-                : "Select recipients..."}
-            </span>
-            <ChevronDown className="w-4 h-4 opacity-50" />
+            Clear all
           </Button>
-        </PopoverTrigger>
-        <PopoverContent className="w-[400px] p-0 bg-popover" align="start">
-          <div className="p-3 border-b border-border space-y-3">
-            {/* Search */}
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-              <Input
-                placeholder="Search by name or email..."
-                value={search}
-                onChange={(e) => setSearch(e.target.value)}
-                className="pl-9"
-              />
-            </div>
+        </div>
+      )}
 
-            {/* Filters */}
-            <div className="grid grid-cols-2 gap-2">
-              <Select value={departmentFilter} onValueChange={setDepartmentFilter}>
-                <SelectTrigger className="h-9">
-                  <SelectValue placeholder="Department" />
-                </SelectTrigger>
-                <SelectContent className="bg-popover">
-                  {departments.map((dept) => (
-                    <SelectItem key={dept} value={dept}>
-                      {dept === "All" ? "All Departments" : dept}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+      {/* Recipient Selector Dropdown */}
+      <div className="flex gap-2">
+        <Popover open={isOpen} onOpenChange={setIsOpen}>
+          <PopoverTrigger asChild>
+            <Button
+              type="button"
+              variant="outline"
+              className="flex-1 justify-between"
+            >
+              <span className="flex items-center gap-2">
+                <Users className="w-4 h-4" />
+                {selectedRecipients.length > 0
+                  ? `${selectedRecipients.length} recipient(s) selected`
+                  : "Select recipients..."}
+              </span>
+              <ChevronDown className="w-4 h-4 opacity-50" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-[400px] p-0 bg-popover" align="start">
+            <div className="p-3 border-b border-border space-y-3">
+              {/* Search */}
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search by name, email or role..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
 
-              <Select value={roleFilter} onValueChange={setRoleFilter}>
-                <SelectTrigger className="h-9">
-                  <SelectValue placeholder="Role" />
-                </SelectTrigger>
-                <SelectContent className="bg-popover">
-                  {roles.map((role) => (
-                    <SelectItem key={role} value={role}>
-                      {role === "All" ? "All Roles" : role}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              {/* Filters */}
+              <div className="grid grid-cols-2 gap-2">
+                <Select value={departmentFilter} onValueChange={setDepartmentFilter}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue placeholder="Department" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover">
+                    {departments.map((dept) => (
+                      <SelectItem key={dept} value={dept}>
+                        {dept === "All" ? "All Departments" : dept}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
 
-              <Select value={locationFilter} onValueChange={setLocationFilter}>
-                <SelectTrigger className="h-9">
-                  <SelectValue placeholder="Location" />
-                </SelectTrigger>
-                <SelectContent className="bg-popover">
-                  {locations.map((loc) => (
-                    <SelectItem key={loc} value={loc}>
-                      {loc === "All" ? "All Locations" : loc}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+                <Select value={roleFilter} onValueChange={setRoleFilter}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue placeholder="Role" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover">
+                    {roles.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {role === "All" ? "All Roles" : role}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
 
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
-                <SelectTrigger className="h-9">
-                  <SelectValue placeholder="Status" />
-                </SelectTrigger>
-                <SelectContent className="bg-popover">
-                  {statuses.map((status) => (
-                    <SelectItem key={status} value={status}>
-                      {status === "All" ? "All Statuses" : status.charAt(0).toUpperCase() + status.slice(1).replace("-", " ")}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
+                <Select value={locationFilter} onValueChange={setLocationFilter}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue placeholder="Location" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover">
+                    {locations.map((loc) => (
+                      <SelectItem key={loc} value={loc}>
+                        {loc === "All" ? "All Locations" : loc}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
 
-            {/* Filter Actions */}
-            <div className="flex items-center justify-between">
-              <span className="text-sm text-muted-foreground">
-                {filteredEmployees.length} employee(s) found
-              </span>
-              <div className="flex gap-2">
-                {hasActiveFilters && (
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue placeholder="Status" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover">
+                    {statuses.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {status === "All" ? "All Statuses" : status.charAt(0).toUpperCase() + status.slice(1).replace("-", " ")}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Filter Actions */}
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">
+                  {totalMatches} employee(s) found
+                </span>
+                <div className="flex gap-2">
+                  {hasActiveFilters && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSegmentName(describeFilter({ ...filters, search: search.trim() || undefined }))}
+                      className="h-7 text-xs"
+                      title="Save these filters as a segment that is re-evaluated at send time"
+                    >
+                      <BookmarkPlus className="w-3 h-3 mr-1" />
+                      Save Segment
+                    </Button>
+                  )}
+                  {hasActiveFilters && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={clearFilters}
+                      className="h-7 text-xs"
+                    >
+                      <Filter className="w-3 h-3 mr-1" />
+                      Clear
+                    </Button>
+                  )}
                   <Button
                     type="button"
-                    variant="ghost"
+                    variant="secondary"
                     size="sm"
-                    onClick={clearFilters}
+                    onClick={addAllFiltered}
                     className="h-7 text-xs"
+                    disabled={totalMatches === 0 || isAddingAll}
                   >
-                    <Filter className="w-3 h-3 mr-1" />
-                    Clear
+                    {isAddingAll ? (
+                      <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                    ) : (
+                      <Plus className="w-3 h-3 mr-1" />
+                    )}
+                    Add All ({totalMatches})
                   </Button>
-                )}
-                <Button
-                  type="button"
-                  variant="secondary"
-                  size="sm"
-                  onClick={addAllFiltered}
-                  className="h-7 text-xs"
-                  disabled={filteredEmployees.length === 0}
-                >
-                  <Plus className="w-3 h-3 mr-1" />
-                  Add All ({filteredEmployees.length})
-                </Button>
+                </div>
               </div>
-            </div>
-          </div>
 
-          {/* Employee List */}
-          <ScrollArea className="h-[250px]">
-            {filteredEmployees.length === 0 ? (
-              <div className="p-4 text-center text-muted-foreground text-sm">
-                No employees match your filters
-              </div>
-            ) : (
-              <div className="p-2">
-                {filteredEmployees.map((employee) => (
-                  <div
-                    key={employee.id}
-                    className="flex items-center gap-3 p-2 rounded-md hover:bg-muted/50 cursor-pointer"
-                    onClick={() => toggleEmployee(employee)}
+              {segmentName !== null && (
+                <div className="flex gap-2">
+                  <Input
+                    autoFocus
+                    placeholder="Segment name"
+                    value={segmentName}
+                    onChange={(e) => setSegmentName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        handleSaveSegment();
+                      }
+                    }}
+                    className="h-8"
+                  />
+                  <Button
+                    type="button"
+                    size="sm"
+                    className="h-8"
+                    onClick={handleSaveSegment}
+                    disabled={!segmentName.trim() || saveSegment.isPending}
                   >
-                    <Checkbox checked={isSelected(employee)} />
-                    <div className="flex-1 min-w-0">
-                      <div className="font-medium text-sm truncate">
-                        {employee.name}
-                      </div>
-                      <div className="text-xs text-muted-foreground truncate">
-                        {employee.role} • {employee.department} • {employee.location}
+                    Save
+                  </Button>
+                  <Button type="button" variant="ghost" size="sm" className="h-8" onClick={() => setSegmentName(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            {/* Employee List */}
+            <ScrollArea className="h-[250px]">
+              {isLoading ? (
+                <div className="p-4 text-center text-muted-foreground text-sm">
+                  Loading employees...
+                </div>
+              ) : isError ? (
+                <div className="p-4 text-center text-destructive text-sm">
+                  Could not load the employee directory
+                </div>
+              ) : filteredEmployees.length === 0 ? (
+                <div className="p-4 text-center text-muted-foreground text-sm">
+                  No employees match your filters
+                </div>
+              ) : (
+                <div className="p-2">
+                  {filteredEmployees.map((employee) => (
+                    <div
+                      key={employee.id}
+                      className="flex items-center gap-3 p-2 rounded-md hover:bg-muted/50 cursor-pointer"
+                      onClick={() => toggleEmployee(employee)}
+                    >
+                      <Checkbox checked={isSelected(employee)} />
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium text-sm truncate">
+                          {employee.name}
+                        </div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {employee.role} • {employee.department} • {employee.location}
+                        </div>
                       </div>
+                      <Badge
+                        variant={
+                          employee.status === "active"
+                            ? "default"
+                            : employee.status === "on-leave"
+                            ? "secondary"
+                            : "outline"
+                        }
+                        className="text-xs shrink-0"
+                      >
+                        {employee.status}
+                      </Badge>
                     </div>
-                    <Badge
-                      variant={
-                        employee.status === "active"
-                          ? "default"
-                          : employee.status === "on-leave"
-                          ? "secondary"
-                          : "outline"
-                      }
-                      className="text-xs shrink-0"
-                    >
-                      {employee.status}
-                    </Badge>
-                  </div>
-                ))}
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+
+            {pageCount > 1 && (
+              <div className="flex items-center justify-between p-2 border-t border-border">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => setPage((prev) => prev - 1)}
+                  disabled={page === 1}
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <span className="text-xs text-muted-foreground">
+                  Page {page} of {pageCount}
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => setPage((prev) => prev + 1)}
+                  disabled={page >= pageCount}
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
               </div>
             )}
-          </ScrollArea>
-        </PopoverContent>
-      </Popover>
+          </PopoverContent>
+        </Popover>
+        <GroupPicker selectedGroups={selectedGroups} onGroupsChange={onGroupsChange} />
+        <SegmentPicker selectedSegments={selectedSegments} onSegmentsChange={onSegmentsChange} />
+      </div>
     </div>
   );
 };
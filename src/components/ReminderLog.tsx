@@ -0,0 +1,113 @@
+import { Badge } from "@/components/ui/badge";
+import { Bell, Mail, MessageSquare, UserRoundCog } from "lucide-react";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import type { Notification, NotificationChannel, RecipientRef } from "./NotificationCenter";
+import { isFailedDelivery } from "@/lib/delivery-status";
+import { recipientKey } from "@/lib/recipients";
+import {
+  describeReminderPolicy,
+  getNextReminderAt,
+  getRecipientReminders,
+  getRemindableRecipients,
+} from "@/lib/reminders";
+import { getEscalationAt } from "@/lib/escalations";
+
+const CHANNEL_ICONS: Record<NotificationChannel, typeof Bell> = {
+  email: Mail,
+  sms: MessageSquare,
+  portal: Bell,
+};
+
+/**
+ * Every reminder sent to each recipient and any escalation to their manager,
+ * and when the next automatic reminder is due for those who still have not
+ * responded.
+ */
+export const ReminderLog = ({ notification }: { notification: Notification }) => {
+  const policy = notification.acknowledgementSettings?.reminders;
+  const escalationAt = getEscalationAt(notification);
+  // The latest attempt; failed notices are tried again
+  const escalationFor = (recipient: RecipientRef) =>
+    (notification.escalations ?? [])
+      .filter((escalation) => escalation.reports.some((report) => recipientKey(report) === recipientKey(recipient)))
+      .pop();
+  const reminded = new Set((notification.reminders ?? []).map((reminder) => recipientKey(reminder.recipient)));
+  const remindable = getRemindableRecipients(notification);
+  const remindableKeys = new Set(remindable.map(recipientKey));
+  const rows: RecipientRef[] = notification.recipients.filter(
+    (recipient) => reminded.has(recipientKey(recipient)) || remindableKeys.has(recipientKey(recipient))
+  );
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        {policy
+          ? `Automatic: ${describeReminderPolicy(policy, !!notification.acknowledgementSettings.deadline)}`
+          : "No automatic reminders for this notification"}
+        {escalationAt && ` · Managers are emailed from ${format(escalationAt, "MMM d, h:mm a")}`}
+      </p>
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nobody needs a reminder.</p>
+      ) : (
+        <div className="space-y-2">
+          {rows.map((recipient) => {
+            const reminders = getRecipientReminders(notification, recipient);
+            const nextAt = getNextReminderAt(notification, recipient);
+            const escalation = escalationFor(recipient);
+            return (
+              <div key={recipientKey(recipient)} className="p-2 rounded-md border border-border text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{recipient.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {!remindableKeys.has(recipientKey(recipient))
+                      ? "Responded"
+                      : nextAt
+                        ? `Next ${format(nextAt, "MMM d, h:mm a")}`
+                        : "No more automatic reminders"}
+                  </span>
+                </div>
+                {(reminders.length > 0 || escalation) && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {reminders.map((reminder) => {
+                      const Icon = CHANNEL_ICONS[reminder.channel];
+                      return (
+                        <Badge
+                          key={reminder.sequence}
+                          variant="outline"
+                          className={cn(
+                            "gap-1 font-normal",
+                            (isFailedDelivery(reminder.status) || reminder.status === "skipped") && "text-destructive"
+                          )}
+                          title={reminder.reason}
+                        >
+                          <Icon className="w-3 h-3" />
+                          #{reminder.sequence} {format(reminder.at, "MMM d, h:mm a")} · {reminder.status}
+                          {reminder.trigger === "manual" && " (manual)"}
+                        </Badge>
+                      );
+                    })}
+                    {escalation && (
+                      <Badge
+                        variant="outline"
+                        className={cn(
+                          "gap-1 font-normal",
+                          (isFailedDelivery(escalation.status) || escalation.status === "skipped") && "text-destructive"
+                        )}
+                        title={escalation.reason}
+                      >
+                        <UserRoundCog className="w-3 h-3" />
+                        {escalation.manager ? `Manager ${escalation.manager.name}` : "Manager"}{" "}
+                        {format(escalation.at, "MMM d, h:mm a")} · {escalation.status}
+                      </Badge>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import { Bell, Mail, MessageSquare } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { NotificationChannel, ReminderPolicy } from "./NotificationCenter";
+import { describeReminderPolicy } from "@/lib/reminders";
+
+// Escalation always runs from the least to the most intrusive channel
+const ESCALATION_ORDER: { channel: NotificationChannel; label: string; icon: typeof Bell }[] = [
+  { channel: "portal", label: "Portal", icon: Bell },
+  { channel: "email", label: "Email", icon: Mail },
+  { channel: "sms", label: "SMS", icon: MessageSquare },
+];
+
+interface ReminderPolicyFieldsProps {
+  policy: ReminderPolicy;
+  onChange: (policy: ReminderPolicy) => void;
+  hasDeadline: boolean;
+}
+
+export const ReminderPolicyFields = ({ policy, onChange, hasDeadline }: ReminderPolicyFieldsProps) => {
+  const update = (changes: Partial<ReminderPolicy>) => onChange({ ...policy, ...changes });
+
+  const toggleChannel = (channel: NotificationChannel) => {
+    const next = policy.escalation.includes(channel)
+      ? policy.escalation.filter((c) => c !== channel)
+      : [...policy.escalation, channel];
+    // Keep at least one channel so there is always somewhere to send
+    if (next.length === 0) return;
+    update({
+      escalation: ESCALATION_ORDER.map((option) => option.channel).filter((option) => next.includes(option)),
+    });
+  };
+
+  const toWholeHours = (value: string, min: number) => Math.max(min, Math.round(Number(value) || 0));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="space-y-0.5">
+          <div className="text-sm font-medium">Automatic Reminders</div>
+          <p className="text-xs text-muted-foreground">{describeReminderPolicy(policy, hasDeadline)}</p>
+        </div>
+        <Switch checked={policy.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+      </div>
+
+      {policy.enabled && (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="reminder-before" className="text-xs">
+                Hours before deadline
+              </Label>
+              <Input
+                id="reminder-before"
+                type="number"
+                min={0}
+                value={policy.hoursBeforeDeadline}
+                onChange={(e) => update({ hoursBeforeDeadline: toWholeHours(e.target.value, 0) })}
+                disabled={!hasDeadline}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="reminder-interval" className="text-xs">
+                Repeat every (hours)
+              </Label>
+              <Input
+                id="reminder-interval"
+                type="number"
+                min={1}
+                value={policy.intervalHours}
+                onChange={(e) => update({ intervalHours: toWholeHours(e.target.value, 1) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="reminder-max" className="text-xs">
+                Max reminders
+              </Label>
+              <Input
+                id="reminder-max"
+                type="number"
+                min={1}
+                value={policy.maxReminders}
+                onChange={(e) => update({ maxReminders: toWholeHours(e.target.value, 1) })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <div className="text-xs font-medium">Escalate through</div>
+            <div className="flex gap-2">
+              {ESCALATION_ORDER.map(({ channel, label, icon: Icon }) => (
+                <Button
+                  key={channel}
+                  type="button"
+                  size="sm"
+                  variant={policy.escalation.includes(channel) ? "default" : "outline"}
+                  className="gap-1"
+                  onClick={() => toggleChannel(channel)}
+                >
+                  <Icon className="w-3 h-3" />
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
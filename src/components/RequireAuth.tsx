@@ -0,0 +1,42 @@
+import { Link, Navigate, useLocation } from "react-router-dom";
+import { ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useCurrentUser } from "@/hooks/use-auth";
+import { can, type Permission } from "@/lib/auth";
+
+interface RequireAuthProps {
+  // Signing in is enough when unset
+  permission?: Permission;
+  children: React.ReactNode;
+}
+
+export const RequireAuth = ({ permission, children }: RequireAuthProps) => {
+  const location = useLocation();
+  const { data: user, isLoading } = useCurrentUser();
+
+  if (isLoading) return null;
+
+  if (!user) {
+    const next = encodeURIComponent(location.pathname + location.search);
+    return <Navigate to={`/login?next=${next}`} replace />;
+  }
+
+  if (permission && !can(user, permission)) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-muted">
+        <div className="text-center space-y-4">
+          <ShieldAlert className="w-10 h-10 mx-auto text-muted-foreground" />
+          <div>
+            <h1 className="text-2xl font-bold">Not Available</h1>
+            <p className="text-muted-foreground">Your role does not give you access to this page.</p>
+          </div>
+          <Link to="/">
+            <Button variant="outline">Return to Home</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CalendarIcon } from "lucide-react";
+import { format, startOfDay } from "date-fns";
+import { cn } from "@/lib/utils";
+import { utcToZonedTime, zonedTimeToUtc } from "@/lib/timezones";
+import { TimezoneSelect } from "./TimezoneSelect";
+import type { Notification, NotificationSchedule } from "./NotificationCenter";
+
+interface RescheduleDialogProps {
+  notification: Notification | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onReschedule: (notification: Notification, schedule: NotificationSchedule) => void;
+}
+
+export const RescheduleDialog = ({
+  notification,
+  open,
+  onOpenChange,
+  onReschedule,
+}: RescheduleDialogProps) => {
+  const [date, setDate] = useState<Date | undefined>(undefined);
+  const [time, setTime] = useState("09:00");
+  const [timezone, setTimezone] = useState("UTC");
+
+  // Start from the current schedule, shown in the zone it was chosen in
+  useEffect(() => {
+    if (open && notification?.schedule) {
+      const zoned = utcToZonedTime(notification.schedule.sendAt, notification.schedule.timezone);
+      setDate(zoned.day);
+      setTime(zoned.time);
+      setTimezone(notification.schedule.timezone);
+    }
+  }, [open, notification]);
+
+  if (!notification) return null;
+
+  const sendAt = date ? zonedTimeToUtc(date, time, timezone) : undefined;
+  const isInPast = sendAt ? sendAt <= new Date() : false;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Reschedule Notification</DialogTitle>
+          <DialogDescription>
+            Pick a new delivery time for "{notification.title}".
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-3">
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className={cn(
+                    "w-[200px] justify-start text-left font-normal",
+                    !date && "text-muted-foreground"
+                  )}
+                >
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {date ? format(date, "PPP") : "Select date"}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0 bg-popover" align="start">
+                <Calendar
+                  mode="single"
+                  selected={date}
+                  onSelect={setDate}
+                  disabled={(day) => day < startOfDay(new Date())}
+                  initialFocus
+                  className="p-3 pointer-events-auto"
+                />
+              </PopoverContent>
+            </Popover>
+
+            <div className="flex items-center gap-2">
+              <Label htmlFor="reschedule-time" className="text-sm text-muted-foreground">at</Label>
+              <Input
+                id="reschedule-time"
+                type="time"
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+                className="w-[130px]"
+              />
+            </div>
+          </div>
+
+          <TimezoneSelect value={timezone} onValueChange={setTimezone} className="w-full" />
+
+          {isInPast && (
+            <p className="text-sm text-destructive">The new delivery time must be in the future.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={!sendAt || isInPast}
+            onClick={() => onReschedule(notification, { sendAt, timezone })}
+          >
+            Reschedule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Settings2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getNextRetryAt, loadRetryPolicy, saveRetryPolicy, type RetryPolicy } from "@/lib/retry-policy";
+
+export const RetryPolicyPopover = () => {
+  const { toast } = useToast();
+  const [policy, setPolicy] = useState<RetryPolicy>(loadRetryPolicy);
+
+  const updateNumber = (key: "maxAttempts" | "initialDelayMinutes" | "backoffMultiplier", value: string) => {
+    const parsed = Number(value);
+    if (!Number.isNaN(parsed)) {
+      setPolicy((prev) => ({ ...prev, [key]: parsed }));
+    }
+  };
+
+  const isValid =
+    policy.maxAttempts >= 1 && policy.initialDelayMinutes > 0 && policy.backoffMultiplier >= 1;
+
+  // Preview the wait before each retry, e.g. "5, 10 min"
+  const delays: number[] = [];
+  for (let attempt = 1; isValid && attempt < policy.maxAttempts; attempt++) {
+    const next = getNextRetryAt({ ...policy, autoRetry: true }, attempt, new Date(0));
+    delays.push(Math.round(next.getTime() / 60000));
+  }
+
+  const handleSave = () => {
+    saveRetryPolicy(policy);
+    toast({ title: "Retry Policy Saved", description: "New failures will follow the updated policy." });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Settings2 className="w-4 h-4" />
+          Retry Policy
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 bg-popover" align="end">
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <div className="text-sm font-medium">Automatic Retries</div>
+              <p className="text-xs text-muted-foreground">Retry failed deliveries with backoff</p>
+            </div>
+            <Switch
+              checked={policy.autoRetry}
+              onCheckedChange={(autoRetry) => setPolicy((prev) => ({ ...prev, autoRetry }))}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="max-attempts" className="text-xs">Max attempts</Label>
+              <Input
+                id="max-attempts"
+                type="number"
+                min={1}
+                value={policy.maxAttempts}
+                onChange={(e) => updateNumber("maxAttempts", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="initial-delay" className="text-xs">First delay (min)</Label>
+              <Input
+                id="initial-delay"
+                type="number"
+                min={1}
+                value={policy.initialDelayMinutes}
+                onChange={(e) => updateNumber("initialDelayMinutes", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="multiplier" className="text-xs">Multiplier</Label>
+              <Input
+                id="multiplier"
+                type="number"
+                min={1}
+                step={0.5}
+                value={policy.backoffMultiplier}
+                onChange={(e) => updateNumber("backoffMultiplier", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {!isValid
+              ? "Attempts and multiplier must be at least 1, and the delay above 0."
+              : delays.length > 0
+              ? `Waits ${delays.join(", ")} min before each retry`
+              : "Failed deliveries are not retried automatically."}
+          </p>
+
+          <Button size="sm" className="w-full" onClick={handleSave} disabled={!isValid}>
+            Save Policy
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
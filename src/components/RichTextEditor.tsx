@@ -0,0 +1,294 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Bold,
+  Heading2,
+  Heading3,
+  Italic,
+  Link,
+  List,
+  ListOrdered,
+  Pilcrow,
+  RemoveFormatting,
+  Underline,
+  Unlink,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { isSafeUrl, sanitizeHtml } from "@/lib/sanitize-html";
+
+interface RichTextEditorProps {
+  value: string;
+  onChange: (html: string) => void;
+  placeholder?: string;
+  className?: string;
+  // Extra toolbar controls; `insertText` types at the caret
+  toolbarExtras?: (insertText: (text: string) => void) => React.ReactNode;
+}
+
+type InlineFormat = "bold" | "italic" | "underline";
+
+const INLINE_FORMATS: { command: InlineFormat; label: string; icon: JSX.Element }[] = [
+  { command: "bold", label: "Bold", icon: <Bold className="w-3.5 h-3.5" /> },
+  { command: "italic", label: "Italic", icon: <Italic className="w-3.5 h-3.5" /> },
+  { command: "underline", label: "Underline", icon: <Underline className="w-3.5 h-3.5" /> },
+];
+
+const BLOCK_FORMATS = [
+  { tag: "h2", label: "Heading", icon: <Heading2 className="w-3.5 h-3.5" /> },
+  { tag: "h3", label: "Subheading", icon: <Heading3 className="w-3.5 h-3.5" /> },
+  { tag: "p", label: "Paragraph", icon: <Pilcrow className="w-3.5 h-3.5" /> },
+];
+
+const sanitizeEditorHtml = (html: string) => sanitizeHtml(html, { allowPlaceholderLinks: true });
+
+const escapeText = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// "intranet.example.com/policy" is almost always meant as a web address
+const normalizeUrl = (url: string) => {
+  const trimmed = url.trim();
+  if (!trimmed || isSafeUrl(trimmed) || trimmed.startsWith("{{")) return trimmed;
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed)) return `mailto:${trimmed}`;
+  return `https://${trimmed}`;
+};
+
+export const RichTextEditor = ({
+  value,
+  onChange,
+  placeholder,
+  className,
+  toolbarExtras,
+}: RichTextEditorProps) => {
+  const editorRef = useRef<HTMLDivElement>(null);
+  // The last HTML this editor reported, so echoes of it don't reset the caret
+  const lastEmittedRef = useRef<string | null>(null);
+  const savedRangeRef = useRef<Range | null>(null);
+  const [activeFormats, setActiveFormats] = useState<InlineFormat[]>([]);
+  const [linkDialog, setLinkDialog] = useState<{ url: string; text: string; hasSelection: boolean } | null>(null);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (editor && value !== lastEmittedRef.current) {
+      editor.innerHTML = sanitizeEditorHtml(value);
+      lastEmittedRef.current = value;
+    }
+  }, [value]);
+
+  // Remember the selection so toolbar clicks and dialogs act on it
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      const selection = window.getSelection();
+      const editor = editorRef.current;
+      if (!selection?.rangeCount || !editor?.contains(selection.anchorNode)) return;
+      savedRangeRef.current = selection.getRangeAt(0).cloneRange();
+      setActiveFormats(INLINE_FORMATS.map((f) => f.command).filter((c) => document.queryCommandState(c)));
+    };
+    document.addEventListener("selectionchange", handleSelectionChange);
+    return () => document.removeEventListener("selectionchange", handleSelectionChange);
+  }, []);
+
+  const emitChange = useCallback(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    const html = editor.textContent.trim() ? sanitizeEditorHtml(editor.innerHTML) : "";
+    lastEmittedRef.current = html;
+    onChange(html);
+  }, [onChange]);
+
+  const restoreSelection = () => {
+    const editor = editorRef.current;
+    editor?.focus();
+    const selection = window.getSelection();
+    if (savedRangeRef.current && selection) {
+      selection.removeAllRanges();
+      selection.addRange(savedRangeRef.current);
+    }
+  };
+
+  const exec = (command: string, argument?: string) => {
+    restoreSelection();
+    document.execCommand(command, false, argument);
+    emitChange();
+  };
+
+  const insertText = (text: string) => exec("insertText", text);
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const html = e.clipboardData.getData("text/html");
+    if (html) {
+      document.execCommand("insertHTML", false, sanitizeEditorHtml(html));
+    } else {
+      document.execCommand("insertText", false, e.clipboardData.getData("text/plain"));
+    }
+    emitChange();
+  };
+
+  const openLinkDialog = () => {
+    const range = savedRangeRef.current;
+    const text = range?.toString() ?? "";
+    const existingLink = range?.startContainer.parentElement?.closest("a");
+    setLinkDialog({
+      url: existingLink?.getAttribute("href") ?? "",
+      text,
+      hasSelection: text.length > 0,
+    });
+  };
+
+  const handleInsertLink = () => {
+    const url = normalizeUrl(linkDialog.url);
+    const { text, hasSelection } = linkDialog;
+    setLinkDialog(null);
+    if (hasSelection) {
+      exec("createLink", url);
+    } else {
+      exec("insertHTML", `<a href="${escapeText(url).replace(/"/g, "&quot;")}">${escapeText(text || url)}</a>`);
+    }
+  };
+
+  const linkUrl = linkDialog ? normalizeUrl(linkDialog.url) : "";
+  const isLinkValid = linkUrl.length > 0 && (isSafeUrl(linkUrl) || linkUrl.startsWith("{{"));
+
+  const ToolbarButton = ({
+    label,
+    onClick,
+    active,
+    children,
+  }: {
+    label: string;
+    onClick: () => void;
+    active?: boolean;
+    children: React.ReactNode;
+  }) => (
+    <Button
+      type="button"
+      variant={active ? "secondary" : "ghost"}
+      size="sm"
+      className="h-7 w-7 p-0"
+      // Keep focus (and the selection) in the editor
+      onMouseDown={(e) => e.preventDefault()}
+      onClick={onClick}
+      title={label}
+      aria-pressed={active}
+    >
+      {children}
+    </Button>
+  );
+
+  return (
+    <div className={className}>
+      <div className="flex items-center gap-1 p-2 border-b border-border bg-muted/30 flex-wrap">
+        {INLINE_FORMATS.map((format) => (
+          <ToolbarButton
+            key={format.command}
+            label={format.label}
+            active={activeFormats.includes(format.command)}
+            onClick={() => exec(format.command)}
+          >
+            {format.icon}
+          </ToolbarButton>
+        ))}
+        <div className="w-px h-5 bg-border mx-1" />
+        {BLOCK_FORMATS.map((format) => (
+          <ToolbarButton key={format.tag} label={format.label} onClick={() => exec("formatBlock", `<${format.tag}>`)}>
+            {format.icon}
+          </ToolbarButton>
+        ))}
+        <ToolbarButton label="Bulleted list" onClick={() => exec("insertUnorderedList")}>
+          <List className="w-3.5 h-3.5" />
+        </ToolbarButton>
+        <ToolbarButton label="Numbered list" onClick={() => exec("insertOrderedList")}>
+          <ListOrdered className="w-3.5 h-3.5" />
+        </ToolbarButton>
+        <div className="w-px h-5 bg-border mx-1" />
+        <ToolbarButton label="Link" onClick={openLinkDialog}>
+          <Link className="w-3.5 h-3.5" />
+        </ToolbarButton>
+        <ToolbarButton label="Remove link" onClick={() => exec("unlink")}>
+          <Unlink className="w-3.5 h-3.5" />
+        </ToolbarButton>
+        <ToolbarButton label="Clear formatting" onClick={() => exec("removeFormat")}>
+          <RemoveFormatting className="w-3.5 h-3.5" />
+        </ToolbarButton>
+        {toolbarExtras && (
+          <>
+            <div className="w-px h-5 bg-border mx-1" />
+            {toolbarExtras(insertText)}
+          </>
+        )}
+      </div>
+
+      <div
+        ref={editorRef}
+        contentEditable
+        suppressContentEditableWarning
+        role="textbox"
+        aria-multiline
+        data-placeholder={placeholder}
+        onInput={emitChange}
+        onPaste={handlePaste}
+        className={cn(
+          "min-h-[140px] px-3 py-2 text-sm focus-visible:outline-none",
+          "empty:before:content-[attr(data-placeholder)] empty:before:text-muted-foreground",
+          "[&_h2]:text-lg [&_h2]:font-semibold [&_h3]:font-semibold [&_ul]:list-disc [&_ol]:list-decimal",
+          "[&_ul]:pl-5 [&_ol]:pl-5 [&_a]:text-primary [&_a]:underline"
+        )}
+      />
+
+      <Dialog open={linkDialog !== null} onOpenChange={(open) => !open && setLinkDialog(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Insert Link</DialogTitle>
+            <DialogDescription>
+              Links must use http, https, mailto or tel. Placeholders such as {"{{email}}"} are allowed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="link-url">URL</Label>
+              <Input
+                id="link-url"
+                placeholder="https://intranet.example.com/policy"
+                value={linkDialog?.url ?? ""}
+                onChange={(e) => setLinkDialog((prev) => ({ ...prev, url: e.target.value }))}
+                autoFocus
+              />
+            </div>
+            {!linkDialog?.hasSelection && (
+              <div className="space-y-2">
+                <Label htmlFor="link-text">Text</Label>
+                <Input
+                  id="link-text"
+                  placeholder="Defaults to the URL"
+                  value={linkDialog?.text ?? ""}
+                  onChange={(e) => setLinkDialog((prev) => ({ ...prev, text: e.target.value }))}
+                />
+              </div>
+            )}
+            {linkDialog?.url && !isLinkValid && (
+              <p className="text-sm text-destructive">This link type is not allowed.</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setLinkDialog(null)}>
+              Cancel
+            </Button>
+            <Button disabled={!isLinkValid} onClick={handleInsertLink}>
+              Insert Link
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
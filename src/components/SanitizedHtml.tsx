@@ -0,0 +1,25 @@
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { sanitizeHtml } from "@/lib/sanitize-html";
+
+interface SanitizedHtmlProps {
+  html: string;
+  className?: string;
+}
+
+/** Renders email/portal markup after passing it through the allowlist sanitizer. */
+export const SanitizedHtml = ({ html, className }: SanitizedHtmlProps) => {
+  const clean = useMemo(() => sanitizeHtml(html), [html]);
+
+  return (
+    <div
+      className={cn(
+        "text-sm [&_h1]:text-xl [&_h1]:font-semibold [&_h2]:text-lg [&_h2]:font-semibold [&_h3]:font-semibold",
+        "[&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-5 [&_ol]:pl-5 [&_p]:mb-2",
+        "[&_blockquote]:border-l-2 [&_blockquote]:pl-3 [&_a]:text-primary [&_a]:underline",
+        className
+      )}
+      dangerouslySetInnerHTML={{ __html: clean }}
+    />
+  );
+};
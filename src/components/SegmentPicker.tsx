@@ -0,0 +1,109 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ChevronDown, Layers, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useDeleteSegment, useSegmentCounts, useSegments } from "@/hooks/use-segments";
+import { describeFilter, type AudienceSegment } from "@/lib/segments";
+
+interface SegmentPickerProps {
+  selectedSegments: AudienceSegment[];
+  onSegmentsChange: (segments: AudienceSegment[]) => void;
+}
+
+export const SegmentPicker = ({ selectedSegments, onSegmentsChange }: SegmentPickerProps) => {
+  const { toast } = useToast();
+  const { data: segments = [], isLoading } = useSegments();
+  const { data: counts = {} } = useSegmentCounts(segments);
+  const deleteSegment = useDeleteSegment();
+
+  const isSelected = (segment: AudienceSegment) => selectedSegments.some((s) => s.id === segment.id);
+
+  const toggleSegment = (segment: AudienceSegment) => {
+    onSegmentsChange(
+      isSelected(segment)
+        ? selectedSegments.filter((s) => s.id !== segment.id)
+        : [...selectedSegments, segment]
+    );
+  };
+
+  const handleDelete = (segment: AudienceSegment) => {
+    deleteSegment.mutate(segment.id, {
+      onSuccess: () => {
+        onSegmentsChange(selectedSegments.filter((s) => s.id !== segment.id));
+        toast({
+          title: "Segment Deleted",
+          description: `"${segment.name}" was removed. Notifications already sent keep their copy.`,
+        });
+      },
+    });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" className="gap-2 shrink-0">
+          <Layers className="w-4 h-4" />
+          Segments
+          {selectedSegments.length > 0 && <Badge variant="secondary">{selectedSegments.length}</Badge>}
+          <ChevronDown className="w-4 h-4 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[360px] p-0 bg-popover" align="end">
+        <div className="p-3 border-b border-border">
+          <p className="text-sm font-medium">Saved segments</p>
+          <p className="text-xs text-muted-foreground">
+            Members are looked up again when the notification is sent.
+          </p>
+        </div>
+        <ScrollArea className="max-h-[280px]">
+          {isLoading ? (
+            <div className="p-4 text-center text-muted-foreground text-sm">Loading segments...</div>
+          ) : segments.length === 0 ? (
+            <div className="p-4 text-center text-muted-foreground text-sm">
+              No segments yet. Filter the recipient list and choose "Save Segment".
+            </div>
+          ) : (
+            <div className="p-2">
+              {segments.map((segment) => (
+                <div
+                  key={segment.id}
+                  className="flex items-center gap-3 p-2 rounded-md hover:bg-muted/50 cursor-pointer"
+                  onClick={() => toggleSegment(segment)}
+                >
+                  <Checkbox checked={isSelected(segment)} />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-sm truncate">{segment.name}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {describeFilter(segment.filter)}
+                    </div>
+                  </div>
+                  {counts[segment.id] !== undefined && (
+                    <Badge variant="outline" className="text-xs shrink-0">
+                      {counts[segment.id]}
+                    </Badge>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 shrink-0"
+                    title="Delete segment"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(segment);
+                    }}
+                  >
+                    <Trash2 className="w-3.5 h-3.5 text-muted-foreground" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,225 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertTriangle, Bell, CheckCircle2, Clock, Mail, MessageSquare, Users } from "lucide-react";
+import { format } from "date-fns";
+import type { Employee } from "@/lib/employees";
+import type { TemplateField } from "@/lib/template";
+import { formatInTimeZone } from "@/lib/timezones";
+import { formatEligibilityCounts, type EligibilitySummary } from "@/lib/eligibility";
+import { CONFIRMATION_PHRASE, loadSendReviewPolicy, type ChannelEstimate } from "@/lib/send-review";
+import { describeReminderPolicy } from "@/lib/reminders";
+import type { AcknowledgementSettings, NotificationChannel, NotificationSchedule } from "./NotificationCenter";
+import type { ChannelMessages } from "./ChannelMessageEditors";
+import { RecipientPreviewPane } from "./RecipientPreviewPane";
+import { EligibilityReport } from "./EligibilityReport";
+
+export interface SendReview {
+  title: string;
+  channels: NotificationChannel[];
+  messages: ChannelMessages;
+  members: Employee[];
+  schedule?: NotificationSchedule;
+  acknowledgement?: AcknowledgementSettings;
+  missingFieldReport: { recipient: Employee; fields: TemplateField[] }[];
+  eligibility: EligibilitySummary;
+  estimates: ChannelEstimate[];
+}
+
+interface SendReviewDialogProps {
+  // Null while closed
+  review: SendReview | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: () => void;
+}
+
+const channelIcons: Record<NotificationChannel, typeof Mail> = {
+  email: Mail,
+  sms: MessageSquare,
+  portal: Bell,
+};
+
+const Section = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <div className="space-y-1.5">
+    <div className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{title}</div>
+    {children}
+  </div>
+);
+
+export const SendReviewDialog = ({ review, onOpenChange, onConfirm }: SendReviewDialogProps) => {
+  const [typed, setTyped] = useState("");
+
+  useEffect(() => {
+    if (review) setTyped("");
+  }, [review]);
+
+  if (!review) return <Dialog open={false} onOpenChange={onOpenChange} />;
+
+  const { eligibility, estimates, members, schedule, acknowledgement } = review;
+  const reached = members.length - eligibility.skipped.length;
+  const requiresTypedConfirmation = reached >= loadSendReviewPolicy().confirmationThreshold;
+  const isConfirmed = !requiresTypedConfirmation || typed.trim() === CONFIRMATION_PHRASE;
+  const eligibilityCounts = formatEligibilityCounts(eligibility);
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Review Before Sending</DialogTitle>
+          <DialogDescription>
+            Check who will receive "{review.title}" and how, then confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[65vh] pr-3">
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="space-y-4">
+              <Section title="Recipients">
+                <p className="flex items-center gap-2 text-sm">
+                  <Users className="w-4 h-4 text-muted-foreground" />
+                  <span>
+                    <span className="font-semibold">{reached}</span> of {members.length} selected will be notified
+                  </span>
+                </p>
+                {eligibilityCounts && <p className="text-xs text-muted-foreground">{eligibilityCounts}</p>}
+              </Section>
+
+              <Section title="Channels">
+                <div className="space-y-1">
+                  {estimates.map((estimate) => {
+                    const Icon = channelIcons[estimate.channel];
+                    return (
+                      <div
+                        key={estimate.channel}
+                        className="flex items-center justify-between gap-2 p-2 rounded-md border border-border text-sm"
+                      >
+                        <span className="flex items-center gap-2 capitalize">
+                          <Icon className="w-4 h-4 text-muted-foreground" />
+                          {estimate.channel}
+                        </span>
+                        <span className="text-xs text-muted-foreground text-right">
+                          {estimate.recipients} recipient(s)
+                          {estimate.deferred > 0 && `, ${estimate.deferred} deferred`}
+                          {estimate.smsSegments !== undefined &&
+                            ` • ${estimate.smsSegments} segment(s) ≈ $${estimate.smsCost.toFixed(2)}`}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </Section>
+
+              <Section title="Delivery Time">
+                <p className="flex items-center gap-2 text-sm">
+                  <Clock className="w-4 h-4 text-muted-foreground" />
+                  {schedule ? formatInTimeZone(schedule.sendAt, schedule.timezone) : "Immediately"}
+                </p>
+              </Section>
+
+              <Section title="Acknowledgement">
+                {acknowledgement?.required ? (
+                  <div className="space-y-1 text-sm">
+                    <p className="flex items-center gap-2">
+                      <CheckCircle2 className="w-4 h-4 text-muted-foreground" />
+                      Required
+                      {acknowledgement.deadline && ` by ${format(acknowledgement.deadline, "MMM d, yyyy")}`}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {acknowledgement.responseOptions.map((option) => (
+                        <Badge key={option} variant="outline">
+                          {option}
+                        </Badge>
+                      ))}
+                      {acknowledgement.allowComments && <Badge variant="outline">Comments allowed</Badge>}
+                    </div>
+                    {acknowledgement.reminders && (
+                      <p className="text-xs text-muted-foreground">
+                        Reminders: {describeReminderPolicy(acknowledgement.reminders, !!acknowledgement.deadline)}
+                      </p>
+                    )}
+                    {acknowledgement.escalation?.enabled && (
+                      <p className="text-xs text-muted-foreground">
+                        Managers are emailed {acknowledgement.escalation.daysOverdue} day(s) after the deadline
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Not required</p>
+                )}
+              </Section>
+
+              {review.missingFieldReport.length > 0 && (
+                <Section title="Missing Data">
+                  <p className="text-xs text-muted-foreground">
+                    These placeholders will be left blank. Add a fallback such as{" "}
+                    {'{{manager | "your manager"}}'} or send anyway.
+                  </p>
+                  {review.missingFieldReport.map(({ recipient, fields }) => (
+                    <div
+                      key={recipient.id}
+                      className="flex items-center justify-between gap-2 p-2 rounded-md border border-border text-sm"
+                    >
+                      <span className="font-medium">{recipient.name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {fields.map((field) => `{{${field}}}`).join(", ")}
+                      </span>
+                    </div>
+                  ))}
+                </Section>
+              )}
+
+              {eligibilityCounts && (
+                <Section title="Delivery Rules">
+                  <EligibilityReport summary={eligibility} />
+                </Section>
+              )}
+            </div>
+
+            <RecipientPreviewPane
+              title={review.title}
+              channels={review.channels}
+              messages={review.messages}
+              recipients={members}
+            />
+          </div>
+        </ScrollArea>
+
+        {requiresTypedConfirmation && (
+          <div className="space-y-2 p-3 rounded-md border border-warning/30 bg-warning/5">
+            <Label htmlFor="send-confirmation" className="flex items-center gap-2 text-sm">
+              <AlertTriangle className="w-4 h-4 text-warning" />
+              This reaches {reached} people. Type {CONFIRMATION_PHRASE} to confirm.
+            </Label>
+            <Input
+              id="send-confirmation"
+              value={typed}
+              onChange={(e) => setTyped(e.target.value)}
+              placeholder={CONFIRMATION_PHRASE}
+              autoComplete="off"
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Go Back
+          </Button>
+          <Button type="button" onClick={onConfirm} disabled={!isConfirmed}>
+            {schedule ? "Schedule Notification" : "Send Notification"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+
+export interface TemplateDetails {
+  name: string;
+  category: string;
+  description?: string;
+}
+
+interface TemplateDetailsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  initialDetails: TemplateDetails;
+  // Existing category names offered as suggestions
+  categories: string[];
+  // Name of the template being edited; enables the "update" switch
+  existingTemplateName?: string;
+  onSave: (details: TemplateDetails, replaceExisting: boolean) => void;
+}
+
+export const TemplateDetailsDialog = ({
+  open,
+  onOpenChange,
+  title,
+  initialDetails,
+  categories,
+  existingTemplateName,
+  onSave,
+}: TemplateDetailsDialogProps) => {
+  const [details, setDetails] = useState<TemplateDetails>(initialDetails);
+  const [replaceExisting, setReplaceExisting] = useState(true);
+
+  useEffect(() => {
+    if (open) {
+      setDetails(initialDetails);
+      setReplaceExisting(true);
+    }
+  }, [open, initialDetails]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Templates keep the title, channels, messages, acknowledgement setup and default audience.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name *</Label>
+            <Input
+              id="template-name"
+              placeholder="e.g., Policy update"
+              value={details.name}
+              onChange={(e) => setDetails((prev) => ({ ...prev, name: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-category">Category</Label>
+            <Input
+              id="template-category"
+              list="template-categories"
+              placeholder="e.g., IT, HR, Facilities"
+              value={details.category}
+              onChange={(e) => setDetails((prev) => ({ ...prev, category: e.target.value }))}
+            />
+            <datalist id="template-categories">
+              {categories.map((category) => (
+                <option key={category} value={category} />
+              ))}
+            </datalist>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea
+              id="template-description"
+              placeholder="When to use this template"
+              value={details.description ?? ""}
+              onChange={(e) => setDetails((prev) => ({ ...prev, description: e.target.value }))}
+              className="min-h-[80px]"
+            />
+          </div>
+          {existingTemplateName && (
+            <div className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border">
+              <Label htmlFor="replace-template" className="text-sm font-normal">
+                Update "{existingTemplateName}" instead of saving a copy
+              </Label>
+              <Switch id="replace-template" checked={replaceExisting} onCheckedChange={setReplaceExisting} />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={!details.name.trim()}
+            onClick={() =>
+              onSave(
+                { ...details, name: details.name.trim(), description: details.description?.trim() || undefined },
+                Boolean(existingTemplateName) && replaceExisting
+              )
+            }
+          >
+            Save Template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,33 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getTimeZoneOptions } from "@/lib/timezones";
+
+interface TimezoneSelectProps {
+  value: string;
+  onValueChange: (timezone: string) => void;
+  className?: string;
+}
+
+export const TimezoneSelect = ({ value, onValueChange, className }: TimezoneSelectProps) => {
+  const options = getTimeZoneOptions();
+
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Time zone" />
+      </SelectTrigger>
+      <SelectContent className="bg-popover">
+        {(options.includes(value) ? options : [value, ...options]).map((zone) => (
+          <SelectItem key={zone} value={zone}>
+            {zone.replace(/_/g, " ")}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -0,0 +1,58 @@
+import { useNavigate } from "react-router-dom";
+import { LogOut, UserCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useCurrentUser, useSignOut } from "@/hooks/use-auth";
+import { getAllowedDepartments, ROLE_LABELS } from "@/lib/auth";
+
+export const UserMenu = () => {
+  const navigate = useNavigate();
+  const { data: user } = useCurrentUser();
+  const signOut = useSignOut();
+
+  if (!user) return null;
+
+  const allowedDepartments = getAllowedDepartments(user);
+
+  const handleSignOut = () => {
+    signOut.mutate(undefined, { onSuccess: () => navigate("/login") });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" className="gap-2">
+          <UserCircle className="w-4 h-4" />
+          {user.name}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 bg-popover" align="end">
+        <div className="space-y-3">
+          <div>
+            <p className="font-medium">{user.name}</p>
+            <p className="text-xs text-muted-foreground">
+              {user.email} • {user.department}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {user.roles.map((role) => (
+              <Badge key={role} variant="secondary">
+                {ROLE_LABELS[role]}
+              </Badge>
+            ))}
+          </div>
+          {user.roles.includes("composer") && (
+            <p className="text-xs text-muted-foreground">
+              Can send to {allowedDepartments ? allowedDepartments.join(", ") : "every department"}
+            </p>
+          )}
+          <Button variant="outline" size="sm" className="w-full gap-2" onClick={handleSignOut}>
+            <LogOut className="w-4 h-4" />
+            Sign Out
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,36 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { authProvider } from "@/lib/auth";
+
+export const AUTH_QUERY_KEY = ["auth"];
+
+export function useCurrentUser() {
+  return useQuery({
+    queryKey: [...AUTH_QUERY_KEY, "current"],
+    queryFn: authProvider.getCurrentUser,
+  });
+}
+
+export function useSignInUsers() {
+  return useQuery({
+    queryKey: [...AUTH_QUERY_KEY, "users"],
+    queryFn: authProvider.listUsers,
+  });
+}
+
+export function useSignIn() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: authProvider.signIn,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: AUTH_QUERY_KEY }),
+  });
+}
+
+export function useSignOut() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: authProvider.signOut,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: AUTH_QUERY_KEY }),
+  });
+}
@@ -0,0 +1,45 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { employeeDirectory, type EmployeeQuery } from "@/lib/employee-directory";
+import { getTemplateContexts, type Employee } from "@/lib/employees";
+import type { TemplateContext } from "@/lib/template";
+
+export const EMPLOYEES_QUERY_KEY = ["employees"];
+
+export function useEmployeeQuery(query: EmployeeQuery) {
+  return useQuery({
+    queryKey: [...EMPLOYEES_QUERY_KEY, "query", query],
+    queryFn: () => employeeDirectory.query(query),
+    // Keep showing the previous page while the next one loads
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useEmployeeFacets() {
+  return useQuery({
+    queryKey: [...EMPLOYEES_QUERY_KEY, "facets"],
+    queryFn: () => employeeDirectory.facets(),
+  });
+}
+
+/** Template contexts keyed by employee ID, with managers resolved from the directory. */
+export function useTemplateContexts(employees: Employee[]) {
+  return useQuery({
+    queryKey: [...EMPLOYEES_QUERY_KEY, "template-contexts", employees.map((employee) => employee.id)],
+    queryFn: async () => {
+      const contexts = await getTemplateContexts(employees);
+      return Object.fromEntries(
+        employees.map((employee, index) => [employee.id, contexts[index]])
+      ) as Record<string, TemplateContext>;
+    },
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useImportEmployees() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (employees: Employee[]) => employeeDirectory.upsertMany(employees),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: EMPLOYEES_QUERY_KEY }),
+  });
+}
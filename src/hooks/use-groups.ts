@@ -0,0 +1,47 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  deleteGroup,
+  expandGroups,
+  listGroups,
+  saveGroup,
+  type NewRecipientGroup,
+  type RecipientGroup,
+} from "@/lib/recipient-groups";
+import { EMPLOYEES_QUERY_KEY } from "./use-employees";
+
+// Nested under employees: built-in groups and all memberships follow the directory
+export const GROUPS_QUERY_KEY = [...EMPLOYEES_QUERY_KEY, "groups"];
+
+export function useGroups() {
+  return useQuery({
+    queryKey: GROUPS_QUERY_KEY,
+    queryFn: listGroups,
+  });
+}
+
+export function useSaveGroup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ group, id }: { group: NewRecipientGroup; id?: string }) => saveGroup(group, id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: GROUPS_QUERY_KEY }),
+  });
+}
+
+export function useDeleteGroup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteGroup,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: GROUPS_QUERY_KEY }),
+  });
+}
+
+/** Current expansion of the given groups; also gives each group's size. */
+export function useGroupExpansion(groups: RecipientGroup[]) {
+  return useQuery({
+    queryKey: [...GROUPS_QUERY_KEY, "expansion", groups.map((group) => [group.id, group.updatedAt])],
+    queryFn: () => expandGroups(groups.map((group) => group.id)),
+    placeholderData: keepPreviousData,
+  });
+}
@@ -0,0 +1,48 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  runDueDeferrals,
+  runDueEscalations,
+  runDueReminders,
+  runDueRetries,
+  runDueSchedules,
+  runExclusiveIfFree,
+  SCHEDULER_INTERVAL_MS,
+} from "@/lib/scheduler";
+import { NOTIFICATIONS_QUERY_KEY } from "./use-notifications";
+
+// Scheduled notifications, automatic retries, deferred deliveries, reminders and escalations are run
+// by whichever browser tab has the app open, one tab at a time
+export function useNotificationScheduler() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    let running = false;
+
+    const tick = async () => {
+      if (running) return;
+      running = true;
+      try {
+        // Another tab already running this tick has the work covered
+        const changed = await runExclusiveIfFree(async () => [
+          await runDueSchedules(),
+          await runDueRetries(),
+          await runDueDeferrals(),
+          await runDueReminders(),
+          await runDueEscalations(),
+        ]);
+        if (changed?.some((notifications) => notifications.length > 0)) {
+          queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_QUERY_KEY });
+        }
+      } catch (error) {
+        console.error("Failed to run scheduled deliveries:", error);
+      } finally {
+        running = false;
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, SCHEDULER_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [queryClient]);
+}
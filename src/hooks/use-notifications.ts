@@ -0,0 +1,174 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type {
+  ApprovalDecision,
+  Notification,
+  NotificationAuthor,
+  NotificationChannel,
+  NotificationSchedule,
+  RecipientRef,
+} from "@/components/NotificationCenter";
+import { notificationRepository, type NewNotification } from "@/lib/notification-repository";
+import { dispatchNotification, renderMessageFor, retryFailedDeliveries } from "@/lib/dispatcher";
+import {
+  cancelScheduledNotification,
+  rescheduleNotification,
+  runExclusive,
+  sendScheduledNow,
+} from "@/lib/scheduler";
+import { decideApproval, requestApproval, resubmitNotification } from "@/lib/approvals";
+import { setInboxArchived, setInboxRead } from "@/lib/inbox";
+import { findByResponseToken, submitAcknowledgement, type ResponseInput } from "@/lib/acknowledgements";
+import { sendRemindersNow } from "@/lib/reminders";
+import { authProvider, canManageNotification } from "@/lib/auth";
+
+export const NOTIFICATIONS_QUERY_KEY = ["notifications"];
+
+export function useNotifications() {
+  return useQuery({
+    queryKey: NOTIFICATIONS_QUERY_KEY,
+    queryFn: () => notificationRepository.list(),
+  });
+}
+
+/** A stored notification as one recipient sees it on one channel. */
+export function useRenderedMessage(
+  notification: Notification | undefined,
+  channel: NotificationChannel,
+  recipient: RecipientRef | undefined
+) {
+  return useQuery({
+    queryKey: [...NOTIFICATIONS_QUERY_KEY, "rendered", notification?.id, channel, recipient?.employeeId],
+    queryFn: () => renderMessageFor(notification, channel, recipient),
+    enabled: !!notification && !!recipient,
+  });
+}
+
+/** The notification and recipient behind an emailed response link; null when the token is unknown. */
+export function useResponseLink(token: string) {
+  return useQuery({
+    queryKey: [...NOTIFICATIONS_QUERY_KEY, "response-link", token],
+    queryFn: () => findByResponseToken(token),
+  });
+}
+
+// Checked here as well as in the UI, so a hidden button is not the only thing in the way
+const requireManageable = async (id: string) => {
+  const [user, notification] = await Promise.all([authProvider.getCurrentUser(), notificationRepository.get(id)]);
+  if (!notification) {
+    throw new Error("Notification not found");
+  }
+  if (!canManageNotification(user, notification)) {
+    throw new Error("Only the author or an admin can change this notification");
+  }
+};
+
+const useNotificationMutation = <TVariables, TData>(
+  mutationFn: (variables: TVariables) => Promise<TData>
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_QUERY_KEY }),
+  });
+};
+
+/**
+ * Stores a new notification and delivers it right away unless it is
+ * scheduled or an approval policy holds it for sign-off.
+ */
+export function useSendNotification() {
+  return useNotificationMutation(async (notification: NewNotification) => {
+    const created = await notificationRepository.create(await requestApproval(notification));
+    return created.status === "pending" ? dispatchNotification(created) : created;
+  });
+}
+
+export function useDecideApproval() {
+  return useNotificationMutation(
+    ({
+      id,
+      decision,
+      approver,
+      comment,
+    }: {
+      id: string;
+      decision: ApprovalDecision;
+      approver: NotificationAuthor;
+      comment?: string;
+    }) => decideApproval(id, decision, approver, comment)
+  );
+}
+
+export function useResubmitNotification() {
+  return useNotificationMutation(({ id, notification }: { id: string; notification: NewNotification }) =>
+    resubmitNotification(id, notification)
+  );
+}
+
+export function useCancelScheduledNotification() {
+  return useNotificationMutation(async (id: string) => {
+    await requireManageable(id);
+    return cancelScheduledNotification(id);
+  });
+}
+
+export function useRescheduleNotification() {
+  return useNotificationMutation(async ({ id, schedule }: { id: string; schedule: NotificationSchedule }) => {
+    await requireManageable(id);
+    return rescheduleNotification(id, schedule);
+  });
+}
+
+export function useSendScheduledNow() {
+  return useNotificationMutation(async (id: string) => {
+    await requireManageable(id);
+    return sendScheduledNow(id);
+  });
+}
+
+export function useRetryFailedDeliveries() {
+  return useNotificationMutation(async (id: string) => {
+    await requireManageable(id);
+    return runExclusive(() => retryFailedDeliveries(id));
+  });
+}
+
+/** Retries the failed deliveries of several notifications, one after another. */
+export function useRetryAllFailed() {
+  return useNotificationMutation(async (ids: string[]) => {
+    const retried = [];
+    for (const id of ids) {
+      await requireManageable(id);
+      retried.push(await runExclusive(() => retryFailedDeliveries(id)));
+    }
+    return retried;
+  });
+}
+
+export function useSetInboxRead() {
+  return useNotificationMutation(({ id, employeeId, read }: { id: string; employeeId: string; read: boolean }) =>
+    setInboxRead(id, employeeId, read)
+  );
+}
+
+export function useSetInboxArchived() {
+  return useNotificationMutation(
+    ({ id, employeeId, archived }: { id: string; employeeId: string; archived: boolean }) =>
+      setInboxArchived(id, employeeId, archived)
+  );
+}
+
+export function useSubmitAcknowledgement() {
+  return useNotificationMutation(
+    ({ id, recipient, input }: { id: string; recipient: RecipientRef; input: ResponseInput }) =>
+      submitAcknowledgement(id, recipient, input)
+  );
+}
+
+export function useSendReminders() {
+  return useNotificationMutation(async (id: string) => {
+    await requireManageable(id);
+    return runExclusive(() => sendRemindersNow(id));
+  });
+}
@@ -0,0 +1,20 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { clearOutbox, listOutbox } from "@/lib/capture-transport";
+
+export const OUTBOX_QUERY_KEY = ["outbox"];
+
+export function useOutbox() {
+  return useQuery({
+    queryKey: OUTBOX_QUERY_KEY,
+    queryFn: listOutbox,
+  });
+}
+
+export function useClearOutbox() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: clearOutbox,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: OUTBOX_QUERY_KEY }),
+  });
+}
@@ -0,0 +1,62 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { employeeDirectory } from "@/lib/employee-directory";
+import {
+  deleteSegment,
+  listSegments,
+  resolveSegments,
+  saveSegment,
+  type AudienceSegment,
+} from "@/lib/segments";
+import { EMPLOYEES_QUERY_KEY } from "./use-employees";
+
+export const SEGMENTS_QUERY_KEY = ["segments"];
+
+export function useSegments() {
+  return useQuery({
+    queryKey: SEGMENTS_QUERY_KEY,
+    queryFn: listSegments,
+  });
+}
+
+export function useSaveSegment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ segment, id }: { segment: Omit<AudienceSegment, "id" | "updatedAt">; id?: string }) =>
+      saveSegment(segment, id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: SEGMENTS_QUERY_KEY }),
+  });
+}
+
+export function useDeleteSegment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteSegment,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: SEGMENTS_QUERY_KEY }),
+  });
+}
+
+// Keyed under employees so a roster import refreshes memberships too
+export function useSegmentMembers(segments: AudienceSegment[]) {
+  return useQuery({
+    queryKey: [...EMPLOYEES_QUERY_KEY, "segment-members", segments.map((segment) => segment.filter)],
+    queryFn: () => resolveSegments(segments),
+    placeholderData: keepPreviousData,
+  });
+}
+
+/** Current member count of each segment, keyed by segment ID. */
+export function useSegmentCounts(segments: AudienceSegment[]) {
+  return useQuery({
+    queryKey: [...EMPLOYEES_QUERY_KEY, "segment-counts", segments.map((segment) => [segment.id, segment.filter])],
+    queryFn: async () => {
+      const counts: Record<string, number> = {};
+      for (const segment of segments) {
+        counts[segment.id] = (await employeeDirectory.query({ ...segment.filter, pageSize: 1 })).total;
+      }
+      return counts;
+    },
+    placeholderData: keepPreviousData,
+  });
+}
@@ -0,0 +1,35 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  deleteTemplate,
+  listTemplates,
+  saveTemplate,
+  type NewNotificationTemplate,
+} from "@/lib/notification-templates";
+
+export const TEMPLATES_QUERY_KEY = ["templates"];
+
+export function useTemplates() {
+  return useQuery({
+    queryKey: TEMPLATES_QUERY_KEY,
+    queryFn: listTemplates,
+  });
+}
+
+export function useSaveTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ template, id }: { template: NewNotificationTemplate; id?: string }) =>
+      saveTemplate(template, id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: TEMPLATES_QUERY_KEY }),
+  });
+}
+
+export function useDeleteTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteTemplate,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: TEMPLATES_QUERY_KEY }),
+  });
+}
@@ -0,0 +1,92 @@
+import type {
+  AcknowledgementResponse,
+  DeliveryRecord,
+  Notification,
+  RecipientRef,
+} from "@/components/NotificationCenter";
+import { notificationRepository } from "./notification-repository";
+import { recipientKey } from "./recipients";
+
+// Notifications from before response options existed only asked for a plain acknowledgement
+const FALLBACK_RESPONSE_OPTIONS = ["Acknowledged"];
+
+export const getResponseOptions = (notification: Notification) =>
+  notification.acknowledgementSettings?.responseOptions.length
+    ? notification.acknowledgementSettings.responseOptions
+    : FALLBACK_RESPONSE_OPTIONS;
+
+export const findResponse = (notification: Notification, recipient: RecipientRef) =>
+  notification.acknowledgementResponses?.find(
+    (response) => recipientKey(response.recipient) === recipientKey(recipient)
+  );
+
+// Responses after the deadline are still recorded so the sender can follow up on them
+export const isLateResponse = (notification: Notification, response: Pick<AcknowledgementResponse, "respondedAt">) => {
+  const deadline = notification.acknowledgementSettings?.deadline;
+  return !!deadline && response.respondedAt > deadline;
+};
+
+export interface ResponseInput {
+  selectedOption: string;
+  comment?: string;
+}
+
+/**
+ * Records a recipient's response and marks them as acknowledged. Each
+ * recipient responds once; the notification is re-read first so a response
+ * sent from another device is not overwritten.
+ */
+export const submitAcknowledgement = async (
+  id: string,
+  recipient: RecipientRef,
+  input: ResponseInput
+): Promise<Notification> => {
+  const notification = await notificationRepository.get(id);
+  if (!notification?.requiresAcknowledgement) {
+    throw new Error("This notification does not ask for a response");
+  }
+  if (!notification.recipients.some((candidate) => recipientKey(candidate) === recipientKey(recipient))) {
+    throw new Error("You are not a recipient of this notification");
+  }
+  if (findResponse(notification, recipient)) {
+    throw new Error("You have already responded to this notification");
+  }
+  if (!getResponseOptions(notification).includes(input.selectedOption)) {
+    throw new Error(`"${input.selectedOption}" is not one of the response options`);
+  }
+
+  const comment = notification.acknowledgementSettings?.allowComments ? input.comment?.trim() : undefined;
+  const response: AcknowledgementResponse = {
+    recipient,
+    selectedOption: input.selectedOption,
+    comment: comment || undefined,
+    respondedAt: new Date(),
+  };
+  return notificationRepository.update({
+    ...notification,
+    acknowledgementResponses: [...(notification.acknowledgementResponses ?? []), response],
+    acknowledgedBy: Array.from(new Set([...(notification.acknowledgedBy ?? []), recipientKey(recipient)])),
+  });
+};
+
+// Only emails carry a link; portal recipients respond from their inbox
+export const needsResponseLink = (notification: Pick<Notification, "requiresAcknowledgement">, delivery: DeliveryRecord) =>
+  notification.requiresAcknowledgement && delivery.channel === "email";
+
+export const createResponseToken = () => crypto.randomUUID();
+
+export const getResponseUrl = (token: string) => `${window.location.origin}/respond/${token}`;
+
+/** The notification and recipient an emailed response link was issued for, by the notification or a reminder. */
+export const findByResponseToken = async (
+  token: string
+): Promise<{ notification: Notification; recipient: RecipientRef } | null> => {
+  const notifications = await notificationRepository.list();
+  for (const notification of notifications) {
+    const issued = [...(notification.deliveries ?? []), ...(notification.reminders ?? [])].find(
+      (candidate) => candidate.responseToken === token
+    );
+    if (issued) return { notification, recipient: issued.recipient };
+  }
+  return null;
+};
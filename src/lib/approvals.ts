@@ -0,0 +1,181 @@
+import type {
+  ApprovalDecision,
+  ApprovalStep,
+  Notification,
+  NotificationAuthor,
+  NotificationChannel,
+} from "@/components/NotificationCenter";
+import { notificationRepository, type NewNotification } from "./notification-repository";
+import { employeeDirectory } from "./employee-directory";
+import { dispatchNotification } from "./dispatcher";
+
+// A policy applies when every condition it sets matches; unset conditions are ignored
+export interface ApprovalPolicy {
+  id: string;
+  name: string;
+  // Who signs off, e.g. "HR" or "Internal Comms"
+  approvers: string;
+  enabled: boolean;
+  minRecipients?: number;
+  // Applies when the notification uses any of these channels
+  channels: NotificationChannel[];
+  // Applies when any recipient belongs to one of these departments
+  departments: string[];
+}
+
+export const DEFAULT_APPROVAL_POLICIES: ApprovalPolicy[] = [
+  {
+    id: "company-wide",
+    name: "Company-wide notices",
+    approvers: "HR",
+    enabled: true,
+    minRecipients: 10,
+    channels: [],
+    departments: [],
+  },
+];
+
+const APPROVAL_POLICIES_STORAGE_KEY = "notification_approval_policies";
+
+export const loadApprovalPolicies = (): ApprovalPolicy[] => {
+  const saved = localStorage.getItem(APPROVAL_POLICIES_STORAGE_KEY);
+  if (!saved) return DEFAULT_APPROVAL_POLICIES;
+  try {
+    return JSON.parse(saved);
+  } catch {
+    return DEFAULT_APPROVAL_POLICIES;
+  }
+};
+
+export const saveApprovalPolicies = (policies: ApprovalPolicy[]) => {
+  localStorage.setItem(APPROVAL_POLICIES_STORAGE_KEY, JSON.stringify(policies));
+};
+
+export const hasConditions = (policy: ApprovalPolicy) =>
+  !!policy.minRecipients || policy.channels.length > 0 || policy.departments.length > 0;
+
+/** "120+ recipients, uses sms, reaches HR", or "" for a policy without conditions. */
+export const describeConditions = (policy: ApprovalPolicy) =>
+  [
+    policy.minRecipients && `${policy.minRecipients}+ recipients`,
+    policy.channels.length > 0 && `uses ${policy.channels.join(" or ")}`,
+    policy.departments.length > 0 && `reaches ${policy.departments.join(" or ")}`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+/** The sign-offs a notification needs under the current policies, in policy order. */
+export const getApprovalSteps = async (notification: NewNotification): Promise<ApprovalStep[]> => {
+  const policies = loadApprovalPolicies().filter((policy) => policy.enabled && hasConditions(policy));
+  if (policies.length === 0) return [];
+
+  const employeeIds = notification.recipients.map((recipient) => recipient.employeeId).filter(Boolean);
+  const departments = new Set((await employeeDirectory.getMany(employeeIds)).map((employee) => employee.department));
+
+  return policies.flatMap((policy) => {
+    const reasons: string[] = [];
+    if (policy.minRecipients) {
+      if (notification.recipients.length < policy.minRecipients) return [];
+      reasons.push(`${notification.recipients.length} recipients`);
+    }
+    if (policy.channels.length > 0) {
+      const used = policy.channels.filter((channel) => notification.channels.includes(channel));
+      if (used.length === 0) return [];
+      reasons.push(`uses ${used.join(", ")}`);
+    }
+    if (policy.departments.length > 0) {
+      const reached = policy.departments.filter((department) => departments.has(department));
+      if (reached.length === 0) return [];
+      reasons.push(`reaches ${reached.join(", ")}`);
+    }
+    return [{ policyId: policy.id, name: policy.name, approvers: policy.approvers, reason: reasons.join(", ") }];
+  });
+};
+
+/** Attaches an approval request when any policy applies; otherwise returns the notification unchanged. */
+export const requestApproval = async (notification: NewNotification): Promise<NewNotification> => {
+  const steps = await getApprovalSteps(notification);
+  if (steps.length === 0) return notification;
+  const submitted = { at: new Date(), action: "submitted" as const, actor: notification.createdBy?.name };
+  return { ...notification, approval: { steps, trail: [submitted] } };
+};
+
+export const getCurrentStep = (notification: Notification) =>
+  notification.approval?.steps.find((step) => !step.decision);
+
+// Approved notifications go out as they would have without approval: now, or at their scheduled time
+const release = async (notification: Notification) => {
+  if (notification.schedule && notification.schedule.sendAt > new Date()) {
+    return notificationRepository.update({ ...notification, status: "scheduled" });
+  }
+  return dispatchNotification(notification);
+};
+
+// Re-read before acting: another approver may have decided since the UI loaded it
+const getAwaiting = async (id: string, status: Notification["status"]) => {
+  const notification = await notificationRepository.get(id);
+  if (notification?.status !== status) {
+    throw new Error(
+      status === "pending_approval" ? "This notification is no longer awaiting approval" : "This notification cannot be resubmitted"
+    );
+  }
+  return notification;
+};
+
+/**
+ * Records an approver's decision on the current step. Rejecting or
+ * requesting changes stops the workflow; approving the last step sends the
+ * notification.
+ */
+export const decideApproval = async (
+  id: string,
+  decision: ApprovalDecision,
+  approver: NotificationAuthor,
+  comment?: string
+): Promise<Notification> => {
+  const notification = await getAwaiting(id, "pending_approval");
+  if (decision === "approved" && notification.createdBy?.userId === approver.userId) {
+    throw new Error("You cannot approve a notification you sent");
+  }
+  const step = getCurrentStep(notification);
+  const decided: Notification = {
+    ...notification,
+    approval: {
+      steps: notification.approval.steps.map((candidate) =>
+        candidate === step ? { ...candidate, decision } : candidate
+      ),
+      trail: [...notification.approval.trail, { at: new Date(), action: decision, actor: approver.name, stepName: step?.name, comment }],
+    },
+  };
+
+  if (decision !== "approved") {
+    return notificationRepository.update({ ...decided, status: decision });
+  }
+  if (getCurrentStep(decided)) {
+    return notificationRepository.update(decided);
+  }
+  return release(decided);
+};
+
+/**
+ * Replaces the content of a notification sent back for changes and starts
+ * the approval again under the current policies. The earlier trail is kept.
+ */
+export const resubmitNotification = async (id: string, revised: NewNotification): Promise<Notification> => {
+  const notification = await getAwaiting(id, "changes_requested");
+  const steps = await getApprovalSteps(revised);
+  const resubmitted: Notification = {
+    ...notification,
+    ...revised,
+    sentAt: revised.schedule?.sendAt ?? new Date(),
+    approval: {
+      steps,
+      trail: [...notification.approval.trail, { at: new Date(), action: "resubmitted", actor: revised.createdBy?.name }],
+    },
+  };
+
+  if (steps.length === 0) {
+    return release(resubmitted);
+  }
+  return notificationRepository.update({ ...resubmitted, status: "pending_approval" });
+};
@@ -0,0 +1,162 @@
+import type { Employee } from "./employees";
+
+export type RuleField = "department" | "role" | "location" | "status" | "startDate" | "manager";
+
+export type RuleOperator =
+  | "isAnyOf"
+  | "isNoneOf"
+  | "before"
+  | "after"
+  | "between"
+  | "reportsDirectlyTo"
+  | "reportsTo";
+
+export interface RuleCondition {
+  type: "condition";
+  id: string;
+  field: RuleField;
+  operator: RuleOperator;
+  // Attribute values, ISO dates ([from, to] for "between") or manager employee IDs
+  values: string[];
+  // Display names for manager IDs, kept so summaries read well without a lookup
+  labels?: Record<string, string>;
+}
+
+export interface RuleGroup {
+  type: "group";
+  id: string;
+  combinator: "and" | "or";
+  // Matches everyone the group itself would not
+  negate?: boolean;
+  rules: AudienceRule[];
+}
+
+export type AudienceRule = RuleCondition | RuleGroup;
+
+export const RULE_FIELDS: Record<RuleField, { label: string; operators: RuleOperator[] }> = {
+  department: { label: "Department", operators: ["isAnyOf", "isNoneOf"] },
+  role: { label: "Role", operators: ["isAnyOf", "isNoneOf"] },
+  location: { label: "Location", operators: ["isAnyOf", "isNoneOf"] },
+  status: { label: "Status", operators: ["isAnyOf", "isNoneOf"] },
+  startDate: { label: "Start date", operators: ["after", "before", "between"] },
+  manager: { label: "Manager", operators: ["reportsTo", "reportsDirectlyTo"] },
+};
+
+export const OPERATOR_LABELS: Record<RuleOperator, string> = {
+  isAnyOf: "is",
+  isNoneOf: "is not",
+  before: "before",
+  after: "on or after",
+  between: "between",
+  reportsDirectlyTo: "is directly",
+  reportsTo: "is anywhere under",
+};
+
+export const createCondition = (field: RuleField = "department"): RuleCondition => ({
+  type: "condition",
+  id: crypto.randomUUID(),
+  field,
+  operator: RULE_FIELDS[field].operators[0],
+  values: [],
+});
+
+export const createRuleGroup = (combinator: RuleGroup["combinator"] = "and"): RuleGroup => ({
+  type: "group",
+  id: crypto.randomUUID(),
+  combinator,
+  rules: [],
+});
+
+// Conditions still being filled in are left out instead of matching nobody
+const isComplete = (condition: RuleCondition) =>
+  condition.operator === "between"
+    ? Boolean(condition.values[0] || condition.values[1])
+    : condition.values.some(Boolean);
+
+/** Whether the rule constrains anyone at all. */
+export const hasActiveRules = (rule: AudienceRule | undefined): boolean =>
+  !!rule && (rule.type === "condition" ? isComplete(rule) : rule.rules.some(hasActiveRules));
+
+/**
+ * Looks up an employee's chain of managers, nearest first. Built once per
+ * evaluation so hierarchy rules do not walk the roster for every employee.
+ */
+export const createManagerLookup = (employees: Employee[]) => {
+  const managerOf = new Map(employees.map((employee) => [employee.id, employee.managerId]));
+  return (employeeId: string) => {
+    const chain: string[] = [];
+    let managerId = managerOf.get(employeeId);
+    // Stop on cycles in badly imported data
+    while (managerId && !chain.includes(managerId)) {
+      chain.push(managerId);
+      managerId = managerOf.get(managerId);
+    }
+    return chain;
+  };
+};
+
+export type ManagerLookup = ReturnType<typeof createManagerLookup>;
+
+const matchesCondition = (condition: RuleCondition, employee: Employee, managersOf: ManagerLookup) => {
+  const { operator, values } = condition;
+  switch (condition.field) {
+    case "startDate": {
+      // ISO dates compare correctly as strings
+      const startDate = employee.startDate;
+      if (!startDate) return false;
+      if (operator === "before") return startDate < values[0];
+      if (operator === "after") return startDate >= values[0];
+      return (!values[0] || startDate >= values[0]) && (!values[1] || startDate <= values[1]);
+    }
+    case "manager": {
+      const chain = managersOf(employee.id);
+      return operator === "reportsDirectlyTo"
+        ? values.includes(chain[0])
+        : chain.some((managerId) => values.includes(managerId));
+    }
+    default: {
+      const included = values.includes(employee[condition.field]);
+      return operator === "isNoneOf" ? !included : included;
+    }
+  }
+};
+
+/** Evaluates a rule tree against one employee. Groups without active rules match everyone. */
+export const evaluateRule = (rule: AudienceRule, employee: Employee, managersOf: ManagerLookup): boolean => {
+  if (rule.type === "condition") {
+    return matchesCondition(rule, employee, managersOf);
+  }
+
+  const active = rule.rules.filter(hasActiveRules);
+  const matches =
+    active.length === 0 ||
+    (rule.combinator === "and"
+      ? active.every((child) => evaluateRule(child, employee, managersOf))
+      : active.some((child) => evaluateRule(child, employee, managersOf)));
+  return rule.negate ? !matches : matches;
+};
+
+/** Plain-language summary, e.g. `department is IT or Ops and status is not on-leave`. */
+export const describeRule = (rule: AudienceRule): string => {
+  if (rule.type === "condition") {
+    const { field, operator, values } = rule;
+    const label = RULE_FIELDS[field].label.toLowerCase();
+    if (operator === "between") {
+      if (!values[1]) return `${label} on or after ${values[0]}`;
+      if (!values[0]) return `${label} on or before ${values[1]}`;
+      return `${label} between ${values[0]} and ${values[1]}`;
+    }
+    const shown = values.map((value) => rule.labels?.[value] ?? value);
+    const subject = field === "manager" ? "reports" : label;
+    const verb =
+      operator === "reportsDirectlyTo" ? "directly to" : operator === "reportsTo" ? "to" : OPERATOR_LABELS[operator];
+    return `${subject} ${verb} ${shown.join(" or ")}`;
+  }
+
+  const parts = rule.rules.filter(hasActiveRules).map((child) => {
+    const text = describeRule(child);
+    return child.type === "group" && !child.negate ? `(${text})` : text;
+  });
+  const text = parts.join(` ${rule.combinator} `);
+  return rule.negate ? `not (${text})` : text;
+};
@@ -0,0 +1,31 @@
+import type { NotificationAudience } from "@/components/NotificationCenter";
+import type { Employee } from "./employees";
+import { expandGroups } from "./recipient-groups";
+import { resolveSegments } from "./segments";
+import { toRecipientRef, uniqueRecipients } from "./recipients";
+
+/**
+ * Resolves an audience as of now: the individually picked recipients plus
+ * whoever currently matches its segments or belongs to its groups. The
+ * returned audience carries the fresh resolution time and group expansion.
+ * With `departments`, segment and group members outside them are left out,
+ * since a shared segment or group can reach further than the sender may.
+ */
+export const resolveAudience = async (audience: NotificationAudience, departments?: string[]) => {
+  const segmentMembers = await resolveSegments(audience.segments);
+  const { employees: groupMembers, expansions } = await expandGroups(
+    (audience.groups ?? []).map((group) => group.id)
+  );
+
+  const members = new Map<string, Employee>();
+  [...segmentMembers, ...groupMembers]
+    .filter((employee) => !departments || departments.includes(employee.department))
+    .forEach((employee) => members.set(employee.id, employee));
+
+  return {
+    // Segment and group members only; individuals are already known to the caller
+    members: Array.from(members.values()),
+    recipients: uniqueRecipients([...audience.individuals, ...Array.from(members.values()).map(toRecipientRef)]),
+    audience: { ...audience, resolvedAt: new Date(), groupExpansions: expansions },
+  };
+};
@@ -0,0 +1,142 @@
+import type { Notification, NotificationAuthor } from "@/components/NotificationCenter";
+import type { EmployeeFilter } from "./employee-directory";
+import type { RuleCondition } from "./audience-rules";
+
+export type Role = "composer" | "approver" | "auditor" | "admin";
+
+export type Permission =
+  // Write and send notifications
+  | "compose"
+  // Sign off on notifications held by an approval policy
+  | "approve"
+  // See every notification in History, not just one's own and one's department's, and the outbox
+  | "viewAllHistory"
+  // Edit approval policies and import the employee roster
+  | "administer";
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  composer: ["compose"],
+  approver: ["approve"],
+  auditor: ["viewAllHistory"],
+  admin: ["compose", "approve", "viewAllHistory", "administer"],
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  composer: "Composer",
+  approver: "Approver",
+  auditor: "Auditor",
+  admin: "Admin",
+};
+
+export interface AppUser {
+  id: string;
+  name: string;
+  email: string;
+  department: string;
+  roles: Role[];
+  // Departments a composer may send to; their own department when unset. Admins may send anywhere.
+  targetDepartments?: string[];
+}
+
+export const toAuthor = (user: AppUser): NotificationAuthor => ({
+  userId: user.id,
+  name: user.name,
+  department: user.department,
+});
+
+export const can = (user: AppUser | null | undefined, permission: Permission) =>
+  !!user && user.roles.some((role) => ROLE_PERMISSIONS[role].includes(permission));
+
+/**
+ * Auditors and admins see every notification; everyone else sees their own
+ * and their department's. Notifications from before sign-in existed have no
+ * author and are only visible to the former.
+ */
+export const canViewNotification = (user: AppUser | null | undefined, notification: Notification) => {
+  if (can(user, "viewAllHistory")) return true;
+  const author = notification.createdBy;
+  return !!user && !!author && (author.userId === user.id || author.department === user.department);
+};
+
+/** Sending early, rescheduling, cancelling, retrying and reminding are for the author, or an admin. */
+export const canManageNotification = (user: AppUser | null | undefined, notification: Notification) =>
+  can(user, "compose") && (user.roles.includes("admin") || notification.createdBy?.userId === user.id);
+
+/** Departments the user may send to, or undefined when they are not restricted. */
+export const getAllowedDepartments = (user: AppUser | null | undefined) => {
+  if (!user || user.roles.includes("admin")) return undefined;
+  return user.targetDepartments ?? [user.department];
+};
+
+/** Narrows an employee filter to the given departments, keeping any rules it already has. */
+export const scopeFilter = (filter: EmployeeFilter, departments: string[] | undefined): EmployeeFilter => {
+  if (!departments) return filter;
+  const scope: RuleCondition = {
+    type: "condition",
+    id: "department-scope",
+    field: "department",
+    operator: "isAnyOf",
+    values: departments,
+  };
+  return {
+    ...filter,
+    rules: {
+      type: "group",
+      id: "department-scope-group",
+      combinator: "and",
+      rules: filter.rules ? [scope, filter.rules] : [scope],
+    },
+  };
+};
+
+export interface AuthProvider {
+  getCurrentUser: () => Promise<AppUser | null>;
+  // Users offered on the sign-in screen
+  listUsers: () => Promise<AppUser[]>;
+  signIn: (userId: string) => Promise<AppUser>;
+  signOut: () => Promise<void>;
+}
+
+// Stand-ins for development, matching people in public/employees.json
+export const DEV_USERS: AppUser[] = [
+  { id: "15", name: "Olivia White", email: "olivia@company.com", department: "HR", roles: ["admin"] },
+  { id: "3", name: "Carol Williams", email: "carol@company.com", department: "HR", roles: ["approver"] },
+  { id: "2", name: "Bob Smith", email: "bob@company.com", department: "IT", roles: ["composer"] },
+  {
+    id: "6",
+    name: "Frank Garcia",
+    email: "frank@company.com",
+    department: "Sales",
+    roles: ["composer", "approver"],
+    targetDepartments: ["Sales", "Operations"],
+  },
+  { id: "11", name: "Karen Davis", email: "karen@company.com", department: "HR", roles: ["auditor"] },
+];
+
+const CURRENT_USER_STORAGE_KEY = "notification_current_user";
+
+// Trusts whoever picks a user; replace with a provider backed by real sign-in before deploying
+export const createLocalAuthProvider = (users: AppUser[]): AuthProvider => ({
+  getCurrentUser: async () => users.find((user) => user.id === localStorage.getItem(CURRENT_USER_STORAGE_KEY)) ?? null,
+  listUsers: async () => users,
+  signIn: async (userId) => {
+    const user = users.find((candidate) => candidate.id === userId);
+    if (!user) throw new Error("Unknown user");
+    localStorage.setItem(CURRENT_USER_STORAGE_KEY, user.id);
+    return user;
+  },
+  signOut: async () => localStorage.removeItem(CURRENT_USER_STORAGE_KEY),
+});
+
+export const authProvider: AuthProvider = createLocalAuthProvider(DEV_USERS);
+
+/**
+ * Departments the author of a notification may send to, looked up when it is
+ * dispatched. Authors who are no longer a known user keep only their own
+ * department; notifications from before sign-in have no author and no limit.
+ */
+export const getAuthorDepartments = async (author: NotificationAuthor | undefined) => {
+  if (!author) return undefined;
+  const user = (await authProvider.listUsers()).find((candidate) => candidate.id === author.userId);
+  return user ? getAllowedDepartments(user) : [author.department];
+};
@@ -0,0 +1,44 @@
+import type { NotificationChannel } from "@/components/NotificationCenter";
+import type { ChannelTransport, OutboundMessage, TransportResult } from "./transports";
+import { idbClear, idbGetAll, idbPut } from "./idb";
+
+export interface OutboxEntry extends OutboundMessage {
+  id: string;
+  capturedAt: Date;
+  result: TransportResult;
+}
+
+const checkAddress = (message: OutboundMessage): TransportResult | null => {
+  if (message.channel === "email" && !message.to.email) {
+    return { status: "bounced", reason: "No email address on file" };
+  }
+  if (message.channel === "sms" && !message.to.phone) {
+    return { status: "failed", reason: "No phone number on file" };
+  }
+  return null;
+};
+
+/**
+ * Local stand-in transport: instead of contacting a provider it records every
+ * message in the browser's outbox so delivery flows can be inspected end to end.
+ */
+export const createCaptureTransport = (channel: NotificationChannel): ChannelTransport => ({
+  name: `local-capture:${channel}`,
+  send: async (message) => {
+    const id = crypto.randomUUID();
+    const result: TransportResult = checkAddress(message) ?? {
+      status: "delivered",
+      providerMessageId: id,
+    };
+
+    await idbPut<OutboxEntry>("outbox", { ...message, id, capturedAt: new Date(), result });
+    return result;
+  },
+});
+
+export const listOutbox = async () => {
+  const entries = await idbGetAll<OutboxEntry>("outbox");
+  return entries.sort((a, b) => b.capturedAt.getTime() - a.capturedAt.getTime());
+};
+
+export const clearOutbox = () => idbClear("outbox");
@@ -0,0 +1,159 @@
+import { format } from "date-fns";
+import type { Notification, RecipientRef } from "@/components/NotificationCenter";
+import { findResponse, getResponseOptions, isLateResponse } from "./acknowledgements";
+import { wasReceived } from "./delivery-status";
+import { recipientKey } from "./recipients";
+import { getRecipientReminders } from "./reminders";
+
+// "not_reached" recipients had every delivery skipped or deferred, so they could not respond
+export type ComplianceStatus = "responded" | "pending" | "not_reached";
+
+export interface ComplianceRow {
+  recipient: RecipientRef;
+  status: ComplianceStatus;
+  selectedOption?: string;
+  comment?: string;
+  respondedAt?: Date;
+  // Responded after the deadline
+  late: boolean;
+  // Past the deadline without a response
+  overdue: boolean;
+  remindersSent: number;
+  lastReminderAt?: Date;
+  // Only notices that reached the manager; skipped and failed ones do not count
+  escalated: boolean;
+  escalatedAt?: Date;
+}
+
+export interface ComplianceReport {
+  notification: Notification;
+  generatedAt: Date;
+  rows: ComplianceRow[];
+  summary: {
+    total: number;
+    responded: number;
+    pending: number;
+    notReached: number;
+    overdue: number;
+    late: number;
+    // Share of reached recipients who responded, 0-100
+    responseRate: number;
+    byOption: { option: string; count: number }[];
+  };
+}
+
+export const COMPLIANCE_STATUS_LABELS: Record<ComplianceStatus, string> = {
+  responded: "Responded",
+  pending: "Pending",
+  not_reached: "Not reached",
+};
+
+// Notifications from before deliveries were tracked count everyone as reached
+const wasReached = (notification: Notification, recipient: RecipientRef) =>
+  !notification.deliveries ||
+  notification.deliveries.some(
+    (delivery) => recipientKey(delivery.recipient) === recipientKey(recipient) && wasReceived(delivery.status)
+  );
+
+/** Every recipient's acknowledgement as of `now`, with totals for the summary header. */
+export const buildComplianceReport = (notification: Notification, now = new Date()): ComplianceReport => {
+  const deadline = notification.acknowledgementSettings?.deadline;
+  const rows = notification.recipients.map((recipient): ComplianceRow => {
+    const response = findResponse(notification, recipient);
+    // Skipped and failed reminders never reached the recipient
+    const reminders = getRecipientReminders(notification, recipient).filter((reminder) =>
+      wasReceived(reminder.status)
+    );
+    const status: ComplianceStatus = response
+      ? "responded"
+      : wasReached(notification, recipient)
+        ? "pending"
+        : "not_reached";
+    const escalation = (notification.escalations ?? []).find(
+      (record) =>
+        wasReceived(record.status) && record.reports.some((report) => recipientKey(report) === recipientKey(recipient))
+    );
+    return {
+      recipient,
+      status,
+      selectedOption: response?.selectedOption,
+      comment: response?.comment,
+      respondedAt: response?.respondedAt,
+      late: !!response && isLateResponse(notification, response),
+      overdue: status === "pending" && !!deadline && deadline < now,
+      remindersSent: reminders.length,
+      lastReminderAt: reminders.length > 0 ? reminders[reminders.length - 1].at : undefined,
+      escalated: !!escalation,
+      escalatedAt: escalation?.at,
+    };
+  });
+
+  const count = (predicate: (row: ComplianceRow) => boolean) => rows.filter(predicate).length;
+  const responded = count((row) => row.status === "responded");
+  const notReached = count((row) => row.status === "not_reached");
+  const reached = rows.length - notReached;
+
+  return {
+    notification,
+    generatedAt: now,
+    rows,
+    summary: {
+      total: rows.length,
+      responded,
+      pending: count((row) => row.status === "pending"),
+      notReached,
+      overdue: count((row) => row.overdue),
+      late: count((row) => row.late),
+      responseRate: reached > 0 ? Math.round((responded / reached) * 100) : 0,
+      byOption: getResponseOptions(notification).map((option) => ({
+        option,
+        count: count((row) => row.selectedOption === option),
+      })),
+    },
+  };
+};
+
+const formatTimestamp = (date: Date | undefined) => (date ? format(date, "yyyy-MM-dd HH:mm") : "");
+
+const CSV_COLUMNS: { header: string; value: (row: ComplianceRow) => string }[] = [
+  { header: "Employee ID", value: (row) => row.recipient.employeeId ?? "" },
+  { header: "Name", value: (row) => row.recipient.name },
+  { header: "Email", value: (row) => row.recipient.email ?? "" },
+  { header: "Status", value: (row) => COMPLIANCE_STATUS_LABELS[row.status] },
+  { header: "Selected Option", value: (row) => row.selectedOption ?? "" },
+  { header: "Comment", value: (row) => row.comment ?? "" },
+  { header: "Responded At", value: (row) => formatTimestamp(row.respondedAt) },
+  { header: "Late", value: (row) => (row.late ? "Yes" : "No") },
+  { header: "Overdue", value: (row) => (row.overdue ? "Yes" : "No") },
+  { header: "Reminders Sent", value: (row) => String(row.remindersSent) },
+  { header: "Last Reminder At", value: (row) => formatTimestamp(row.lastReminderAt) },
+  { header: "Escalated To Manager", value: (row) => (row.escalated ? "Yes" : "No") },
+  { header: "Escalated At", value: (row) => formatTimestamp(row.escalatedAt) },
+];
+
+// Quotes every cell; a leading =, +, - or @ is neutralized so spreadsheets do not run it as a formula
+const toCsvCell = (value: string) => `"${value.replace(/^([=+\-@])/, "'$1").replace(/"/g, '""')}"`;
+
+export const toComplianceCsv = (report: ComplianceReport) => {
+  const header = CSV_COLUMNS.map((column) => column.header);
+  const rows = report.rows.map((row) => CSV_COLUMNS.map((column) => column.value(row)));
+  return [header, ...rows].map((cells) => cells.map(toCsvCell).join(",")).join("\r\n");
+};
+
+/** "compliance-quarterly-policy-update-2026-10-19", also used as the suggested PDF name when printing. */
+export const getComplianceFileName = (report: ComplianceReport) => {
+  const slug = report.notification.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `compliance-${slug || report.notification.id}-${format(report.generatedAt, "yyyy-MM-dd")}`;
+};
+
+/** Saves the report as a CSV file through the browser; the byte order mark makes Excel read it as UTF-8. */
+export const downloadComplianceCsv = (report: ComplianceReport) => {
+  const blob = new Blob(["\uFEFF", toComplianceCsv(report)], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${getComplianceFileName(report)}.csv`;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
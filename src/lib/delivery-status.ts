@@ -0,0 +1,56 @@
+import type {
+  DeliveryRecord,
+  DeliveryStatus,
+  Notification,
+  NotificationStatus,
+} from "@/components/NotificationCenter";
+
+export const isFailedDelivery = (status: DeliveryStatus) =>
+  status === "failed" || status === "bounced";
+
+// Reached the recipient as far as the transport can tell
+export const wasReceived = (status: DeliveryStatus) => status === "sent" || status === "delivered";
+
+const UNSENT_STATUSES: NotificationStatus[] = [
+  "scheduled",
+  "cancelled",
+  "pending_approval",
+  "changes_requested",
+  "rejected",
+];
+
+/** False for notifications that have not gone out (yet), so there is nothing to remind or retry. */
+export const hasBeenSent = (status: NotificationStatus) => !UNSENT_STATUSES.includes(status);
+
+/**
+ * Derives the notification-level status from its per-recipient deliveries.
+ * Notifications without delivery records (scheduled, cancelled or stored
+ * before deliveries were tracked) keep the status they have. Skipped and
+ * deferred deliveries are left out; a notification with nothing else is
+ * pending while anything is deferred and sent once all of it was skipped.
+ */
+export const rollupStatus = (notification: Notification): NotificationStatus => {
+  const all = notification.deliveries ?? [];
+  if (all.length === 0) return notification.status;
+
+  const deliveries = all.filter((delivery) => delivery.status !== "skipped" && delivery.status !== "deferred");
+  if (deliveries.length === 0) {
+    return all.some((delivery) => delivery.status === "deferred") ? "pending" : "sent";
+  }
+
+  if (deliveries.some((delivery) => delivery.status === "queued")) return "pending";
+
+  const failed = deliveries.filter((delivery) => isFailedDelivery(delivery.status)).length;
+  if (failed === deliveries.length) return "failed";
+  if (failed > 0) return "partial";
+  return "sent";
+};
+
+export const countDeliveriesByStatus = (deliveries: DeliveryRecord[]) =>
+  deliveries.reduce(
+    (counts, delivery) => {
+      counts[delivery.status] += 1;
+      return counts;
+    },
+    { queued: 0, sent: 0, delivered: 0, bounced: 0, failed: 0, skipped: 0, deferred: 0 } as Record<DeliveryStatus, number>
+  );
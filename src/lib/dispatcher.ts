@@ -0,0 +1,297 @@
+import type { DeliveryRecord, Notification, NotificationChannel, RecipientRef } from "@/components/NotificationCenter";
+import { notificationRepository, updateLatestNotification } from "./notification-repository";
+import { sendMessage, type OutboundMessage, type OutboundRecipient, type TransportResult } from "./transports";
+import { getTemplateContext, type Employee } from "./employees";
+import { employeeDirectory } from "./employee-directory";
+import { renderTemplate, type TemplateContext } from "./template";
+import { sanitizeHtml } from "./sanitize-html";
+import { resolveAudience } from "./audience";
+import { isFailedDelivery, rollupStatus } from "./delivery-status";
+import { getNextRetryAt, loadRetryPolicy, type RetryPolicy } from "./retry-policy";
+import { checkEligibility, loadEligibilityPolicy, type EligibilityPolicy } from "./eligibility";
+import { createResponseToken, getResponseUrl, needsResponseLink } from "./acknowledgements";
+import { recipientKey } from "./recipients";
+import { getAuthorDepartments } from "./auth";
+
+type MessageSource = Pick<Notification, "id" | "title" | "message" | "channelMessages">;
+
+// Current contact details win over the snapshot taken when the notification was addressed
+const resolveRecipient = async (
+  recipient: RecipientRef
+): Promise<{ to: OutboundRecipient; context: TemplateContext }> => {
+  const employee = recipient.employeeId ? await employeeDirectory.get(recipient.employeeId) : undefined;
+  return {
+    to: {
+      name: employee?.name ?? recipient.name,
+      email: employee?.email ?? recipient.email,
+      phone: employee?.phone,
+    },
+    context: employee ? await getTemplateContext(employee) : { name: recipient.name },
+  };
+};
+
+const buildMessage = (
+  notification: MessageSource,
+  channel: NotificationChannel,
+  to: OutboundRecipient,
+  context: TemplateContext,
+  responseToken?: string
+): OutboundMessage => {
+  const channelMessage = notification.channelMessages?.[channel];
+  const body = channelMessage?.content ?? notification.message;
+  const rendered =
+    renderTemplate(body, context, { html: channel !== "sms" }).output +
+    (responseToken ? `<p><a href="${getResponseUrl(responseToken)}">Respond to this notification</a></p>` : "");
+  return {
+    notificationId: notification.id,
+    channel,
+    to,
+    subject: renderTemplate(notification.title, context).output,
+    // Sanitized after rendering so recipient data cannot introduce unsafe links
+    body: channel === "sms" ? rendered : sanitizeHtml(rendered),
+    attachments: channelMessage && "attachments" in channelMessage ? channelMessage.attachments : [],
+  };
+};
+
+const applyResult = (
+  delivery: DeliveryRecord,
+  result: TransportResult,
+  policy: RetryPolicy
+): DeliveryRecord => {
+  const at = new Date();
+  const reason = "reason" in result ? result.reason : undefined;
+  const attempts = [...(delivery.attempts ?? []), { at, status: result.status, reason }];
+
+  return {
+    ...delivery,
+    status: result.status,
+    reason,
+    providerMessageId: "providerMessageId" in result ? result.providerMessageId : undefined,
+    updatedAt: at,
+    attempts,
+    nextRetryAt: isFailedDelivery(result.status)
+      ? getNextRetryAt(policy, attempts.length, at)
+      : undefined,
+  };
+};
+
+/** The message one recipient gets on one channel, rendered with their current details. */
+export const renderMessageFor = async (
+  notification: MessageSource,
+  channel: NotificationChannel,
+  recipient: RecipientRef,
+  responseToken?: string
+): Promise<OutboundMessage> => {
+  const { to, context } = await resolveRecipient(recipient);
+  return buildMessage(notification, channel, to, context, responseToken);
+};
+
+const deliver = async (notification: Notification, delivery: DeliveryRecord, policy: RetryPolicy) => {
+  // Retries reuse the token so a link from an earlier attempt keeps working
+  const prepared = needsResponseLink(notification, delivery)
+    ? { ...delivery, responseToken: delivery.responseToken ?? createResponseToken() }
+    : delivery;
+  // A directory or rendering error fails only this pair, so it is retried instead of left queued
+  let result: TransportResult;
+  try {
+    const message = await renderMessageFor(notification, delivery.channel, delivery.recipient, prepared.responseToken);
+    result = await sendMessage(message);
+  } catch (error) {
+    result = { status: "failed", reason: error instanceof Error ? error.message : "Could not prepare the message" };
+  }
+  return applyResult(prepared, result, policy);
+};
+
+const deliveryKey = (delivery: DeliveryRecord) => `${recipientKey(delivery.recipient)}:${delivery.channel}`;
+
+// Swaps the deliveries this step sent into the latest copy; read and archive state belong to the recipient
+const mergeDeliveries = (current: Notification, sent: DeliveryRecord[]): Notification => {
+  const sentByKey = new Map(sent.map((delivery) => [deliveryKey(delivery), delivery]));
+  const deliveries = (current.deliveries ?? []).map((delivery) => {
+    const updated = sentByKey.get(deliveryKey(delivery));
+    return updated ? { ...updated, readAt: delivery.readAt, archivedAt: delivery.archivedAt } : delivery;
+  });
+  const merged = { ...current, deliveries };
+  return { ...merged, status: rollupStatus(merged) };
+};
+
+const loadEmployees = async (recipients: RecipientRef[]) => {
+  const ids = Array.from(new Set(recipients.map((recipient) => recipient.employeeId).filter(Boolean)));
+  return new Map((await employeeDirectory.getMany(ids)).map((employee) => [employee.id, employee]));
+};
+
+// Recipients missing from the directory cannot be checked and are sent to as before
+const applyEligibility = (
+  delivery: DeliveryRecord,
+  employee: Employee | undefined,
+  policy: EligibilityPolicy,
+  at: Date
+): DeliveryRecord => {
+  const decision = employee
+    ? checkEligibility(employee, [delivery.channel], policy, at).decisions[delivery.channel]
+    : { action: "send" as const };
+
+  switch (decision.action) {
+    // A failed delivery that is skipped or held now is no longer up for an automatic retry
+    case "skip":
+      return {
+        ...delivery,
+        status: "skipped",
+        reason: decision.reason,
+        deferredUntil: undefined,
+        nextRetryAt: undefined,
+        updatedAt: at,
+      };
+    case "defer":
+      return {
+        ...delivery,
+        status: "deferred",
+        reason: decision.reason,
+        deferredUntil: decision.until,
+        nextRetryAt: undefined,
+        updatedAt: at,
+      };
+    default:
+      return { ...delivery, status: "queued", reason: undefined, deferredUntil: undefined, updatedAt: at };
+  }
+};
+
+/**
+ * Delivers a stored notification now. Segment and group audiences are
+ * resolved again first, within the departments the author may send to,
+ * then every recipient/channel pair is checked against the eligibility
+ * rules: eligible pairs are recorded as queued and updated with their
+ * transport's result, the rest as skipped or deferred.
+ */
+export const dispatchNotification = async (notification: Notification): Promise<Notification> => {
+  const resolved =
+    notification.audience &&
+    (await resolveAudience(notification.audience, await getAuthorDepartments(notification.createdBy)));
+  const recipients = resolved?.recipients ?? notification.recipients;
+
+  const now = new Date();
+  // A deleted group or segment, or rules that match nobody now, would otherwise leave it pending forever
+  if (recipients.length === 0) {
+    return updateLatestNotification(notification.id, (current) => ({
+      ...current,
+      recipients,
+      audience: resolved?.audience,
+      status: "failed",
+      sentAt: now,
+      deliveries: [],
+      failureReason: "The audience did not match anyone at send time",
+    }));
+  }
+
+  const employees = await loadEmployees(recipients);
+  const eligibilityPolicy = loadEligibilityPolicy();
+
+  const queued: Notification = {
+    ...notification,
+    recipients,
+    audience: resolved?.audience,
+    status: "pending",
+    sentAt: now,
+    failureReason: undefined,
+    deliveries: recipients.flatMap((recipient) =>
+      notification.channels.map((channel) =>
+        applyEligibility(
+          { recipient, channel, status: "queued", updatedAt: now },
+          employees.get(recipient.employeeId),
+          eligibilityPolicy,
+          now
+        )
+      )
+    ),
+  };
+  await notificationRepository.update(queued);
+
+  const policy = loadRetryPolicy();
+  const deliveries: DeliveryRecord[] = [];
+  for (const delivery of queued.deliveries) {
+    deliveries.push(delivery.status === "queued" ? await deliver(notification, delivery, policy) : delivery);
+  }
+
+  return updateLatestNotification(notification.id, (current) => mergeDeliveries(current, deliveries));
+};
+
+/**
+ * Re-sends only the failed recipient/channel pairs of a notification.
+ * With `dueBy`, only deliveries whose automatic retry is due by then are sent.
+ * Each pair goes through the eligibility rules again first, so a retry can
+ * be skipped or deferred like a first send.
+ */
+export const retryFailedDeliveries = async (id: string, dueBy?: Date): Promise<Notification> => {
+  const notification = await notificationRepository.get(id);
+  if (!notification) {
+    throw new Error("Notification not found");
+  }
+
+  const shouldRetry = (delivery: DeliveryRecord) =>
+    isFailedDelivery(delivery.status) &&
+    (!dueBy || (!!delivery.nextRetryAt && delivery.nextRetryAt <= dueBy));
+
+  const employees = await loadEmployees((notification.deliveries ?? []).filter(shouldRetry).map((d) => d.recipient));
+  const eligibilityPolicy = loadEligibilityPolicy();
+  const policy = loadRetryPolicy();
+  const now = new Date();
+
+  const deliveries: DeliveryRecord[] = [];
+  for (const delivery of notification.deliveries ?? []) {
+    if (!shouldRetry(delivery)) {
+      deliveries.push(delivery);
+      continue;
+    }
+    const checked = applyEligibility(delivery, employees.get(delivery.recipient.employeeId), eligibilityPolicy, now);
+    deliveries.push(checked.status === "queued" ? await deliver(notification, checked, policy) : checked);
+  }
+
+  return updateLatestNotification(id, (current) => mergeDeliveries(current, deliveries));
+};
+
+/**
+ * Sends deferred deliveries whose hold has expired by `now`. Each one is
+ * checked against the eligibility rules again, so it can also be deferred
+ * further or skipped.
+ */
+export const releaseDeferredDeliveries = async (id: string, now = new Date()): Promise<Notification> => {
+  const notification = await notificationRepository.get(id);
+  if (!notification) {
+    throw new Error("Notification not found");
+  }
+
+  const isDue = (delivery: DeliveryRecord) =>
+    delivery.status === "deferred" && !!delivery.deferredUntil && delivery.deferredUntil <= now;
+
+  const due = (notification.deliveries ?? []).filter(isDue);
+  const employees = await loadEmployees(due.map((delivery) => delivery.recipient));
+  const eligibilityPolicy = loadEligibilityPolicy();
+  const policy = loadRetryPolicy();
+
+  const deliveries: DeliveryRecord[] = [];
+  for (const delivery of notification.deliveries ?? []) {
+    if (!isDue(delivery)) {
+      deliveries.push(delivery);
+      continue;
+    }
+    const checked = applyEligibility(delivery, employees.get(delivery.recipient.employeeId), eligibilityPolicy, now);
+    deliveries.push(checked.status === "queued" ? await deliver(notification, checked, policy) : checked);
+  }
+
+  return updateLatestNotification(id, (current) => mergeDeliveries(current, deliveries));
+};
+
+/** Sends a not-yet-saved notification to a single test recipient on each channel. */
+export const sendTestNotification = async (
+  notification: Omit<MessageSource, "id"> & Pick<Notification, "channels">,
+  to: OutboundRecipient,
+  context: TemplateContext
+) => {
+  const source = { ...notification, id: "test" };
+  return Promise.all(
+    notification.channels.map(async (channel) => ({
+      channel,
+      result: await sendMessage({ ...buildMessage(source, channel, to, context), isTest: true }),
+    }))
+  );
+};
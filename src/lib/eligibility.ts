@@ -0,0 +1,156 @@
+import type { NotificationChannel } from "@/components/NotificationCenter";
+import type { Employee } from "./employees";
+import { getLocalTimeZone, utcToZonedTime, zonedTimeToUtc } from "./timezones";
+
+export interface EligibilityPolicy {
+  // What happens to employees who are on leave when a notification goes out
+  onLeave: "portal-only" | "defer" | "skip";
+  // Hold email and SMS until an employee's quiet hours are over
+  respectQuietHours: boolean;
+}
+
+export const DEFAULT_ELIGIBILITY_POLICY: EligibilityPolicy = {
+  onLeave: "portal-only",
+  respectQuietHours: true,
+};
+
+const ELIGIBILITY_POLICY_STORAGE_KEY = "notification_eligibility_policy";
+
+export const loadEligibilityPolicy = (): EligibilityPolicy => {
+  const saved = localStorage.getItem(ELIGIBILITY_POLICY_STORAGE_KEY);
+  if (!saved) return DEFAULT_ELIGIBILITY_POLICY;
+  try {
+    return { ...DEFAULT_ELIGIBILITY_POLICY, ...JSON.parse(saved) };
+  } catch {
+    return DEFAULT_ELIGIBILITY_POLICY;
+  }
+};
+
+export const saveEligibilityPolicy = (policy: EligibilityPolicy) => {
+  localStorage.setItem(ELIGIBILITY_POLICY_STORAGE_KEY, JSON.stringify(policy));
+};
+
+// Portal messages wait in the inbox, so quiet hours never hold them back
+const INTERRUPTING_CHANNELS: NotificationChannel[] = ["email", "sms"];
+
+// Deferred on-leave messages go out at this local time on the day after the leave ends
+const RETURN_DELIVERY_TIME = "09:00";
+
+export type ChannelDecision =
+  | { action: "send" }
+  | { action: "skip"; reason: string }
+  | { action: "defer"; until: Date; reason: string };
+
+export interface RecipientEligibility {
+  employee: Employee;
+  decisions: Partial<Record<NotificationChannel, ChannelDecision>>;
+}
+
+const addDays = (day: Date, days: number) => new Date(day.getFullYear(), day.getMonth(), day.getDate() + days);
+
+/** End of the employee's current quiet hours, or undefined when they are not in them at `at`. */
+export const getQuietHoursEnd = (employee: Employee, at: Date) => {
+  const quietHours = employee.quietHours;
+  if (!quietHours) return undefined;
+
+  const { day, time } = utcToZonedTime(at, quietHours.timezone);
+  const { start, end } = quietHours;
+  // Windows like 21:00-07:00 wrap past midnight
+  const isQuiet = start <= end ? time >= start && time < end : time >= start || time < end;
+  if (!isQuiet) return undefined;
+
+  return zonedTimeToUtc(time < end ? day : addDays(day, 1), end, quietHours.timezone);
+};
+
+const getReturnDate = (employee: Employee) => {
+  if (!employee.leaveEndDate) return undefined;
+  const [year, month, date] = employee.leaveEndDate.split("-").map(Number);
+  return zonedTimeToUtc(
+    new Date(year, month - 1, date + 1),
+    RETURN_DELIVERY_TIME,
+    employee.quietHours?.timezone ?? getLocalTimeZone()
+  );
+};
+
+const decideChannel = (
+  employee: Employee,
+  channel: NotificationChannel,
+  policy: EligibilityPolicy,
+  at: Date
+): ChannelDecision => {
+  if (employee.status === "inactive") {
+    return { action: "skip", reason: "Employee is inactive" };
+  }
+  if (employee.channelOptOuts?.includes(channel)) {
+    return { action: "skip", reason: `Opted out of ${channel}` };
+  }
+
+  const returnDate = getReturnDate(employee);
+  // A leave end date that has passed means the employee is back, even if their status was never updated
+  const isOnLeave = employee.status === "on-leave" && !(returnDate && returnDate <= at);
+  if (isOnLeave) {
+    if (policy.onLeave === "skip") {
+      return { action: "skip", reason: "Employee is on leave" };
+    }
+    if (policy.onLeave === "defer" && returnDate) {
+      return { action: "defer", until: returnDate, reason: "Held until the employee returns from leave" };
+    }
+    // Without a known return date a deferral could wait forever, so fall back to the portal
+    if (channel !== "portal") {
+      return { action: "skip", reason: "On leave - portal only" };
+    }
+  }
+
+  if (policy.respectQuietHours && INTERRUPTING_CHANNELS.includes(channel)) {
+    const quietHoursEnd = getQuietHoursEnd(employee, at);
+    if (quietHoursEnd) {
+      return { action: "defer", until: quietHoursEnd, reason: "Held until the employee's quiet hours end" };
+    }
+  }
+
+  return { action: "send" };
+};
+
+/** Decides, per channel, whether the employee should get the notification at `at`. */
+export const checkEligibility = (
+  employee: Employee,
+  channels: NotificationChannel[],
+  policy: EligibilityPolicy,
+  at = new Date()
+): RecipientEligibility => ({
+  employee,
+  decisions: Object.fromEntries(channels.map((channel) => [channel, decideChannel(employee, channel, policy, at)])),
+});
+
+/**
+ * Groups eligibility results for the pre-send summary: recipients who get
+ * nothing, recipients with at least one deferred channel, and recipients who
+ * only lose some channels.
+ */
+export const summarizeEligibility = (results: RecipientEligibility[]) => {
+  const decisionsOf = (result: RecipientEligibility) => Object.values(result.decisions);
+  return {
+    skipped: results.filter((result) => decisionsOf(result).every((decision) => decision.action === "skip")),
+    deferred: results.filter((result) => decisionsOf(result).some((decision) => decision.action === "defer")),
+    limited: results.filter((result) => {
+      const decisions = decisionsOf(result);
+      return (
+        decisions.some((decision) => decision.action === "skip") &&
+        decisions.some((decision) => decision.action === "send") &&
+        !decisions.some((decision) => decision.action === "defer")
+      );
+    }),
+  };
+};
+
+export type EligibilitySummary = ReturnType<typeof summarizeEligibility>;
+
+/** "3 skipped, 2 deferred", or an empty string when everyone is eligible. */
+export const formatEligibilityCounts = (summary: EligibilitySummary) =>
+  [
+    summary.skipped.length > 0 && `${summary.skipped.length} skipped`,
+    summary.deferred.length > 0 && `${summary.deferred.length} deferred`,
+    summary.limited.length > 0 && `${summary.limited.length} on fewer channels`,
+  ]
+    .filter(Boolean)
+    .join(", ");
@@ -0,0 +1,229 @@
+import type { Employee } from "./employees";
+import { createManagerLookup, evaluateRule, hasActiveRules, type ManagerLookup, type RuleGroup } from "./audience-rules";
+import { idbGetAll, idbPutMany } from "./idb";
+
+export interface EmployeeFilter {
+  // Matches name, email, role and department
+  search?: string;
+  department?: string;
+  role?: string;
+  location?: string;
+  status?: Employee["status"];
+  // Rule tree built in the audience rule builder, combined with the fields above
+  rules?: RuleGroup;
+}
+
+export interface EmployeeQuery extends EmployeeFilter {
+  // 1-based
+  page?: number;
+  pageSize?: number;
+}
+
+export interface EmployeePage {
+  employees: Employee[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// Distinct values present in the directory, used for filter options
+export interface EmployeeFacets {
+  departments: string[];
+  roles: string[];
+  locations: string[];
+  statuses: Employee["status"][];
+}
+
+export interface EmployeeDirectory {
+  query(query: EmployeeQuery): Promise<EmployeePage>;
+  get(id: string): Promise<Employee | undefined>;
+  getMany(ids: string[]): Promise<Employee[]>;
+  facets(): Promise<EmployeeFacets>;
+  // Inserts new employees and replaces existing ones with the same id
+  upsertMany(employees: Employee[]): Promise<void>;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+// IDs per REST getMany request
+const GET_MANY_BATCH_SIZE = 100;
+
+const distinct = <T extends string>(values: T[]) =>
+  Array.from(new Set(values.filter(Boolean))).sort((a, b) => a.localeCompare(b));
+
+export const matchesFilter = (
+  employee: Employee,
+  query: EmployeeFilter,
+  managersOf: ManagerLookup = () => []
+) => {
+  const search = query.search?.trim().toLowerCase();
+  return (
+    (!search ||
+      [employee.name, employee.email, employee.role, employee.department].some((value) =>
+        value.toLowerCase().includes(search)
+      )) &&
+    (!query.department || employee.department === query.department) &&
+    (!query.role || employee.role === query.role) &&
+    (!query.location || employee.location === query.location) &&
+    (!query.status || employee.status === query.status) &&
+    (!hasActiveRules(query.rules) || evaluateRule(query.rules, employee, managersOf))
+  );
+};
+
+// Bundled roster used to fill an empty browser directory
+const SEED_URL = "/employees.json";
+
+export const createIndexedDbEmployeeDirectory = (): EmployeeDirectory => {
+  // The whole roster is small enough to filter in memory once loaded
+  let employeesPromise: Promise<Employee[]> | null = null;
+
+  const loadEmployees = () => {
+    if (!employeesPromise) {
+      employeesPromise = (async () => {
+        const stored = await idbGetAll<Employee>("employees");
+        if (stored.length > 0) return stored;
+
+        const response = await fetch(SEED_URL);
+        if (!response.ok) {
+          throw new Error(`Could not load the employee roster (status ${response.status})`);
+        }
+        const seed: Employee[] = await response.json();
+        await idbPutMany("employees", seed);
+        return seed;
+      })().catch((error) => {
+        employeesPromise = null;
+        throw error;
+      });
+    }
+    return employeesPromise;
+  };
+
+  return {
+    query: async (query) => {
+      const page = query.page ?? 1;
+      const pageSize = query.pageSize ?? DEFAULT_PAGE_SIZE;
+      const employees = await loadEmployees();
+      const managersOf = createManagerLookup(employees);
+      const matches = employees
+        .filter((employee) => matchesFilter(employee, query, managersOf))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      return {
+        employees: matches.slice((page - 1) * pageSize, page * pageSize),
+        total: matches.length,
+        page,
+        pageSize,
+      };
+    },
+    get: async (id) => (await loadEmployees()).find((employee) => employee.id === id),
+    getMany: async (ids) => {
+      const byId = new Map((await loadEmployees()).map((employee) => [employee.id, employee]));
+      return ids.map((id) => byId.get(id)).filter((employee) => employee !== undefined);
+    },
+    facets: async () => {
+      const employees = await loadEmployees();
+      return {
+        departments: distinct(employees.map((employee) => employee.department)),
+        roles: distinct(employees.map((employee) => employee.role)),
+        locations: distinct(employees.map((employee) => employee.location)),
+        statuses: distinct(employees.map((employee) => employee.status)),
+      };
+    },
+    upsertMany: async (employees) => {
+      // Make sure the seed is in place first so it does not overwrite the import
+      await loadEmployees();
+      await idbPutMany("employees", employees);
+      employeesPromise = null;
+    },
+  };
+};
+
+export const createRestEmployeeDirectory = (baseUrl: string): EmployeeDirectory => {
+  const send = (path: string, init?: RequestInit) =>
+    fetch(`${baseUrl.replace(/\/$/, "")}${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init?.headers },
+    });
+
+  const failed = (path: string, response: Response) =>
+    new Error(`Request to ${path} failed with status ${response.status}`);
+
+  const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    const response = await send(path, init);
+    if (!response.ok) {
+      throw failed(path, response);
+    }
+    return response.json();
+  };
+
+  const toSearchParams = (params: Record<string, string | number | undefined>) => {
+    const search = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") search.set(key, String(value));
+    });
+    return search.toString();
+  };
+
+  return {
+    query: (query) =>
+      request<EmployeePage>(
+        `/employees?${toSearchParams({
+          ...query,
+          rules: hasActiveRules(query.rules) ? JSON.stringify(query.rules) : undefined,
+          page: query.page ?? 1,
+          pageSize: query.pageSize ?? DEFAULT_PAGE_SIZE,
+        })}`
+      ),
+    get: async (id) => {
+      const path = `/employees/${encodeURIComponent(id)}`;
+      const response = await send(path);
+      // An outage must not look like "not in the directory", which skips the eligibility checks
+      if (response.status === 404) return undefined;
+      if (!response.ok) {
+        throw failed(path, response);
+      }
+      return response.json();
+    },
+    getMany: async (ids) => {
+      // Batched so a large send does not build a URL longer than servers and proxies accept
+      const employees: Employee[] = [];
+      for (let start = 0; start < ids.length; start += GET_MANY_BATCH_SIZE) {
+        const batch = ids.slice(start, start + GET_MANY_BATCH_SIZE);
+        employees.push(...(await request<Employee[]>(`/employees?${toSearchParams({ ids: batch.join(",") })}`)));
+      }
+      return employees;
+    },
+    facets: () => request<EmployeeFacets>("/employees/facets"),
+    upsertMany: async (employees) => {
+      await request("/employees/bulk", { method: "PUT", body: JSON.stringify(employees) });
+    },
+  };
+};
+
+// Set VITE_EMPLOYEE_DIRECTORY_URL to read employees from the HR system instead of the bundled roster
+const apiUrl = import.meta.env.VITE_EMPLOYEE_DIRECTORY_URL;
+
+export const employeeDirectory: EmployeeDirectory = apiUrl
+  ? createRestEmployeeDirectory(apiUrl)
+  : createIndexedDbEmployeeDirectory();
+
+/** Every employee matching `filter`, fetched page by page. */
+export const queryAllEmployees = async (filter: EmployeeFilter) => {
+  const pageSize = 500;
+  const first = await employeeDirectory.query({ ...filter, page: 1, pageSize });
+  const employees = [...first.employees];
+  for (let page = 2; (page - 1) * pageSize < first.total; page++) {
+    employees.push(...(await employeeDirectory.query({ ...filter, page, pageSize })).employees);
+  }
+  return employees;
+};
+
+/** Directory employees with the given email addresses, matched case-insensitively. */
+export const findEmployeesByEmail = async (emails: string[]) => {
+  const found: Employee[] = [];
+  for (const email of new Set(emails.map((value) => value.toLowerCase()))) {
+    // Search also matches names and roles, so keep exact email matches only
+    const { employees } = await employeeDirectory.query({ search: email, pageSize: DEFAULT_PAGE_SIZE });
+    found.push(...employees.filter((employee) => employee.email.toLowerCase() === email));
+  }
+  return found;
+};
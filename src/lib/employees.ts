@@ -0,0 +1,42 @@
+import type { NotificationChannel } from "@/components/NotificationCenter";
+import { buildTemplateContext } from "./template";
+import { employeeDirectory } from "./employee-directory";
+
+export interface Employee {
+  id: string;
+  name: string;
+  email: string;
+  phone?: string;
+  department: string;
+  role: string;
+  location: string;
+  status: "active" | "inactive" | "on-leave";
+  // Employee id of the direct manager
+  managerId?: string;
+  // ISO date, e.g. "2021-04-12"
+  startDate?: string;
+  // ISO date of the last day of leave, for employees who are on leave
+  leaveEndDate?: string;
+  // Channels the employee asked not to be contacted on
+  channelOptOuts?: NotificationChannel[];
+  quietHours?: QuietHours;
+}
+
+// Daily window without email or SMS, as "HH:mm" times in the employee's time zone
+export interface QuietHours {
+  start: string;
+  end: string;
+  timezone: string;
+}
+
+/** Template contexts for several employees, looking their managers up in one batch. */
+export const getTemplateContexts = async (employees: Employee[]) => {
+  const managerIds = Array.from(new Set(employees.map((employee) => employee.managerId).filter(Boolean)));
+  const managers = new Map(
+    (await employeeDirectory.getMany(managerIds)).map((manager) => [manager.id, manager])
+  );
+  return employees.map((employee) => buildTemplateContext(employee, managers.get(employee.managerId)));
+};
+
+export const getTemplateContext = async (employee: Employee) =>
+  (await getTemplateContexts([employee]))[0];
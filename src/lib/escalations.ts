@@ -0,0 +1,215 @@
+import { format } from "date-fns";
+import type {
+  EscalationRecord,
+  ManagerEscalationRule,
+  Notification,
+  RecipientRef,
+} from "@/components/NotificationCenter";
+import { notificationRepository, updateLatestNotification } from "./notification-repository";
+import { sendMessage } from "./transports";
+import { employeeDirectory } from "./employee-directory";
+import { getTemplateContext, type Employee } from "./employees";
+import { escapeHtml, renderTemplate } from "./template";
+import { sanitizeHtml } from "./sanitize-html";
+import { checkEligibility, loadEligibilityPolicy } from "./eligibility";
+import { recipientKey, toRecipientRef } from "./recipients";
+import { getRemindableRecipients } from "./reminders";
+import { isFailedDelivery, wasReceived } from "./delivery-status";
+import { getNextRetryAt, loadRetryPolicy } from "./retry-policy";
+
+export const DEFAULT_ESCALATION_RULE: ManagerEscalationRule = {
+  enabled: false,
+  daysOverdue: 2,
+};
+
+export interface EscalationTemplate {
+  subject: string;
+  // HTML, like email content
+  body: string;
+}
+
+// Filled in per notice; the employee fields in TEMPLATE_FIELDS describe the manager
+export const ESCALATION_FIELDS = [
+  { key: "notification_title", label: "Notification Title", description: "Title of the overdue notification" },
+  { key: "deadline", label: "Deadline", description: "When responses were due" },
+  { key: "pending_count", label: "Pending Count", description: "How many direct reports have not responded" },
+  { key: "pending_reports", label: "Pending Reports", description: "List of those direct reports" },
+] as const;
+
+type EscalationField = (typeof ESCALATION_FIELDS)[number]["key"];
+
+export const DEFAULT_ESCALATION_TEMPLATE: EscalationTemplate = {
+  subject: "Follow-up needed: {{notification_title}}",
+  body:
+    '<p>Hi {{first_name | "there"}},</p>' +
+    "<p>{{pending_count}} of your direct reports have not responded to " +
+    '"{{notification_title}}", which was due {{deadline}}:</p>' +
+    "{{pending_reports}}" +
+    "<p>Please follow up with them.</p>",
+};
+
+const ESCALATION_TEMPLATE_STORAGE_KEY = "notification_escalation_template";
+
+export const loadEscalationTemplate = (): EscalationTemplate => {
+  const saved = localStorage.getItem(ESCALATION_TEMPLATE_STORAGE_KEY);
+  if (!saved) return DEFAULT_ESCALATION_TEMPLATE;
+  try {
+    return { ...DEFAULT_ESCALATION_TEMPLATE, ...JSON.parse(saved) };
+  } catch {
+    return DEFAULT_ESCALATION_TEMPLATE;
+  }
+};
+
+export const saveEscalationTemplate = (template: EscalationTemplate) => {
+  localStorage.setItem(ESCALATION_TEMPLATE_STORAGE_KEY, JSON.stringify(template));
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** When overdue recipients are escalated to their managers, or null when the rule does not apply. */
+export const getEscalationAt = (notification: Notification): Date | null => {
+  const rule = notification.acknowledgementSettings?.escalation;
+  const deadline = notification.acknowledgementSettings?.deadline;
+  if (!rule?.enabled || !deadline) return null;
+  return new Date(deadline.getTime() + rule.daysOverdue * DAY_MS);
+};
+
+const getRecipientEscalations = (notification: Notification, recipient: RecipientRef) =>
+  (notification.escalations ?? []).filter((escalation) =>
+    escalation.reports.some((report) => recipientKey(report) === recipientKey(recipient))
+  );
+
+/** Whether a notice about the recipient actually reached their manager. */
+export const isEscalated = (notification: Notification, recipient: RecipientRef) =>
+  getRecipientEscalations(notification, recipient).some((escalation) => wasReceived(escalation.status));
+
+/**
+ * When the recipient is next due to be escalated, or undefined when that is
+ * settled: the notice went out, or it was skipped because there is no manager
+ * or the manager cannot be emailed. Failed notices are tried again on the
+ * delivery retry policy's backoff.
+ */
+const getNextEscalationAt = (notification: Notification, recipient: RecipientRef) => {
+  const escalationAt = getEscalationAt(notification);
+  if (!escalationAt) return undefined;
+
+  const records = getRecipientEscalations(notification, recipient);
+  if (records.length === 0) return escalationAt;
+  if (records.some((record) => !isFailedDelivery(record.status))) return undefined;
+  return getNextRetryAt(loadRetryPolicy(), records.length, records[records.length - 1].at);
+};
+
+// Pending recipients are the ones reminders would still go to
+const getDueForEscalation = (notification: Notification, now: Date) =>
+  getRemindableRecipients(notification).filter((recipient) => {
+    const dueAt = getNextEscalationAt(notification, recipient);
+    return !!dueAt && dueAt <= now;
+  });
+
+export const hasDueEscalation = (notification: Notification, now: Date) =>
+  getDueForEscalation(notification, now).length > 0;
+
+const ESCALATION_FIELD_PATTERN = new RegExp(
+  `\\{\\{\\s*(${ESCALATION_FIELDS.map((field) => field.key).join("|")})\\s*\\}\\}`,
+  "g"
+);
+
+const fillEscalationFields = (template: string, values: Record<EscalationField, string>) =>
+  template.replace(ESCALATION_FIELD_PATTERN, (_, key: EscalationField) => values[key]);
+
+/** The notice for one manager, with their pending direct reports listed. */
+export const renderEscalationNotice = async (
+  template: EscalationTemplate,
+  notification: Notification,
+  manager: Employee,
+  reports: RecipientRef[]
+) => {
+  const context = await getTemplateContext(manager);
+  const deadline = notification.acknowledgementSettings?.deadline;
+  const plain: Record<EscalationField, string> = {
+    notification_title: notification.title,
+    deadline: deadline ? format(deadline, "MMMM d, yyyy 'at' h:mm a") : "",
+    pending_count: String(reports.length),
+    pending_reports: reports.map((report) => report.name).join(", "),
+  };
+  const html: Record<EscalationField, string> = {
+    notification_title: escapeHtml(plain.notification_title),
+    deadline: escapeHtml(plain.deadline),
+    pending_count: plain.pending_count,
+    pending_reports: `<ul>${reports.map((report) => `<li>${escapeHtml(report.name)}</li>`).join("")}</ul>`,
+  };
+  // Manager fields first: the escalation values may contain text that looks like a placeholder
+  return {
+    subject: fillEscalationFields(renderTemplate(template.subject, context).output, plain),
+    body: sanitizeHtml(fillEscalationFields(renderTemplate(template.body, context, { html: true }).output, html)),
+  };
+};
+
+/**
+ * Emails the manager of every pending recipient who is due for escalation:
+ * not escalated yet, or whose earlier notice failed. Each notice lists all of that manager's pending direct reports on the
+ * notification, including ones escalated before. Recipients without a
+ * manager in the directory are recorded as skipped so they are not looked at
+ * again.
+ */
+export const sendDueEscalations = async (id: string, now = new Date()): Promise<Notification> => {
+  const notification = await notificationRepository.get(id);
+  if (!notification) {
+    throw new Error("Notification not found");
+  }
+  if (!hasDueEscalation(notification, now)) return notification;
+
+  const pending = getRemindableRecipients(notification);
+  const employees = new Map(
+    (await employeeDirectory.getMany(pending.map((recipient) => recipient.employeeId).filter(Boolean))).map(
+      (employee) => [employee.id, employee]
+    )
+  );
+  const managerOf = (recipient: RecipientRef) => employees.get(recipient.employeeId)?.managerId;
+
+  const due = getDueForEscalation(notification, now);
+  const managers = await employeeDirectory.getMany(Array.from(new Set(due.map(managerOf).filter(Boolean))));
+  const found = new Set(managers.map((manager) => manager.id));
+
+  const records: EscalationRecord[] = [];
+  const unmanaged = due.filter((recipient) => !found.has(managerOf(recipient)));
+  if (unmanaged.length > 0) {
+    records.push({ reports: unmanaged, at: now, status: "skipped", reason: "No manager in the directory" });
+  }
+
+  const template = loadEscalationTemplate();
+  const eligibilityPolicy = loadEligibilityPolicy();
+  for (const manager of managers) {
+    const reports = pending.filter((recipient) => managerOf(recipient) === manager.id);
+    const decision = checkEligibility(manager, ["email"], eligibilityPolicy, now).decisions.email;
+    // Held until the manager's quiet hours or leave are over
+    if (decision.action === "defer") continue;
+    if (decision.action === "skip") {
+      records.push({ manager: toRecipientRef(manager), reports, at: now, status: "skipped", reason: decision.reason });
+      continue;
+    }
+
+    const notice = await renderEscalationNotice(template, notification, manager, reports);
+    const result = await sendMessage({
+      notificationId: notification.id,
+      channel: "email",
+      to: { name: manager.name, email: manager.email, phone: manager.phone },
+      subject: notice.subject,
+      body: notice.body,
+      attachments: [],
+    });
+    records.push({
+      manager: toRecipientRef(manager),
+      reports,
+      at: now,
+      status: result.status,
+      reason: "reason" in result ? result.reason : undefined,
+    });
+  }
+
+  if (records.length === 0) return notification;
+  return updateLatestNotification(id, (current) => ({
+    ...current,
+    escalations: [...(current.escalations ?? []), ...records],
+  }));
+};
@@ -0,0 +1,79 @@
+const DB_NAME = "notice-bridge";
+const DB_VERSION = 6;
+
+// Every object store the app uses. Bump DB_VERSION when adding one so
+// existing browsers run the upgrade and create it.
+const STORES = ["notifications", "outbox", "templates", "employees", "segments", "groups"] as const;
+
+export type StoreName = (typeof STORES)[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of STORES) {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: "id" });
+          }
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  operation: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = operation(transaction.objectStore(store));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const idbGetAll = <T>(store: StoreName) =>
+  runRequest<T[]>(store, "readonly", (s) => s.getAll());
+
+export const idbGet = <T>(store: StoreName, id: string) =>
+  runRequest<T | undefined>(store, "readonly", (s) => s.get(id));
+
+export const idbPut = async <T>(store: StoreName, value: T): Promise<T> => {
+  await runRequest(store, "readwrite", (s) => s.put(value));
+  return value;
+};
+
+/** Writes many records in a single transaction. */
+export const idbPutMany = async <T>(store: StoreName, values: T[]) => {
+  const db = await openDatabase();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(store, "readwrite");
+    const objectStore = transaction.objectStore(store);
+    values.forEach((value) => objectStore.put(value));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const idbClear = (store: StoreName) =>
+  runRequest(store, "readwrite", (s) => s.clear()).then(() => undefined);
+
+export const idbDelete = (store: StoreName, id: string) =>
+  runRequest(store, "readwrite", (s) => s.delete(id)).then(() => undefined);
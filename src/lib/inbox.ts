@@ -0,0 +1,60 @@
+import type { DeliveryRecord, Notification } from "@/components/NotificationCenter";
+import { notificationRepository } from "./notification-repository";
+import { wasReceived } from "./delivery-status";
+
+// One notification as it landed in one employee's portal inbox
+export interface InboxItem {
+  notification: Notification;
+  delivery: DeliveryRecord;
+}
+
+const isInboxDelivery = (delivery: DeliveryRecord, employeeId: string) =>
+  delivery.channel === "portal" && delivery.recipient.employeeId === employeeId;
+
+/**
+ * The employee's received portal notifications, in the order given (newest
+ * first from the repository). Skipped, deferred and failed portal deliveries
+ * never reached the inbox.
+ */
+export const getInboxItems = (notifications: Notification[], employeeId: string): InboxItem[] =>
+  notifications.flatMap((notification) => {
+    const delivery = notification.deliveries?.find(
+      (candidate) => isInboxDelivery(candidate, employeeId) && wasReceived(candidate.status)
+    );
+    return delivery ? [{ notification, delivery }] : [];
+  });
+
+// Archived items no longer count as waiting to be read
+export const isUnread = (item: InboxItem) => !item.delivery.readAt && !item.delivery.archivedAt;
+
+/** Case-insensitive match on the title, plain-text summary and sender. */
+export const matchesInboxSearch = (item: InboxItem, query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [item.notification.title, item.notification.message, item.notification.createdBy?.name]
+    .filter(Boolean)
+    .some((text) => text.toLowerCase().includes(needle));
+};
+
+const updateInboxDelivery = async (
+  id: string,
+  employeeId: string,
+  changes: Pick<DeliveryRecord, "readAt" | "archivedAt">
+): Promise<Notification> => {
+  const notification = await notificationRepository.get(id);
+  if (!notification?.deliveries?.some((delivery) => isInboxDelivery(delivery, employeeId))) {
+    throw new Error("Notification not found in this inbox");
+  }
+  return notificationRepository.update({
+    ...notification,
+    deliveries: notification.deliveries.map((delivery) =>
+      isInboxDelivery(delivery, employeeId) ? { ...delivery, ...changes } : delivery
+    ),
+  });
+};
+
+export const setInboxRead = (id: string, employeeId: string, read: boolean) =>
+  updateInboxDelivery(id, employeeId, { readAt: read ? new Date() : undefined });
+
+export const setInboxArchived = (id: string, employeeId: string, archived: boolean) =>
+  updateInboxDelivery(id, employeeId, { archivedAt: archived ? new Date() : undefined });
@@ -0,0 +1,157 @@
+import type { Notification } from "@/components/NotificationCenter";
+import { idbGet, idbGetAll, idbPut } from "./idb";
+import { upgradeLegacyNotifications } from "./recipients";
+
+export type NewNotification = Omit<Notification, "id" | "status" | "sentAt">;
+
+export interface NotificationRepository {
+  list: () => Promise<Notification[]>;
+  get: (id: string) => Promise<Notification | undefined>;
+  create: (notification: NewNotification) => Promise<Notification>;
+  update: (notification: Notification) => Promise<Notification>;
+}
+
+/**
+ * The status and send time a new notification starts with: held for sign-off,
+ * waiting for its schedule, or pending so it is dispatched right away. Both
+ * adapters store this, so a server does not have to work it out itself.
+ */
+const withInitialStatus = (notification: NewNotification): Omit<Notification, "id"> => ({
+  ...notification,
+  status: notification.approval ? "pending_approval" : notification.schedule ? "scheduled" : "pending",
+  sentAt: notification.schedule?.sendAt ?? new Date(),
+});
+
+const newestFirst = (a: Notification, b: Notification) =>
+  b.sentAt.getTime() - a.sentAt.getTime();
+
+// Upgrades legacy records on read and writes them back so it only happens once
+const readUpgraded = async (stored: Notification[]) => {
+  const { notifications, upgraded } = await upgradeLegacyNotifications(stored);
+  await Promise.all(upgraded.map((notification) => idbPut<Notification>("notifications", notification)));
+  return notifications;
+};
+
+export const createIndexedDbNotificationRepository = (): NotificationRepository => ({
+  list: async () => {
+    const notifications = await readUpgraded(await idbGetAll<Notification>("notifications"));
+    return notifications.sort(newestFirst);
+  },
+  get: async (id) => {
+    const notification = await idbGet<Notification>("notifications", id);
+    return notification && (await readUpgraded([notification]))[0];
+  },
+  create: (notification) =>
+    idbPut<Notification>("notifications", { ...withInitialStatus(notification), id: crypto.randomUUID() }),
+  update: (notification) => idbPut<Notification>("notifications", notification),
+});
+
+// JSON has no Date type, so dates come back from the API as ISO strings
+const reviveNotification = (raw: Notification): Notification => ({
+  ...raw,
+  sentAt: new Date(raw.sentAt),
+  schedule: raw.schedule && { ...raw.schedule, sendAt: new Date(raw.schedule.sendAt) },
+  audience: raw.audience && { ...raw.audience, resolvedAt: new Date(raw.audience.resolvedAt) },
+  acknowledgementSettings: raw.acknowledgementSettings && {
+    ...raw.acknowledgementSettings,
+    deadline: raw.acknowledgementSettings.deadline
+      ? new Date(raw.acknowledgementSettings.deadline)
+      : undefined,
+  },
+  deliveries: raw.deliveries?.map((delivery) => ({
+    ...delivery,
+    updatedAt: new Date(delivery.updatedAt),
+    nextRetryAt: delivery.nextRetryAt ? new Date(delivery.nextRetryAt) : undefined,
+    deferredUntil: delivery.deferredUntil ? new Date(delivery.deferredUntil) : undefined,
+    readAt: delivery.readAt ? new Date(delivery.readAt) : undefined,
+    archivedAt: delivery.archivedAt ? new Date(delivery.archivedAt) : undefined,
+    attempts: delivery.attempts?.map((attempt) => ({ ...attempt, at: new Date(attempt.at) })),
+  })),
+  acknowledgementResponses: raw.acknowledgementResponses?.map((response) => ({
+    ...response,
+    respondedAt: new Date(response.respondedAt),
+  })),
+  reminders: raw.reminders?.map((reminder) => ({ ...reminder, at: new Date(reminder.at) })),
+  escalations: raw.escalations?.map((escalation) => ({ ...escalation, at: new Date(escalation.at) })),
+  approval: raw.approval && {
+    ...raw.approval,
+    trail: raw.approval.trail.map((event) => ({ ...event, at: new Date(event.at) })),
+  },
+});
+
+export const createRestNotificationRepository = (baseUrl: string): NotificationRepository => {
+  const send = (path: string, init?: RequestInit) =>
+    fetch(`${baseUrl.replace(/\/$/, "")}${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init?.headers },
+    });
+
+  const failed = (path: string, response: Response) =>
+    new Error(`Request to ${path} failed with status ${response.status}`);
+
+  const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    const response = await send(path, init);
+    if (!response.ok) {
+      throw failed(path, response);
+    }
+    return response.json();
+  };
+
+  return {
+    list: async () => {
+      const notifications = await request<Notification[]>("/notifications");
+      // Older server records may still hold name-only recipients
+      const { notifications: upgraded } = await upgradeLegacyNotifications(notifications.map(reviveNotification));
+      return upgraded.sort(newestFirst);
+    },
+    get: async (id) => {
+      const path = `/notifications/${id}`;
+      const response = await send(path);
+      // Only a missing record is "not found"; network and server errors are passed on to the caller
+      if (response.status === 404) return undefined;
+      if (!response.ok) {
+        throw failed(path, response);
+      }
+      const notification = reviveNotification(await response.json());
+      return (await upgradeLegacyNotifications([notification])).notifications[0];
+    },
+    create: async (notification) =>
+      reviveNotification(
+        await request<Notification>("/notifications", {
+          method: "POST",
+          body: JSON.stringify(withInitialStatus(notification)),
+        })
+      ),
+    update: async (notification) =>
+      reviveNotification(
+        await request<Notification>(`/notifications/${notification.id}`, {
+          method: "PUT",
+          body: JSON.stringify(notification),
+        })
+      ),
+  };
+};
+
+// Set VITE_NOTIFICATIONS_API_URL to store notifications on a server instead of in the browser
+const apiUrl = import.meta.env.VITE_NOTIFICATIONS_API_URL;
+
+export const notificationRepository: NotificationRepository = apiUrl
+  ? createRestNotificationRepository(apiUrl)
+  : createIndexedDbNotificationRepository();
+
+/**
+ * Re-reads a notification and saves `change` applied to that copy. Steps that
+ * await transports between reading and writing use this so they only replace
+ * the fields they own, and an acknowledgement or read state saved in the
+ * meantime is kept.
+ */
+export const updateLatestNotification = async (
+  id: string,
+  change: (current: Notification) => Notification
+): Promise<Notification> => {
+  const current = await notificationRepository.get(id);
+  if (!current) {
+    throw new Error("Notification not found");
+  }
+  return notificationRepository.update(change(current));
+};
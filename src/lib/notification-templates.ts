@@ -0,0 +1,44 @@
+import type { AcknowledgementSettings, NotificationChannel } from "@/components/NotificationCenter";
+import type { ChannelMessages } from "@/components/ChannelMessageEditors";
+import { idbDelete, idbGetAll, idbPut } from "./idb";
+
+export interface NotificationTemplate {
+  id: string;
+  name: string;
+  category: string;
+  description?: string;
+  title: string;
+  channels: NotificationChannel[];
+  // Attachments are kept as File objects; IndexedDB stores them as blobs
+  channelMessages: ChannelMessages;
+  // Deadlines are chosen per send, so templates only keep the response setup
+  acknowledgement: Omit<AcknowledgementSettings, "deadline">;
+  // Employee IDs preselected as recipients when the template is used
+  defaultRecipientIds: string[];
+  updatedAt: Date;
+}
+
+export type NewNotificationTemplate = Omit<NotificationTemplate, "id" | "updatedAt">;
+
+export const UNCATEGORIZED = "Uncategorized";
+
+export const listTemplates = async () => {
+  const templates = await idbGetAll<NotificationTemplate>("templates");
+  return templates.sort(
+    (a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name)
+  );
+};
+
+/** Creates a template, or replaces the one with `id` when given. */
+export const saveTemplate = (template: NewNotificationTemplate, id?: string) =>
+  idbPut<NotificationTemplate>("templates", {
+    ...template,
+    category: template.category.trim() || UNCATEGORIZED,
+    id: id ?? crypto.randomUUID(),
+    updatedAt: new Date(),
+  });
+
+export const deleteTemplate = (id: string) => idbDelete("templates", id);
+
+export const getTemplateCategories = (templates: NotificationTemplate[]) =>
+  Array.from(new Set(templates.map((template) => template.category))).sort();
@@ -0,0 +1,112 @@
+import type { GroupExpansion } from "@/components/NotificationCenter";
+import type { Employee } from "./employees";
+import { employeeDirectory, queryAllEmployees, type EmployeeFacets } from "./employee-directory";
+import { idbDelete, idbGetAll, idbPut } from "./idb";
+
+export interface RecipientGroup {
+  id: string;
+  name: string;
+  description?: string;
+  // Employees listed by hand, as in a distribution list
+  employeeIds: string[];
+  // Everyone currently in these departments or locations
+  departments: string[];
+  locations: string[];
+  // Other groups whose members are included
+  groupIds: string[];
+  everyone?: boolean;
+  // Built-in groups are derived from the directory and cannot be edited
+  builtIn?: boolean;
+  updatedAt: Date;
+}
+
+export type NewRecipientGroup = Omit<RecipientGroup, "id" | "updatedAt" | "builtIn">;
+
+export const ALL_EMPLOYEES_GROUP_ID = "all";
+
+const builtInGroup = (group: Partial<RecipientGroup> & Pick<RecipientGroup, "id" | "name">): RecipientGroup => ({
+  employeeIds: [],
+  departments: [],
+  locations: [],
+  groupIds: [],
+  builtIn: true,
+  updatedAt: new Date(0),
+  ...group,
+});
+
+/** "All Employees" plus one group per department and location in the directory. */
+export const getBuiltInGroups = (facets: EmployeeFacets): RecipientGroup[] => [
+  builtInGroup({ id: ALL_EMPLOYEES_GROUP_ID, name: "All Employees", everyone: true }),
+  ...facets.departments.map((department) =>
+    builtInGroup({ id: `department:${department}`, name: `${department} Department`, departments: [department] })
+  ),
+  ...facets.locations.map((location) =>
+    builtInGroup({ id: `location:${location}`, name: `${location} Office`, locations: [location] })
+  ),
+];
+
+export const listCustomGroups = async () => {
+  const groups = await idbGetAll<RecipientGroup>("groups");
+  return groups.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/** Built-in groups followed by the saved distribution lists. */
+export const listGroups = async () => [
+  ...getBuiltInGroups(await employeeDirectory.facets()),
+  ...(await listCustomGroups()),
+];
+
+export const saveGroup = (group: NewRecipientGroup, id?: string) =>
+  idbPut<RecipientGroup>("groups", {
+    ...group,
+    id: id ?? crypto.randomUUID(),
+    updatedAt: new Date(),
+  });
+
+export const deleteGroup = (id: string) => idbDelete("groups", id);
+
+/**
+ * Expands groups to their current members, following nested groups. Each
+ * group is expanded on its own so the result records what it contributed;
+ * `employees` is the deduplicated union. Cycles between groups are skipped.
+ */
+export const expandGroups = async (groupIds: string[]) => {
+  const index = new Map((await listGroups()).map((group) => [group.id, group]));
+
+  const membersOf = async (
+    groupId: string,
+    path: string[],
+    via: Set<string>
+  ): Promise<Map<string, Employee>> => {
+    const members = new Map<string, Employee>();
+    const group = index.get(groupId);
+    if (!group || path.includes(groupId)) return members;
+
+    const add = (employees: Employee[]) => employees.forEach((employee) => members.set(employee.id, employee));
+    if (group.everyone) add(await queryAllEmployees({}));
+    for (const department of group.departments) add(await queryAllEmployees({ department }));
+    for (const location of group.locations) add(await queryAllEmployees({ location }));
+    add(await employeeDirectory.getMany(group.employeeIds));
+    for (const nestedId of group.groupIds) {
+      via.add(nestedId);
+      add(Array.from((await membersOf(nestedId, [...path, groupId], via)).values()));
+    }
+    return members;
+  };
+
+  const employees = new Map<string, Employee>();
+  const expansions: GroupExpansion[] = [];
+  for (const groupId of groupIds) {
+    const via = new Set<string>();
+    const members = await membersOf(groupId, [], via);
+    members.forEach((employee, id) => employees.set(id, employee));
+    expansions.push({
+      groupId,
+      groupName: index.get(groupId)?.name ?? groupId,
+      employeeIds: Array.from(members.keys()),
+      viaGroupIds: Array.from(via),
+    });
+  }
+
+  return { employees: Array.from(employees.values()), expansions };
+};
@@ -0,0 +1,81 @@
+import type { AcknowledgementResponse, Notification, RecipientRef } from "@/components/NotificationCenter";
+import type { Employee } from "./employees";
+import { queryAllEmployees } from "./employee-directory";
+
+export const toRecipientRef = (employee: Employee): RecipientRef => ({
+  employeeId: employee.id,
+  name: employee.name,
+  email: employee.email,
+});
+
+/** Stable identity of a recipient; falls back to the name for unmatched legacy recipients. */
+export const recipientKey = (recipient: RecipientRef) => recipient.employeeId ?? `name:${recipient.name}`;
+
+/** Recipients without duplicates, keeping the first occurrence. */
+export const uniqueRecipients = (recipients: RecipientRef[]) => {
+  const seen = new Set<string>();
+  return recipients.filter((recipient) => {
+    const key = recipientKey(recipient);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const hasAcknowledged = (notification: Notification, recipient: RecipientRef) =>
+  !!notification.acknowledgedBy?.includes(recipientKey(recipient));
+
+export const getUnacknowledgedRecipients = (notification: Notification) =>
+  notification.recipients.filter((recipient) => !hasAcknowledged(notification, recipient));
+
+// Before recipient references, notifications stored display names everywhere
+type LegacyRecipient = RecipientRef | string;
+
+const hasLegacyRecipients = (notification: Notification) =>
+  (notification.recipients as LegacyRecipient[]).some((recipient) => typeof recipient === "string");
+
+/**
+ * Converts notifications stored with name-only recipients to recipient
+ * references, matching names against the directory. Names that match no
+ * employee (such as old "IT Department" entries) keep just the name.
+ * Returns all notifications plus the ones that changed, so callers can
+ * persist the upgrade.
+ */
+export const upgradeLegacyNotifications = async (notifications: Notification[]) => {
+  if (!notifications.some(hasLegacyRecipients)) {
+    return { notifications, upgraded: [] as Notification[] };
+  }
+
+  const byName = new Map((await queryAllEmployees({})).map((employee) => [employee.name, employee]));
+  const toRef = (recipient: LegacyRecipient): RecipientRef => {
+    if (typeof recipient !== "string") return recipient;
+    const employee = byName.get(recipient);
+    return employee ? toRecipientRef(employee) : { name: recipient };
+  };
+
+  const upgraded: Notification[] = [];
+  const result = notifications.map((notification) => {
+    if (!hasLegacyRecipients(notification)) return notification;
+
+    const next: Notification = {
+      ...notification,
+      recipients: notification.recipients.map(toRef),
+      audience: notification.audience && {
+        ...notification.audience,
+        individuals: notification.audience.individuals.map(toRef),
+      },
+      deliveries: notification.deliveries?.map((delivery) => ({ ...delivery, recipient: toRef(delivery.recipient) })),
+      acknowledgedBy: notification.acknowledgedBy?.map((name) => recipientKey(toRef(name))),
+      acknowledgementResponses: notification.acknowledgementResponses?.map(
+        ({ recipientName, ...response }: AcknowledgementResponse & { recipientName?: string }) => ({
+          ...response,
+          recipient: response.recipient ?? toRef(recipientName),
+        })
+      ),
+    };
+    upgraded.push(next);
+    return next;
+  });
+
+  return { notifications: result, upgraded };
+};
@@ -0,0 +1,201 @@
+import { format } from "date-fns";
+import type {
+  Notification,
+  NotificationChannel,
+  RecipientRef,
+  ReminderPolicy,
+  ReminderRecord,
+} from "@/components/NotificationCenter";
+import { notificationRepository, updateLatestNotification } from "./notification-repository";
+import { renderMessageFor } from "./dispatcher";
+import { sendMessage } from "./transports";
+import { employeeDirectory } from "./employee-directory";
+import { checkEligibility, loadEligibilityPolicy } from "./eligibility";
+import { hasBeenSent, wasReceived } from "./delivery-status";
+import { hasAcknowledged, recipientKey } from "./recipients";
+import { createResponseToken } from "./acknowledgements";
+
+export const DEFAULT_REMINDER_POLICY: ReminderPolicy = {
+  enabled: true,
+  hoursBeforeDeadline: 24,
+  intervalHours: 24,
+  maxReminders: 3,
+  escalation: ["portal", "email", "sms"],
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const isFor = (recipient: RecipientRef) => (candidate: { recipient: RecipientRef }) =>
+  recipientKey(candidate.recipient) === recipientKey(recipient);
+
+/** Reminders already sent to the recipient, oldest first. */
+export const getRecipientReminders = (notification: Notification, recipient: RecipientRef) =>
+  (notification.reminders ?? []).filter(isFor(recipient));
+
+// Recipients whose every delivery was skipped or is still deferred never saw the notification
+const wasReached = (notification: Notification, recipient: RecipientRef) =>
+  (notification.deliveries ?? []).some((delivery) => isFor(recipient)(delivery) && wasReceived(delivery.status));
+
+const hasInboxCopy = (notification: Notification, recipient: RecipientRef) =>
+  (notification.deliveries ?? []).some(
+    (delivery) => isFor(recipient)(delivery) && delivery.channel === "portal" && wasReceived(delivery.status)
+  );
+
+const isRemindable = (notification: Notification, recipient: RecipientRef) =>
+  notification.requiresAcknowledgement &&
+  hasBeenSent(notification.status) &&
+  wasReached(notification, recipient) &&
+  !hasAcknowledged(notification, recipient);
+
+/** Recipients who got the notification but have not responded yet. */
+export const getRemindableRecipients = (notification: Notification) =>
+  notification.recipients.filter((recipient) => isRemindable(notification, recipient));
+
+/**
+ * When the recipient's next automatic reminder is due, or null when the
+ * policy is off, they have responded or their reminders are used up. With a
+ * deadline the first reminder comes before it and the rest after it;
+ * without one they are spaced from the send time. Reminders are never
+ * closer together than the interval.
+ */
+export const getNextReminderAt = (notification: Notification, recipient: RecipientRef): Date | null => {
+  const policy = notification.acknowledgementSettings?.reminders;
+  if (!policy?.enabled || !isRemindable(notification, recipient)) return null;
+
+  const sent = getRecipientReminders(notification, recipient);
+  if (sent.length >= policy.maxReminders) return null;
+
+  const sequence = sent.length + 1;
+  const interval = policy.intervalHours * HOUR_MS;
+  const deadline = notification.acknowledgementSettings.deadline?.getTime();
+  const planned = deadline
+    ? sequence === 1
+      ? deadline - policy.hoursBeforeDeadline * HOUR_MS
+      : deadline + (sequence - 1) * interval
+    : notification.sentAt.getTime() + sequence * interval;
+  const lastContact = sent.length > 0 ? sent[sent.length - 1].at : notification.sentAt;
+  return new Date(Math.max(planned, lastContact.getTime() + interval));
+};
+
+export const hasDueReminder = (notification: Notification, now: Date) =>
+  notification.recipients.some((recipient) => {
+    const dueAt = getNextReminderAt(notification, recipient);
+    return !!dueAt && dueAt <= now;
+  });
+
+// Portal reminders bring the notification back to the top of the inbox, so they need an inbox copy
+const chooseChannel = (notification: Notification, recipient: RecipientRef, sequence: number): NotificationChannel => {
+  const escalation = notification.acknowledgementSettings?.reminders?.escalation.length
+    ? notification.acknowledgementSettings.reminders.escalation
+    : DEFAULT_REMINDER_POLICY.escalation;
+  const remaining = escalation.slice(Math.min(sequence - 1, escalation.length - 1));
+  return remaining.find((channel) => channel !== "portal" || hasInboxCopy(notification, recipient)) ?? "email";
+};
+
+const describeDeadline = (notification: Notification, now: Date) => {
+  const deadline = notification.acknowledgementSettings?.deadline;
+  if (!deadline) return "";
+  return deadline > now
+    ? ` by ${format(deadline, "MMM d 'at' h:mm a")}`
+    : ` (it was due ${format(deadline, "MMM d 'at' h:mm a")})`;
+};
+
+/**
+ * Sends one reminder to each recipient on the channel their escalation has
+ * reached, subject to the same eligibility rules as the notification.
+ * Recipients who are in quiet hours are left for a later run.
+ */
+const remind = async (
+  notification: Notification,
+  recipients: RecipientRef[],
+  trigger: ReminderRecord["trigger"],
+  now: Date
+): Promise<Notification> => {
+  const ids = recipients.map((recipient) => recipient.employeeId).filter(Boolean);
+  const employees = new Map((await employeeDirectory.getMany(ids)).map((employee) => [employee.id, employee]));
+  const eligibilityPolicy = loadEligibilityPolicy();
+
+  const records: ReminderRecord[] = [];
+  for (const recipient of recipients) {
+    const sequence = getRecipientReminders(notification, recipient).length + 1;
+    const channel = chooseChannel(notification, recipient, sequence);
+    const employee = employees.get(recipient.employeeId);
+    const decision = employee
+      ? checkEligibility(employee, [channel], eligibilityPolicy, now).decisions[channel]
+      : { action: "send" as const };
+    if (decision.action === "defer") continue;
+    if (decision.action === "skip") {
+      records.push({ recipient, sequence, channel, at: now, status: "skipped", reason: decision.reason, trigger });
+      continue;
+    }
+
+    const responseToken = channel === "email" ? createResponseToken() : undefined;
+    const message = await renderMessageFor(notification, channel, recipient, responseToken);
+    const nudge = `Reminder: please respond${describeDeadline(notification, now)}.`;
+    const result = await sendMessage({
+      ...message,
+      subject: `Reminder: ${message.subject}`,
+      body: channel === "sms" ? `${nudge} ${message.body}` : `<p><strong>${nudge}</strong></p>${message.body}`,
+    });
+    records.push({
+      recipient,
+      sequence,
+      channel,
+      at: now,
+      status: result.status,
+      reason: "reason" in result ? result.reason : undefined,
+      trigger,
+      responseToken,
+    });
+  }
+
+  const resurfaced = new Set(
+    records
+      .filter((record) => record.channel === "portal" && wasReceived(record.status))
+      .map((record) => recipientKey(record.recipient))
+  );
+  return updateLatestNotification(notification.id, (current) => ({
+    ...current,
+    reminders: [...(current.reminders ?? []), ...records],
+    deliveries: current.deliveries?.map((delivery) =>
+      delivery.channel === "portal" && resurfaced.has(recipientKey(delivery.recipient))
+        ? { ...delivery, readAt: undefined, archivedAt: undefined }
+        : delivery
+    ),
+  }));
+};
+
+/** Sends the automatic reminders that are due by `now`. */
+export const sendDueReminders = async (id: string, now = new Date()): Promise<Notification> => {
+  const notification = await notificationRepository.get(id);
+  if (!notification) {
+    throw new Error("Notification not found");
+  }
+  const due = notification.recipients.filter((recipient) => {
+    const dueAt = getNextReminderAt(notification, recipient);
+    return !!dueAt && dueAt <= now;
+  });
+  return due.length > 0 ? remind(notification, due, "automatic", now) : notification;
+};
+
+/** Reminds everyone who has not responded right away, regardless of the policy's timing and limit. */
+export const sendRemindersNow = async (id: string): Promise<Notification> => {
+  const notification = await notificationRepository.get(id);
+  if (!notification) {
+    throw new Error("Notification not found");
+  }
+  const recipients = getRemindableRecipients(notification);
+  if (recipients.length === 0) {
+    throw new Error("Everyone who received this notification has already responded");
+  }
+  return remind(notification, recipients, "manual", new Date());
+};
+
+/** "24h before the deadline, then every 24h, up to 3 times via portal → email → sms" */
+export const describeReminderPolicy = (policy: ReminderPolicy, hasDeadline: boolean) => {
+  if (!policy.enabled) return "Off";
+  const timing = hasDeadline
+    ? `${policy.hoursBeforeDeadline}h before the deadline, then every ${policy.intervalHours}h after it`
+    : `every ${policy.intervalHours}h after sending`;
+  return `${timing}, up to ${policy.maxReminders} time(s) via ${policy.escalation.join(" → ")}`;
+};
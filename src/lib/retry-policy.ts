@@ -0,0 +1,41 @@
+export interface RetryPolicy {
+  // Retry failed deliveries in the background, without anyone clicking resend
+  autoRetry: boolean;
+  // Total attempts per delivery, including the first send
+  maxAttempts: number;
+  initialDelayMinutes: number;
+  backoffMultiplier: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  autoRetry: true,
+  maxAttempts: 3,
+  initialDelayMinutes: 5,
+  backoffMultiplier: 2,
+};
+
+const RETRY_POLICY_STORAGE_KEY = "notification_retry_policy";
+
+export const loadRetryPolicy = (): RetryPolicy => {
+  const saved = localStorage.getItem(RETRY_POLICY_STORAGE_KEY);
+  if (!saved) return DEFAULT_RETRY_POLICY;
+  try {
+    return { ...DEFAULT_RETRY_POLICY, ...JSON.parse(saved) };
+  } catch {
+    return DEFAULT_RETRY_POLICY;
+  }
+};
+
+export const saveRetryPolicy = (policy: RetryPolicy) => {
+  localStorage.setItem(RETRY_POLICY_STORAGE_KEY, JSON.stringify(policy));
+};
+
+/**
+ * When the next automatic retry should happen after `attemptCount` attempts,
+ * or undefined when the policy gives up.
+ */
+export const getNextRetryAt = (policy: RetryPolicy, attemptCount: number, from = new Date()) => {
+  if (!policy.autoRetry || attemptCount >= policy.maxAttempts) return undefined;
+  const delayMinutes = policy.initialDelayMinutes * policy.backoffMultiplier ** (attemptCount - 1);
+  return new Date(from.getTime() + delayMinutes * 60 * 1000);
+};
@@ -0,0 +1,364 @@
+import { format, isValid, parseISO } from "date-fns";
+import type { NotificationChannel } from "@/components/NotificationCenter";
+import type { Employee, QuietHours } from "./employees";
+import { getLocalTimeZone } from "./timezones";
+
+export const ROSTER_FIELDS = [
+  { key: "id", label: "Employee ID", required: true, aliases: ["id", "employeeid", "empid", "employeenumber", "staffid"] },
+  { key: "name", label: "Full Name", required: true, aliases: ["name", "fullname", "employeename", "displayname"] },
+  { key: "email", label: "Email", required: true, aliases: ["email", "emailaddress", "workemail", "mail"] },
+  { key: "department", label: "Department", required: true, aliases: ["department", "dept", "team", "division"] },
+  { key: "role", label: "Role", required: true, aliases: ["role", "title", "jobtitle", "position"] },
+  { key: "location", label: "Location", required: true, aliases: ["location", "office", "site", "city"] },
+  { key: "status", label: "Status", required: false, aliases: ["status", "employmentstatus", "state"] },
+  { key: "phone", label: "Phone", required: false, aliases: ["phone", "mobile", "phonenumber", "cell", "mobilephone"] },
+  { key: "managerId", label: "Manager (ID or email)", required: false, aliases: ["manager", "managerid", "manageremail", "reportsto", "supervisor"] },
+  { key: "startDate", label: "Start Date", required: false, aliases: ["startdate", "hiredate", "datehired", "start"] },
+  { key: "leaveEndDate", label: "Leave End Date", required: false, aliases: ["leaveenddate", "leaveend", "returndate", "returningon"] },
+  { key: "quietHours", label: "Quiet Hours (e.g. 21:00-07:00)", required: false, aliases: ["quiethours", "donotdisturb", "dnd"] },
+  { key: "timezone", label: "Time Zone", required: false, aliases: ["timezone", "tz", "zone"] },
+  { key: "channelOptOuts", label: "Channel Opt-Outs", required: false, aliases: ["channeloptouts", "optouts", "optout", "donotcontact"] },
+] as const;
+
+export type RosterField = (typeof ROSTER_FIELDS)[number]["key"];
+
+// Column index in the uploaded sheet for each field
+export type ColumnMapping = Partial<Record<RosterField, number>>;
+
+export interface RosterSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface RosterIssue {
+  // Row number as shown in the spreadsheet, counting the header as row 1
+  row: number;
+  field?: RosterField;
+  message: string;
+  severity: "error" | "warning";
+}
+
+export interface RosterDuplicate {
+  field: "id" | "email";
+  value: string;
+  rows: number[];
+}
+
+export interface RosterValidation {
+  employees: Employee[];
+  // Of `employees`, how many already exist in the directory
+  updateCount: number;
+  issues: RosterIssue[];
+  duplicates: RosterDuplicate[];
+  // Rows left out because of errors
+  rejectedRows: number[];
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const STATUS_ALIASES: Record<string, Employee["status"]> = {
+  active: "active",
+  inactive: "inactive",
+  terminated: "inactive",
+  "on-leave": "on-leave",
+  onleave: "on-leave",
+  leave: "on-leave",
+  "on leave": "on-leave",
+};
+
+const OPT_OUT_CHANNELS: NotificationChannel[] = ["email", "sms", "portal"];
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/** Parses CSV text (RFC 4180 quoting, comma or semicolon separated) into rows of cells. */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, "");
+  const firstLine = content.slice(0, content.indexOf("\n") === -1 ? undefined : content.indexOf("\n"));
+  const delimiter = firstLine.split(";").length > firstLine.split(",").length ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+};
+
+const cellToString = (cell: unknown) => {
+  if (cell === null || cell === undefined) return "";
+  if (cell instanceof Date) return format(cell, "yyyy-MM-dd");
+  return String(cell);
+};
+
+/** Reads the first sheet of a CSV or XLSX file. The first row is taken as the header. */
+export const readRosterFile = async (file: File): Promise<RosterSheet> => {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  let rows: string[][];
+
+  if (extension === "csv" || extension === "txt") {
+    rows = parseCsv(await file.text());
+  } else if (extension === "xlsx") {
+    // Loaded on demand so the spreadsheet parser stays out of the main bundle
+    const { default: readXlsxFile } = await import("read-excel-file");
+    rows = (await readXlsxFile(file))
+      .map((cells) => cells.map(cellToString))
+      .filter((cells) => cells.some((value) => value.trim() !== ""));
+  } else {
+    throw new Error("Upload a .csv or .xlsx file");
+  }
+
+  if (rows.length < 2) {
+    throw new Error("The file needs a header row and at least one employee");
+  }
+
+  const [headers, ...body] = rows;
+  return { headers: headers.map((header) => header.trim()), rows: body };
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const normalized = headers.map(normalizeHeader);
+  for (const field of ROSTER_FIELDS) {
+    const index = normalized.findIndex((header) => (field.aliases as readonly string[]).includes(header));
+    if (index !== -1 && !Object.values(mapping).includes(index)) {
+      mapping[field.key] = index;
+    }
+  }
+  return mapping;
+};
+
+export const getMissingRequiredFields = (mapping: ColumnMapping) =>
+  ROSTER_FIELDS.filter((field) => field.required && mapping[field.key] === undefined);
+
+// "21:00-07:00" with the times padded, or undefined when the value is not a window
+const parseQuietHours = (value: string) => {
+  const [start, end, ...rest] = value.split(/\s*[-–]\s*/);
+  if (rest.length > 0 || !TIME_PATTERN.test(start ?? "") || !TIME_PATTERN.test(end ?? "")) return undefined;
+  const pad = (time: string) => time.padStart(5, "0");
+  return { start: pad(start), end: pad(end) };
+};
+
+const isTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const parseDate = (value: string) => {
+  const parsed = parseISO(value);
+  if (isValid(parsed)) return format(parsed, "yyyy-MM-dd");
+  const fallback = new Date(value);
+  return isValid(fallback) ? format(fallback, "yyyy-MM-dd") : undefined;
+};
+
+const findDuplicates = (values: { value: string; row: number }[], field: "id" | "email") => {
+  const rowsByValue = new Map<string, number[]>();
+  values
+    .filter(({ value }) => value)
+    .forEach(({ value, row }) => rowsByValue.set(value, [...(rowsByValue.get(value) ?? []), row]));
+  return Array.from(rowsByValue.entries())
+    .filter(([, rows]) => rows.length > 1)
+    .map(([value, rows]): RosterDuplicate => ({ field, value, rows }));
+};
+
+/**
+ * Turns mapped rows into employees. Rows with errors (missing or malformed
+ * required values, duplicate IDs or emails) are rejected; optional values
+ * that cannot be used produce warnings and are left blank.
+ *
+ * `existing` holds directory records with the same IDs and those of the
+ * managers the file refers to by ID or email, so updates can be counted and
+ * managers already in the directory can be resolved. Updates are
+ * merged over the directory record: columns that are not mapped keep the
+ * values already there, so a re-import does not wipe settings like quiet
+ * hours that the roster may not carry.
+ */
+export const validateRoster = (
+  sheet: RosterSheet,
+  mapping: ColumnMapping,
+  existing: Employee[]
+): RosterValidation => {
+  const issues: RosterIssue[] = [];
+  const read = (cells: string[], field: RosterField) =>
+    mapping[field] === undefined ? "" : (cells[mapping[field]] ?? "").trim();
+  const isMapped = (field: RosterField) => mapping[field] !== undefined;
+  const existingById = new Map(existing.map((employee) => [employee.id, employee]));
+
+  const parsed = sheet.rows.map((cells, index) => ({ cells, row: index + 2 }));
+
+  const duplicates = [
+    ...findDuplicates(parsed.map(({ cells, row }) => ({ value: read(cells, "id"), row })), "id"),
+    ...findDuplicates(
+      parsed.map(({ cells, row }) => ({ value: read(cells, "email").toLowerCase(), row })),
+      "email"
+    ),
+  ];
+  const duplicateRows = new Set(duplicates.flatMap((duplicate) => duplicate.rows));
+  duplicates.forEach((duplicate) =>
+    duplicate.rows.forEach((row) =>
+      issues.push({
+        row,
+        field: duplicate.field,
+        severity: "error",
+        message: `Duplicate ${duplicate.field === "id" ? "employee ID" : "email"} "${duplicate.value}" (rows ${duplicate.rows.join(", ")})`,
+      })
+    )
+  );
+
+  // Managers may be given by ID or by email of anyone in the file or the directory
+  const knownIds = new Set([...existing.map((e) => e.id), ...parsed.map(({ cells }) => read(cells, "id"))]);
+  const idsByEmail = new Map(
+    [...existing, ...parsed.map(({ cells }) => ({ id: read(cells, "id"), email: read(cells, "email") }))].map(
+      (employee) => [employee.email.toLowerCase(), employee.id]
+    )
+  );
+
+  const employees: Employee[] = [];
+  const rejectedRows: number[] = [];
+
+  for (const { cells, row } of parsed) {
+    const rowIssues: RosterIssue[] = [];
+    const error = (field: RosterField, message: string) =>
+      rowIssues.push({ row, field, message, severity: "error" });
+    const warning = (field: RosterField, message: string) =>
+      rowIssues.push({ row, field, message, severity: "warning" });
+
+    for (const field of ROSTER_FIELDS) {
+      if (field.required && !read(cells, field.key)) error(field.key, `${field.label} is missing`);
+    }
+
+    const email = read(cells, "email");
+    if (email && !EMAIL_PATTERN.test(email)) error("email", `"${email}" is not a valid email address`);
+
+    const previous = existingById.get(read(cells, "id"));
+
+    const rawStatus = read(cells, "status").toLowerCase();
+    const status = rawStatus
+      ? STATUS_ALIASES[rawStatus]
+      : isMapped("status")
+        ? "active"
+        : (previous?.status ?? "active");
+    if (!status) error("status", `Unknown status "${rawStatus}" (use active, inactive or on-leave)`);
+
+    const rawManager = read(cells, "managerId");
+    const managerId = rawManager.includes("@") ? idsByEmail.get(rawManager.toLowerCase()) : rawManager;
+    if (rawManager && (!managerId || !knownIds.has(managerId))) {
+      warning("managerId", `Manager "${rawManager}" was not found and will be left empty`);
+    }
+
+    const rawStartDate = read(cells, "startDate");
+    const startDate = rawStartDate ? parseDate(rawStartDate) : undefined;
+    if (rawStartDate && !startDate) warning("startDate", `"${rawStartDate}" is not a date and will be left empty`);
+
+    const rawLeaveEndDate = read(cells, "leaveEndDate");
+    const leaveEndDate = rawLeaveEndDate ? parseDate(rawLeaveEndDate) : undefined;
+    if (rawLeaveEndDate && !leaveEndDate) {
+      warning("leaveEndDate", `"${rawLeaveEndDate}" is not a date and will be left empty`);
+    }
+
+    const rawTimezone = read(cells, "timezone");
+    const validTimezone = rawTimezone && isTimeZone(rawTimezone) ? rawTimezone : undefined;
+    if (rawTimezone && !validTimezone) warning("timezone", `Unknown time zone "${rawTimezone}"`);
+
+    const rawQuietHours = read(cells, "quietHours");
+    const quietWindow = rawQuietHours ? parseQuietHours(rawQuietHours) : undefined;
+    if (rawQuietHours && !quietWindow) {
+      warning("quietHours", `"${rawQuietHours}" is not a window like 21:00-07:00 and will be left empty`);
+    }
+    const quietHours: QuietHours | undefined = quietWindow && {
+      ...quietWindow,
+      timezone: validTimezone ?? previous?.quietHours?.timezone ?? getLocalTimeZone(),
+    };
+
+    const optOutValues = read(cells, "channelOptOuts")
+      .toLowerCase()
+      .split(/[;,|]/)
+      .map((value) => value.trim())
+      .filter(Boolean);
+    const unknownOptOuts = optOutValues.filter((value) => !(OPT_OUT_CHANNELS as string[]).includes(value));
+    if (unknownOptOuts.length > 0) {
+      warning("channelOptOuts", `Unknown channel "${unknownOptOuts.join(", ")}" (use email, sms or portal)`);
+    }
+    const channelOptOuts = OPT_OUT_CHANNELS.filter((channel) => optOutValues.includes(channel));
+
+    issues.push(...rowIssues);
+    if (duplicateRows.has(row) || rowIssues.some((issue) => issue.severity === "error")) {
+      rejectedRows.push(row);
+      continue;
+    }
+
+    // Only mapped columns overwrite the directory record; a mapped but empty cell clears the value
+    const optional: Partial<Employee> = {};
+    if (isMapped("phone")) optional.phone = read(cells, "phone") || undefined;
+    if (isMapped("managerId")) {
+      optional.managerId =
+        managerId && knownIds.has(managerId) && managerId !== read(cells, "id") ? managerId : undefined;
+    }
+    if (isMapped("startDate")) optional.startDate = startDate;
+    if (isMapped("leaveEndDate")) optional.leaveEndDate = leaveEndDate;
+    if (isMapped("quietHours")) {
+      optional.quietHours = quietHours;
+    } else if (validTimezone && previous?.quietHours) {
+      // A time zone column on its own moves the existing quiet hours
+      optional.quietHours = { ...previous.quietHours, timezone: validTimezone };
+    }
+    if (isMapped("channelOptOuts")) optional.channelOptOuts = channelOptOuts.length > 0 ? channelOptOuts : undefined;
+
+    employees.push({
+      ...previous,
+      ...optional,
+      id: read(cells, "id"),
+      name: read(cells, "name"),
+      email,
+      department: read(cells, "department"),
+      role: read(cells, "role"),
+      location: read(cells, "location"),
+      status,
+    });
+  }
+
+  const existingIds = new Set(existing.map((employee) => employee.id));
+  return {
+    employees,
+    updateCount: employees.filter((employee) => existingIds.has(employee.id)).length,
+    issues: issues.sort((a, b) => a.row - b.row),
+    duplicates,
+    rejectedRows,
+  };
+};
@@ -0,0 +1,63 @@
+// Markup the editor can produce and that email clients render consistently
+const ALLOWED_TAGS = new Set([
+  "p", "br", "div", "span",
+  "strong", "b", "em", "i", "u", "s",
+  "h1", "h2", "h3",
+  "ul", "ol", "li",
+  "blockquote", "a",
+]);
+
+// Removed together with their content; any other unknown tag is unwrapped
+const DROPPED_TAGS = new Set([
+  "script", "style", "iframe", "object", "embed", "template",
+  "noscript", "head", "title", "meta", "link", "form", "svg", "math",
+]);
+
+const SAFE_URL_PATTERN = /^(https?:|mailto:|tel:)/i;
+// Placeholder hrefs are kept while composing and checked again once rendered
+const PLACEHOLDER_URL_PATTERN = /^\{\{[^}]+\}\}/;
+
+export const isSafeUrl = (url: string) => SAFE_URL_PATTERN.test(url.trim());
+
+interface SanitizeOptions {
+  allowPlaceholderLinks?: boolean;
+}
+
+const sanitizeNode = (node: Node, doc: Document, options: SanitizeOptions): Node[] => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return [doc.createTextNode(node.textContent ?? "")];
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return [];
+
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+  if (DROPPED_TAGS.has(tag)) return [];
+
+  const children = Array.from(element.childNodes).flatMap((child) => sanitizeNode(child, doc, options));
+  if (!ALLOWED_TAGS.has(tag)) return children;
+
+  const clean = doc.createElement(tag);
+  if (tag === "a") {
+    const href = element.getAttribute("href")?.trim() ?? "";
+    const isPlaceholder = options.allowPlaceholderLinks && PLACEHOLDER_URL_PATTERN.test(href);
+    if (!isSafeUrl(href) && !isPlaceholder) return children;
+    clean.setAttribute("href", href);
+    clean.setAttribute("target", "_blank");
+    clean.setAttribute("rel", "noopener noreferrer");
+  }
+  clean.append(...children);
+  return [clean];
+};
+
+/**
+ * Reduces HTML to the allowlisted tags above. Attributes are dropped except a
+ * link's href, which must be http(s), mailto or tel. Editors pass
+ * `allowPlaceholderLinks` so {{field}} hrefs survive until rendering.
+ */
+export const sanitizeHtml = (html: string, options: SanitizeOptions = {}) => {
+  if (!html) return "";
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, "text/html");
+  const container = doc.createElement("div");
+  container.append(...Array.from(doc.body.childNodes).flatMap((node) => sanitizeNode(node, doc, options)));
+  return container.innerHTML;
+};
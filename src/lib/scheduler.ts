@@ -0,0 +1,117 @@
+import type { Notification, NotificationSchedule } from "@/components/NotificationCenter";
+import { notificationRepository } from "./notification-repository";
+import { dispatchNotification, releaseDeferredDeliveries, retryFailedDeliveries } from "./dispatcher";
+import { hasDueReminder, sendDueReminders } from "./reminders";
+import { hasDueEscalation, sendDueEscalations } from "./escalations";
+
+export const SCHEDULER_INTERVAL_MS = 30 * 1000;
+
+// Shared by every open tab, so two tabs never pick up the same due notification
+const SCHEDULER_LOCK = "notification-scheduler";
+
+/** Runs `work` once no other tab is running scheduled work. */
+export const runExclusive = <T>(work: () => Promise<T>): Promise<T> =>
+  navigator.locks ? navigator.locks.request(SCHEDULER_LOCK, work) : work();
+
+/** Runs `work` only when no other tab holds the scheduler, otherwise resolves to null without running it. */
+export const runExclusiveIfFree = <T>(work: () => Promise<T>): Promise<T | null> =>
+  navigator.locks
+    ? navigator.locks.request(SCHEDULER_LOCK, { ifAvailable: true }, (lock) => (lock ? work() : null))
+    : work();
+
+export const isDue = (notification: Notification, now = new Date()) =>
+  notification.status === "scheduled" &&
+  !!notification.schedule &&
+  notification.schedule.sendAt.getTime() <= now.getTime();
+
+/**
+ * Dispatches every scheduled notification whose send time has passed.
+ * Returns the notifications that were sent on this run. Callers hold the
+ * scheduler lock, so the statuses read here are not changing under it.
+ */
+export const runDueSchedules = async (now = new Date()): Promise<Notification[]> => {
+  const notifications = await notificationRepository.list();
+  const due = notifications.filter((notification) => isDue(notification, now));
+
+  const dispatched: Notification[] = [];
+  for (const notification of due) {
+    dispatched.push(await dispatchNotification(notification));
+  }
+  return dispatched;
+};
+
+const hasDueRetry = (notification: Notification, now: Date) =>
+  (notification.deliveries ?? []).some(
+    (delivery) => delivery.nextRetryAt && delivery.nextRetryAt.getTime() <= now.getTime()
+  );
+
+/** Runs automatic retries for failed deliveries whose backoff has elapsed. */
+export const runDueRetries = async (now = new Date()): Promise<Notification[]> => {
+  const notifications = await notificationRepository.list();
+  const retried: Notification[] = [];
+  for (const notification of notifications.filter((n) => hasDueRetry(n, now))) {
+    retried.push(await retryFailedDeliveries(notification.id, now));
+  }
+  return retried;
+};
+
+const hasDueDeferral = (notification: Notification, now: Date) =>
+  (notification.deliveries ?? []).some(
+    (delivery) =>
+      delivery.status === "deferred" && delivery.deferredUntil && delivery.deferredUntil.getTime() <= now.getTime()
+  );
+
+/** Sends deliveries held back by quiet hours or leave once their hold has expired. */
+export const runDueDeferrals = async (now = new Date()): Promise<Notification[]> => {
+  const notifications = await notificationRepository.list();
+  const released: Notification[] = [];
+  for (const notification of notifications.filter((n) => hasDueDeferral(n, now))) {
+    released.push(await releaseDeferredDeliveries(notification.id, now));
+  }
+  return released;
+};
+
+/** Sends automatic acknowledgement reminders whose time has come. */
+export const runDueReminders = async (now = new Date()): Promise<Notification[]> => {
+  const notifications = await notificationRepository.list();
+  const reminded: Notification[] = [];
+  for (const notification of notifications.filter((n) => hasDueReminder(n, now))) {
+    reminded.push(await sendDueReminders(notification.id, now));
+  }
+  return reminded;
+};
+
+/** Emails the managers of recipients who are overdue long enough to escalate. */
+export const runDueEscalations = async (now = new Date()): Promise<Notification[]> => {
+  const notifications = await notificationRepository.list();
+  const escalated: Notification[] = [];
+  for (const notification of notifications.filter((n) => hasDueEscalation(n, now))) {
+    escalated.push(await sendDueEscalations(notification.id, now));
+  }
+  return escalated;
+};
+
+// Re-read before acting: the scheduler may have dispatched it since the UI loaded it
+const getScheduled = async (id: string) => {
+  const notification = await notificationRepository.get(id);
+  if (notification?.status !== "scheduled") {
+    throw new Error("This notification is no longer scheduled");
+  }
+  return notification;
+};
+
+// Under the scheduler lock, so a dispatch already under way finishes before the status check
+export const cancelScheduledNotification = (id: string) =>
+  runExclusive(async () => {
+    const notification = await getScheduled(id);
+    return notificationRepository.update({ ...notification, status: "cancelled" });
+  });
+
+export const rescheduleNotification = (id: string, schedule: NotificationSchedule) =>
+  runExclusive(async () => {
+    const notification = await getScheduled(id);
+    return notificationRepository.update({ ...notification, schedule, sentAt: schedule.sendAt });
+  });
+
+export const sendScheduledNow = (id: string) =>
+  runExclusive(async () => dispatchNotification(await getScheduled(id)));
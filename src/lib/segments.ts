@@ -0,0 +1,52 @@
+import type { Employee } from "./employees";
+import { queryAllEmployees, type EmployeeFilter } from "./employee-directory";
+import { describeRule, hasActiveRules } from "./audience-rules";
+import { idbDelete, idbGetAll, idbPut } from "./idb";
+
+// A named, saved filter whose members are looked up whenever it is used
+export interface AudienceSegment {
+  id: string;
+  name: string;
+  filter: EmployeeFilter;
+  updatedAt: Date;
+}
+
+export const listSegments = async () => {
+  const segments = await idbGetAll<AudienceSegment>("segments");
+  return segments.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveSegment = (segment: Omit<AudienceSegment, "id" | "updatedAt">, id?: string) =>
+  idbPut<AudienceSegment>("segments", {
+    ...segment,
+    id: id ?? crypto.randomUUID(),
+    updatedAt: new Date(),
+  });
+
+export const deleteSegment = (id: string) => idbDelete("segments", id);
+
+const FILTER_LABELS: Record<Exclude<keyof EmployeeFilter, "rules">, string> = {
+  search: "matching",
+  department: "department",
+  role: "role",
+  location: "location",
+  status: "status",
+};
+
+/** Short description of a filter, e.g. "department IT, location New York". */
+export const describeFilter = (filter: EmployeeFilter) => {
+  const parts = (Object.keys(FILTER_LABELS) as (keyof typeof FILTER_LABELS)[])
+    .filter((key) => filter[key])
+    .map((key) => `${FILTER_LABELS[key]} ${key === "search" ? `"${filter[key]}"` : filter[key]}`);
+  if (hasActiveRules(filter.rules)) parts.push(describeRule(filter.rules));
+  return parts.length > 0 ? parts.join(", ") : "everyone";
+};
+
+/** Current members of the given segments, without duplicates. */
+export const resolveSegments = async (segments: Pick<AudienceSegment, "filter">[]) => {
+  const members = new Map<string, Employee>();
+  for (const segment of segments) {
+    (await queryAllEmployees(segment.filter)).forEach((employee) => members.set(employee.id, employee));
+  }
+  return Array.from(members.values());
+};
@@ -0,0 +1,92 @@
+import type { NotificationChannel } from "@/components/NotificationCenter";
+import type { RecipientEligibility } from "./eligibility";
+
+export interface SendReviewPolicy {
+  // Sends reaching at least this many recipients must be confirmed by typing CONFIRMATION_PHRASE
+  confirmationThreshold: number;
+  // What the SMS provider charges per message segment, in dollars
+  smsCostPerSegment: number;
+}
+
+export const DEFAULT_SEND_REVIEW_POLICY: SendReviewPolicy = {
+  confirmationThreshold: 50,
+  smsCostPerSegment: 0.0079,
+};
+
+const SEND_REVIEW_POLICY_STORAGE_KEY = "notification_send_review_policy";
+
+export const loadSendReviewPolicy = (): SendReviewPolicy => {
+  const saved = localStorage.getItem(SEND_REVIEW_POLICY_STORAGE_KEY);
+  if (!saved) return DEFAULT_SEND_REVIEW_POLICY;
+  try {
+    return { ...DEFAULT_SEND_REVIEW_POLICY, ...JSON.parse(saved) };
+  } catch {
+    return DEFAULT_SEND_REVIEW_POLICY;
+  }
+};
+
+export const saveSendReviewPolicy = (policy: SendReviewPolicy) => {
+  localStorage.setItem(SEND_REVIEW_POLICY_STORAGE_KEY, JSON.stringify(policy));
+};
+
+export const CONFIRMATION_PHRASE = "SEND";
+
+const GSM_BASIC =
+  "@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !\"#¤%&'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà";
+// These take two septets each: an escape character plus the symbol
+const GSM_EXTENDED = "^{}\\[~]|€\f";
+
+/**
+ * Number of SMS segments a message is billed as. GSM-7 text fits 160
+ * characters in one segment and 153 per segment once split; anything outside
+ * GSM-7 (emoji, curly quotes, most non-Latin scripts) switches the whole
+ * message to UCS-2 at 70 and 67.
+ */
+export const countSmsSegments = (text: string) => {
+  if (text.length === 0) return 0;
+
+  let septets = 0;
+  for (const char of text) {
+    if (GSM_BASIC.includes(char)) septets += 1;
+    else if (GSM_EXTENDED.includes(char)) septets += 2;
+    // UCS-2 is billed in UTF-16 code units, so emoji count twice
+    else return text.length <= 70 ? 1 : Math.ceil(text.length / 67);
+  }
+  return septets <= 160 ? 1 : Math.ceil(septets / 153);
+};
+
+export interface ChannelEstimate {
+  channel: NotificationChannel;
+  // Recipients the channel delivers to now or later, after eligibility rules
+  recipients: number;
+  deferred: number;
+  smsSegments?: number;
+  smsCost?: number;
+}
+
+/**
+ * Per-channel delivery counts for the pre-send review. `renderSms` returns
+ * the SMS text as rendered for one recipient, so segment counts reflect
+ * placeholders like names that change the length.
+ */
+export const estimateChannels = (
+  channels: NotificationChannel[],
+  eligibility: RecipientEligibility[],
+  renderSms: (index: number) => string,
+  policy: SendReviewPolicy
+): ChannelEstimate[] =>
+  channels.map((channel) => {
+    const delivered = eligibility
+      .map((result, index) => ({ decision: result.decisions[channel], index }))
+      .filter(({ decision }) => decision && decision.action !== "skip");
+    const estimate: ChannelEstimate = {
+      channel,
+      recipients: delivered.length,
+      deferred: delivered.filter(({ decision }) => decision.action === "defer").length,
+    };
+    if (channel === "sms") {
+      estimate.smsSegments = delivered.reduce((total, { index }) => total + countSmsSegments(renderSms(index)), 0);
+      estimate.smsCost = estimate.smsSegments * policy.smsCostPerSegment;
+    }
+    return estimate;
+  });
@@ -0,0 +1,99 @@
+import { format, parseISO } from "date-fns";
+import type { Employee } from "./employees";
+
+export const TEMPLATE_FIELDS = [
+  { key: "name", label: "Full Name", description: "Employee's full name" },
+  { key: "first_name", label: "First Name", description: "Employee's first name" },
+  { key: "last_name", label: "Last Name", description: "Employee's last name" },
+  { key: "email", label: "Email", description: "Employee's email address" },
+  { key: "role", label: "Role", description: "Job title or role" },
+  { key: "department", label: "Department", description: "Department name" },
+  { key: "location", label: "Location", description: "Office location" },
+  { key: "manager", label: "Manager", description: "Direct manager's name" },
+  { key: "employee_id", label: "Employee ID", description: "Unique employee identifier" },
+  { key: "start_date", label: "Start Date", description: "Employment start date" },
+] as const;
+
+export type TemplateField = (typeof TEMPLATE_FIELDS)[number]["key"];
+
+export type TemplateContext = Partial<Record<TemplateField, string>>;
+
+export interface RenderResult {
+  output: string;
+  // Placeholders that are not one of TEMPLATE_FIELDS, left in the output as typed
+  unknownFields: string[];
+  // Known fields with no value for this recipient and no fallback, rendered empty
+  missingFields: TemplateField[];
+}
+
+// {{ field }} or {{ field | "fallback" }}; single quotes work for the fallback too
+const PLACEHOLDER_PATTERN = /\{\{\s*([^}|]+?)\s*(?:\|\s*(?:"([^"]*)"|'([^']*)')\s*)?\}\}/g;
+
+const KNOWN_FIELDS = new Set<string>(TEMPLATE_FIELDS.map((field) => field.key));
+
+const isKnownField = (key: string): key is TemplateField => KNOWN_FIELDS.has(key);
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+export const buildTemplateContext = (employee: Employee, manager?: Employee): TemplateContext => {
+  const [firstName, ...rest] = employee.name.trim().split(/\s+/);
+  return {
+    name: employee.name,
+    first_name: firstName,
+    last_name: rest.length > 0 ? rest.join(" ") : undefined,
+    email: employee.email,
+    role: employee.role,
+    department: employee.department,
+    location: employee.location,
+    manager: manager?.name,
+    employee_id: employee.id,
+    start_date: employee.startDate ? format(parseISO(employee.startDate), "MMMM d, yyyy") : undefined,
+  };
+};
+
+/**
+ * Substitutes placeholders in `template` from `context`. Set `html` when the
+ * template is HTML so substituted values are escaped.
+ */
+export const renderTemplate = (
+  template: string,
+  context: TemplateContext,
+  options: { html?: boolean } = {}
+): RenderResult => {
+  const unknownFields = new Set<string>();
+  const missingFields = new Set<TemplateField>();
+
+  const output = template.replace(
+    PLACEHOLDER_PATTERN,
+    (match, rawKey: string, doubleQuoted?: string, singleQuoted?: string) => {
+      const key = rawKey.trim();
+      if (!isKnownField(key)) {
+        unknownFields.add(key);
+        return match;
+      }
+
+      const fallback = doubleQuoted ?? singleQuoted;
+      const value = context[key]?.trim() ? context[key] : fallback;
+      if (value === undefined) {
+        missingFields.add(key);
+        return "";
+      }
+      return options.html ? escapeHtml(value) : value;
+    }
+  );
+
+  return {
+    output,
+    unknownFields: Array.from(unknownFields),
+    missingFields: Array.from(missingFields),
+  };
+};
+
+/** Placeholder names in `template` that the renderer does not know. */
+export const findUnknownFields = (template: string) => renderTemplate(template, {}).unknownFields;
@@ -0,0 +1,87 @@
+const COMMON_TIME_ZONES = [
+  "UTC",
+  "America/New_York",
+  "America/Chicago",
+  "America/Denver",
+  "America/Phoenix",
+  "America/Los_Angeles",
+  "Europe/London",
+  "Europe/Berlin",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+];
+
+export const getLocalTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const getTimeZoneOptions = () => {
+  const local = getLocalTimeZone();
+  return [local, ...COMMON_TIME_ZONES.filter((zone) => zone !== local)];
+};
+
+const getZonedFields = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+};
+
+// Milliseconds the given time zone is ahead of UTC at that instant
+const getTimeZoneOffset = (date: Date, timeZone: string) => {
+  const fields = getZonedFields(date, timeZone);
+  const asUtc = Date.UTC(
+    fields.year,
+    fields.month - 1,
+    fields.day,
+    fields.hour,
+    fields.minute,
+    fields.second
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Converts a calendar day plus "HH:mm" wall-clock time in `timeZone` to the
+ * matching instant. Only the year/month/day of `day` are used.
+ */
+export const zonedTimeToUtc = (day: Date, time: string, timeZone: string): Date => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const wallClock = Date.UTC(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  // The offset can differ at the guessed instant around DST changes
+  return new Date(wallClock - getTimeZoneOffset(new Date(guess), timeZone));
+};
+
+/** Inverse of zonedTimeToUtc: the calendar day and "HH:mm" time in `timeZone`. */
+export const utcToZonedTime = (date: Date, timeZone: string) => {
+  const fields = getZonedFields(date, timeZone);
+  return {
+    day: new Date(fields.year, fields.month - 1, fields.day),
+    time: `${String(fields.hour).padStart(2, "0")}:${String(fields.minute).padStart(2, "0")}`,
+  };
+};
+
+export const formatInTimeZone = (date: Date, timeZone: string) =>
+  new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(date) + ` (${timeZone})`;
@@ -0,0 +1,57 @@
+import type { AttachmentMetadata, NotificationChannel } from "@/components/NotificationCenter";
+import { createCaptureTransport } from "./capture-transport";
+
+export interface OutboundRecipient {
+  name: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface OutboundMessage {
+  notificationId: string;
+  channel: NotificationChannel;
+  to: OutboundRecipient;
+  subject: string;
+  body: string;
+  attachments: AttachmentMetadata[];
+  // Test sends go to the sender, not to the notification's recipients
+  isTest?: boolean;
+}
+
+export type TransportResult =
+  | { status: "sent" | "delivered"; providerMessageId?: string }
+  | { status: "bounced" | "failed"; reason: string };
+
+/**
+ * A delivery provider for one channel. `send` resolves with the outcome for
+ * that single recipient; it should only reject on unexpected errors.
+ */
+export interface ChannelTransport {
+  readonly name: string;
+  send: (message: OutboundMessage) => Promise<TransportResult>;
+}
+
+const transports: Record<NotificationChannel, ChannelTransport> = {
+  email: createCaptureTransport("email"),
+  sms: createCaptureTransport("sms"),
+  portal: createCaptureTransport("portal"),
+};
+
+export const getTransport = (channel: NotificationChannel) => transports[channel];
+
+/** Swaps in a real provider for a channel, e.g. an SMTP relay for email. */
+export const registerTransport = (channel: NotificationChannel, transport: ChannelTransport) => {
+  transports[channel] = transport;
+};
+
+/** Sends one message, turning transport errors into a failed result. */
+export const sendMessage = async (message: OutboundMessage): Promise<TransportResult> => {
+  try {
+    return await getTransport(message.channel).send(message);
+  } catch (error) {
+    return {
+      status: "failed",
+      reason: error instanceof Error ? error.message : "Unknown transport error",
+    };
+  }
+};
@@ -0,0 +1,367 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  ArrowLeft,
+  Bell,
+  Check,
+  Eye,
+  Mail,
+  MessageSquare,
+  MessageSquareWarning,
+  Pencil,
+  Plus,
+  ShieldCheck,
+  Trash2,
+  Users,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useDecideApproval, useNotifications } from "@/hooks/use-notifications";
+import { useCurrentUser } from "@/hooks/use-auth";
+import { can, canViewNotification, toAuthor } from "@/lib/auth";
+import { NotificationDetailModal } from "@/components/NotificationDetailModal";
+import { ApprovalDecisionDialog } from "@/components/ApprovalDecisionDialog";
+import { ApprovalPolicyDialog } from "@/components/ApprovalPolicyDialog";
+import type { ApprovalDecision, Notification } from "@/components/NotificationCenter";
+import {
+  describeConditions,
+  getCurrentStep,
+  loadApprovalPolicies,
+  saveApprovalPolicies,
+  type ApprovalPolicy,
+} from "@/lib/approvals";
+import { formatInTimeZone } from "@/lib/timezones";
+import { format } from "date-fns";
+
+const channelIcons = { email: Mail, sms: MessageSquare, portal: Bell };
+
+const DECISION_TOASTS: Record<ApprovalDecision, string> = {
+  approved: "Approval Recorded",
+  changes_requested: "Sent Back For Changes",
+  rejected: "Notification Rejected",
+};
+
+const NotificationSummary = ({ notification }: { notification: Notification }) => (
+  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+    <span className="flex items-center gap-1">
+      <Users className="w-3 h-3" />
+      {notification.recipients.length} recipient(s)
+    </span>
+    {notification.channels.map((channel) => {
+      const Icon = channelIcons[channel];
+      return (
+        <Badge key={channel} variant="secondary" className="gap-1 text-xs">
+          <Icon className="w-3 h-3" />
+          {channel}
+        </Badge>
+      );
+    })}
+    <span>
+      {notification.schedule
+        ? `Scheduled for ${formatInTimeZone(notification.schedule.sendAt, notification.schedule.timezone)}`
+        : "Sends on approval"}
+    </span>
+  </div>
+);
+
+const Approvals = () => {
+  const { toast } = useToast();
+  const { data: notifications = [], isLoading } = useNotifications();
+  const decideApproval = useDecideApproval();
+  const { data: user } = useCurrentUser();
+  const canApprove = can(user, "approve");
+  const canEditPolicies = can(user, "administer");
+  const [policies, setPolicies] = useState<ApprovalPolicy[]>(loadApprovalPolicies);
+  // undefined while closed, null for a new policy
+  const [editingPolicy, setEditingPolicy] = useState<ApprovalPolicy | null | undefined>(undefined);
+  const [decisionTarget, setDecisionTarget] = useState<{
+    notification: Notification;
+    decision: ApprovalDecision;
+  } | null>(null);
+  const [viewing, setViewing] = useState<Notification | null>(null);
+
+  // Approvers see the whole queue; composers follow their own and their department's notifications
+  const visible = notifications.filter((n) => canApprove || canViewNotification(user, n));
+  const awaiting = visible.filter((n) => n.status === "pending_approval");
+  const sentBack = visible.filter((n) => n.status === "changes_requested");
+
+  const updatePolicies = (updated: ApprovalPolicy[]) => {
+    setPolicies(updated);
+    saveApprovalPolicies(updated);
+  };
+
+  const handleSavePolicy = (policy: ApprovalPolicy) => {
+    updatePolicies(
+      policies.some((p) => p.id === policy.id)
+        ? policies.map((p) => (p.id === policy.id ? policy : p))
+        : [...policies, policy]
+    );
+    setEditingPolicy(undefined);
+    toast({ title: "Policy Saved", description: `"${policy.name}" applies to notifications sent from now on.` });
+  };
+
+  const handleDecision = (comment?: string) => {
+    const { notification, decision } = decisionTarget;
+    setDecisionTarget(null);
+    decideApproval.mutate(
+      { id: notification.id, decision, approver: toAuthor(user), comment },
+      {
+        onSuccess: (updated) =>
+          toast({
+            title: DECISION_TOASTS[decision],
+            description:
+              decision !== "approved"
+                ? `"${notification.title}" was returned to its sender.`
+                : updated.status === "pending_approval"
+                  ? `"${notification.title}" moves on to ${getCurrentStep(updated)?.approvers}.`
+                  : updated.status === "scheduled"
+                    ? `"${notification.title}" is fully approved and scheduled.`
+                    : `"${notification.title}" is fully approved and was sent.`,
+          }),
+        onError: (error) =>
+          toast({ title: "Decision Not Recorded", description: error.message, variant: "destructive" }),
+      }
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-7xl">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <Link to="/">
+              <Button variant="ghost" size="sm" className="gap-2">
+                <ArrowLeft className="w-4 h-4" />
+                Back
+              </Button>
+            </Link>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-primary to-accent rounded-lg">
+              <ShieldCheck className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold">Approvals</h1>
+              <p className="text-muted-foreground">Sign off on notifications your policies hold back</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-8">
+          <section>
+            <h2 className="text-lg font-semibold mb-3">Awaiting Approval ({awaiting.length})</h2>
+            {isLoading ? (
+              <p className="p-6 text-center text-sm text-muted-foreground">Loading notifications...</p>
+            ) : awaiting.length === 0 ? (
+              <Card className="border-dashed">
+                <CardContent className="p-8 text-center text-sm text-muted-foreground">
+                  Nothing is waiting for approval.
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-3">
+                {awaiting.map((notification) => {
+                  const step = getCurrentStep(notification);
+                  const steps = notification.approval.steps;
+                  const isOwn = notification.createdBy?.userId === user?.id;
+                  return (
+                    <Card key={notification.id}>
+                      <CardContent className="p-4 flex flex-col md:flex-row md:items-center gap-4">
+                        <div className="flex-1 min-w-0 space-y-2">
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium truncate">{notification.title}</p>
+                            {step && (
+                              <Badge variant="outline" className="shrink-0">
+                                Step {steps.indexOf(step) + 1} of {steps.length}: {step.approvers}
+                              </Badge>
+                            )}
+                          </div>
+                          <NotificationSummary notification={notification} />
+                          {step && (
+                            <p className="text-xs text-muted-foreground">
+                              {step.name} - {step.reason}. Submitted{" "}
+                              {format(notification.approval.trail[0].at, "MMM d, h:mm a")}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex gap-2 shrink-0">
+                          <Button variant="ghost" size="sm" title="View details" onClick={() => setViewing(notification)}>
+                            <Eye className="w-4 h-4" />
+                          </Button>
+                          {canApprove && (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="gap-1"
+                                onClick={() => setDecisionTarget({ notification, decision: "changes_requested" })}
+                              >
+                                <MessageSquareWarning className="w-4 h-4" />
+                                Request Changes
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="gap-1 text-destructive hover:text-destructive"
+                                onClick={() => setDecisionTarget({ notification, decision: "rejected" })}
+                              >
+                                <X className="w-4 h-4" />
+                                Reject
+                              </Button>
+                              <Button
+                                size="sm"
+                                className="gap-1"
+                                title={isOwn ? "You cannot approve a notification you sent" : undefined}
+                                disabled={isOwn}
+                                onClick={() => setDecisionTarget({ notification, decision: "approved" })}
+                              >
+                                <Check className="w-4 h-4" />
+                                Approve
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
+          </section>
+
+          {sentBack.length > 0 && (
+            <section>
+              <h2 className="text-lg font-semibold mb-3">Sent Back For Changes ({sentBack.length})</h2>
+              <div className="space-y-3">
+                {sentBack.map((notification) => {
+                  const request = notification.approval.trail
+                    .filter((event) => event.action === "changes_requested")
+                    .pop();
+                  return (
+                    <Card key={notification.id}>
+                      <CardContent className="p-4 flex flex-col md:flex-row md:items-center gap-4">
+                        <div className="flex-1 min-w-0 space-y-2">
+                          <p className="font-medium truncate">{notification.title}</p>
+                          <NotificationSummary notification={notification} />
+                          {request && (
+                            <p className="text-sm text-muted-foreground italic">
+                              {request.actor}: "{request.comment}"
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex gap-2 shrink-0">
+                          <Button variant="ghost" size="sm" title="View details" onClick={() => setViewing(notification)}>
+                            <Eye className="w-4 h-4" />
+                          </Button>
+                          <Link to={`/?revise=${notification.id}`}>
+                            <Button variant="outline" size="sm" className="gap-1">
+                              <Pencil className="w-4 h-4" />
+                              Revise
+                            </Button>
+                          </Link>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            </section>
+          )}
+
+          <section>
+            <div className="flex items-center justify-between mb-3">
+              <div>
+                <h2 className="text-lg font-semibold">Approval Policies</h2>
+                <p className="text-sm text-muted-foreground">
+                  When several policies match, each one is a step, approved in the order listed here.
+                </p>
+              </div>
+              {canEditPolicies && (
+                <Button className="gap-2" onClick={() => setEditingPolicy(null)}>
+                  <Plus className="w-4 h-4" />
+                  New Policy
+                </Button>
+              )}
+            </div>
+            {policies.length === 0 ? (
+              <Card className="border-dashed">
+                <CardContent className="p-8 text-center text-sm text-muted-foreground">
+                  No approval policies. Every notification is sent without sign-off.
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                {policies.map((policy, index) => (
+                  <Card key={policy.id} className={policy.enabled ? undefined : "opacity-60"}>
+                    <CardHeader className="pb-3">
+                      <CardTitle className="text-base flex items-center justify-between gap-2">
+                        <span>
+                          {index + 1}. {policy.name}
+                        </span>
+                        <Switch
+                          disabled={!canEditPolicies}
+                          checked={policy.enabled}
+                          onCheckedChange={(enabled) =>
+                            updatePolicies(policies.map((p) => (p.id === policy.id ? { ...p, enabled } : p)))
+                          }
+                        />
+                      </CardTitle>
+                      <CardDescription>Approved by {policy.approvers}</CardDescription>
+                    </CardHeader>
+                    <CardContent className="flex items-center justify-between gap-2">
+                      <p className="text-sm text-muted-foreground">Applies when {describeConditions(policy)}</p>
+                      {canEditPolicies && (
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="sm" title="Edit" onClick={() => setEditingPolicy(policy)}>
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Delete"
+                            onClick={() => updatePolicies(policies.filter((p) => p.id !== policy.id))}
+                          >
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+
+      <ApprovalPolicyDialog
+        open={editingPolicy !== undefined}
+        onOpenChange={(open) => !open && setEditingPolicy(undefined)}
+        policy={editingPolicy ?? null}
+        onSave={handleSavePolicy}
+      />
+
+      <ApprovalDecisionDialog
+        target={decisionTarget}
+        onOpenChange={(open) => !open && setDecisionTarget(null)}
+        onConfirm={handleDecision}
+      />
+
+      <NotificationDetailModal
+        notification={viewing}
+        open={viewing !== null}
+        onOpenChange={(open) => !open && setViewing(null)}
+        onSendReminder={() => undefined}
+        onRetryFailed={() => undefined}
+        canManage={false}
+      />
+    </div>
+  );
+};
+
+export default Approvals;
@@ -0,0 +1,174 @@
+import { useEffect, useMemo } from "react";
+import { Link, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { ArrowLeft, Download, FileText, Printer } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { useNotifications } from "@/hooks/use-notifications";
+import { useCurrentUser } from "@/hooks/use-auth";
+import { canViewNotification } from "@/lib/auth";
+import { recipientKey } from "@/lib/recipients";
+import {
+  buildComplianceReport,
+  COMPLIANCE_STATUS_LABELS,
+  downloadComplianceCsv,
+  getComplianceFileName,
+} from "@/lib/compliance-report";
+
+const SummaryStat = ({ label, value, className }: { label: string; value: string | number; className?: string }) => (
+  <div className="p-3 rounded-lg border border-border">
+    <p className="text-xs text-muted-foreground">{label}</p>
+    <p className={cn("text-2xl font-semibold", className)}>{value}</p>
+  </div>
+);
+
+// Laid out for the browser's print dialog, which is also how the report is saved as a PDF
+const ComplianceReport = () => {
+  const { id } = useParams<{ id: string }>();
+  const { data: notifications = [], isLoading } = useNotifications();
+  const { data: user } = useCurrentUser();
+  const notification = notifications.find((n) => n.id === id && canViewNotification(user, n));
+  const report = useMemo(() => (notification ? buildComplianceReport(notification) : null), [notification]);
+
+  // Browsers suggest the document title as the PDF file name
+  useEffect(() => {
+    if (!report) return;
+    const previousTitle = document.title;
+    document.title = getComplianceFileName(report);
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [report]);
+
+  if (!report) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto px-4 py-8 max-w-5xl">
+          <Link to="/history">
+            <Button variant="ghost" size="sm" className="gap-2 mb-4">
+              <ArrowLeft className="w-4 h-4" />
+              Back
+            </Button>
+          </Link>
+          <p className="text-muted-foreground">{isLoading ? "Loading..." : "Notification not found."}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { summary } = report;
+  const deadline = report.notification.acknowledgementSettings?.deadline;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-5xl print:max-w-none print:p-0">
+        <div className="flex items-center justify-between mb-6 print:hidden">
+          <Link to="/history">
+            <Button variant="ghost" size="sm" className="gap-2">
+              <ArrowLeft className="w-4 h-4" />
+              Back
+            </Button>
+          </Link>
+          <div className="flex gap-2">
+            <Button variant="outline" className="gap-2" onClick={() => downloadComplianceCsv(report)}>
+              <Download className="w-4 h-4" />
+              Export CSV
+            </Button>
+            <Button className="gap-2" onClick={() => window.print()}>
+              <Printer className="w-4 h-4" />
+              Print / Save as PDF
+            </Button>
+          </div>
+        </div>
+
+        {/* Summary Header */}
+        <div className="mb-6 space-y-4">
+          <div className="flex items-start gap-3">
+            <div className="p-2 bg-gradient-to-br from-primary to-accent rounded-lg print:hidden">
+              <FileText className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Acknowledgement Compliance Report</p>
+              <h1 className="text-2xl font-bold">{report.notification.title}</h1>
+              <p className="text-sm text-muted-foreground">
+                Sent {format(report.notification.sentAt, "MMMM d, yyyy 'at' h:mm a")}
+                {report.notification.createdBy && ` by ${report.notification.createdBy.name}`}
+                {deadline && ` · Due ${format(deadline, "MMMM d, yyyy 'at' h:mm a")}`}
+                {" · "}Generated {format(report.generatedAt, "MMMM d, yyyy 'at' h:mm a")}
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+            <SummaryStat label="Recipients" value={summary.total} />
+            <SummaryStat label="Responded" value={summary.responded} />
+            <SummaryStat label="Pending" value={summary.pending} />
+            <SummaryStat
+              label="Overdue"
+              value={summary.overdue}
+              className={summary.overdue > 0 ? "text-destructive" : undefined}
+            />
+            <SummaryStat label="Response Rate" value={`${summary.responseRate}%`} />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            {summary.byOption.map(({ option, count }) => (
+              <Badge key={option} variant="outline" className="font-normal">
+                {option}: {count}
+              </Badge>
+            ))}
+            {summary.late > 0 && <span className="text-muted-foreground">{summary.late} responded late</span>}
+            {summary.notReached > 0 && (
+              <span className="text-muted-foreground">{summary.notReached} could not be reached</span>
+            )}
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Recipient</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Response</TableHead>
+              <TableHead>Responded At</TableHead>
+              <TableHead className="text-right">Reminders</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.rows.map((row) => (
+              <TableRow key={recipientKey(row.recipient)} className="break-inside-avoid">
+                <TableCell>
+                  <div className="font-medium">{row.recipient.name}</div>
+                  {row.recipient.email && <div className="text-xs text-muted-foreground">{row.recipient.email}</div>}
+                </TableCell>
+                <TableCell>
+                  <span className={cn(row.overdue && "text-destructive font-medium")}>
+                    {row.overdue ? "Overdue" : COMPLIANCE_STATUS_LABELS[row.status]}
+                  </span>
+                  {row.escalatedAt && (
+                    <div className="text-xs text-muted-foreground">
+                      Escalated to manager {format(row.escalatedAt, "MMM d, yyyy")}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {row.selectedOption ?? "—"}
+                  {row.comment && <div className="text-xs text-muted-foreground italic">"{row.comment}"</div>}
+                </TableCell>
+                <TableCell className="whitespace-nowrap">
+                  {row.respondedAt ? format(row.respondedAt, "MMM d, yyyy h:mm a") : "—"}
+                  {row.late && <span className="text-xs text-muted-foreground"> (late)</span>}
+                </TableCell>
+                <TableCell className="text-right">{row.remindersSent}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default ComplianceReport;
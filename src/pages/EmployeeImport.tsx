@@ -0,0 +1,442 @@
+import { useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CheckCircle2,
+  FileSpreadsheet,
+  Loader2,
+  Upload,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useImportEmployees } from "@/hooks/use-employees";
+import { cn } from "@/lib/utils";
+import { employeeDirectory, findEmployeesByEmail } from "@/lib/employee-directory";
+import {
+  ROSTER_FIELDS,
+  getMissingRequiredFields,
+  guessColumnMapping,
+  readRosterFile,
+  validateRoster,
+  type ColumnMapping,
+  type RosterSheet,
+  type RosterValidation,
+} from "@/lib/roster-import";
+
+type Step = "upload" | "map" | "review" | "done";
+
+const STEPS: { key: Step; label: string }[] = [
+  { key: "upload", label: "Upload" },
+  { key: "map", label: "Map Columns" },
+  { key: "review", label: "Review" },
+  { key: "done", label: "Done" },
+];
+
+const NOT_MAPPED = "none";
+// Issue rows rendered before the list is truncated
+const MAX_VISIBLE_ISSUES = 200;
+
+const EmployeeImport = () => {
+  const { toast } = useToast();
+  const importEmployees = useImportEmployees();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<RosterSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [validation, setValidation] = useState<RosterValidation | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleFile = async (file: File) => {
+    setIsWorking(true);
+    try {
+      const parsed = await readRosterFile(file);
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setStep("map");
+    } catch (error) {
+      toast({
+        title: "Could Not Read File",
+        description: error instanceof Error ? error.message : "The file could not be parsed.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleValidate = async () => {
+    setIsWorking(true);
+    try {
+      const readColumn = (index?: number) =>
+        index === undefined ? [] : sheet.rows.map((cells) => (cells[index] ?? "").trim()).filter(Boolean);
+      // Look up the file's IDs and any managers so updates and managers can be matched
+      const managers = readColumn(mapping.managerId);
+      const lookupIds = Array.from(
+        new Set([...readColumn(mapping.id), ...managers.filter((value) => !value.includes("@"))])
+      );
+      const byId = await employeeDirectory.getMany(lookupIds);
+      const byEmail = await findEmployeesByEmail(managers.filter((value) => value.includes("@")));
+      const existing = [...byId, ...byEmail.filter((employee) => !lookupIds.includes(employee.id))];
+      setValidation(validateRoster(sheet, mapping, existing));
+      setStep("review");
+    } catch (error) {
+      toast({
+        title: "Validation Failed",
+        description: error instanceof Error ? error.message : "Could not check the roster.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = () => {
+    importEmployees.mutate(validation.employees, {
+      onSuccess: () => {
+        setStep("done");
+        toast({
+          title: "Roster Imported",
+          description: `${validation.employees.length} employee(s) saved to the directory.`,
+        });
+      },
+      onError: (error) =>
+        toast({ title: "Import Failed", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setSheet(null);
+    setMapping({});
+    setValidation(null);
+  };
+
+  const missingRequired = getMissingRequiredFields(mapping);
+  const errorCount = validation?.issues.filter((issue) => issue.severity === "error").length ?? 0;
+  const warningCount = (validation?.issues.length ?? 0) - errorCount;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <Link to="/">
+              <Button variant="ghost" size="sm" className="gap-2">
+                <ArrowLeft className="w-4 h-4" />
+                Back
+              </Button>
+            </Link>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-primary to-accent rounded-lg">
+              <FileSpreadsheet className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold">Import Employee Roster</h1>
+              <p className="text-muted-foreground">
+                Load a CSV or Excel export from HR into the employee directory
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Steps */}
+        <div className="flex items-center gap-2 mb-6">
+          {STEPS.map((s, index) => (
+            <div key={s.key} className="flex items-center gap-2">
+              {index > 0 && <div className="w-8 h-px bg-border" />}
+              <Badge
+                variant={s.key === step ? "default" : "outline"}
+                className={cn(
+                  STEPS.findIndex((x) => x.key === step) > index && "bg-success/10 text-success border-success/20"
+                )}
+              >
+                {index + 1}. {s.label}
+              </Badge>
+            </div>
+          ))}
+        </div>
+
+        {step === "upload" && (
+          <Card>
+            <CardContent className="p-6">
+              <div
+                className="flex flex-col items-center justify-center gap-3 p-10 border-2 border-dashed border-border rounded-lg text-center cursor-pointer hover:border-primary/50"
+                onClick={() => fileInputRef.current?.click()}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  const file = e.dataTransfer.files[0];
+                  if (file) handleFile(file);
+                }}
+              >
+                {isWorking ? (
+                  <Loader2 className="w-8 h-8 text-muted-foreground animate-spin" />
+                ) : (
+                  <Upload className="w-8 h-8 text-muted-foreground" />
+                )}
+                <div>
+                  <p className="font-medium">Drop a roster file here or click to browse</p>
+                  <p className="text-sm text-muted-foreground">
+                    .csv or .xlsx with a header row. Columns are matched in the next step.
+                  </p>
+                </div>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.xlsx"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFile(file);
+                    e.target.value = "";
+                  }}
+                />
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === "map" && sheet && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Map Columns</CardTitle>
+              <CardDescription>
+                {fileName}: {sheet.rows.length} row(s). Choose which column holds each employee field.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Column</TableHead>
+                    <TableHead>First row</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ROSTER_FIELDS.map((field) => {
+                    const column = mapping[field.key];
+                    return (
+                      <TableRow key={field.key}>
+                        <TableCell className="font-medium">
+                          {field.label}
+                          {field.required && " *"}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={column === undefined ? NOT_MAPPED : String(column)}
+                            onValueChange={(value) =>
+                              setMapping((prev) => ({
+                                ...prev,
+                                [field.key]: value === NOT_MAPPED ? undefined : Number(value),
+                              }))
+                            }
+                          >
+                            <SelectTrigger className="w-[220px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent className="bg-popover">
+                              <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                              {sheet.headers.map((header, index) => (
+                                <SelectItem key={index} value={String(index)}>
+                                  {header || `Column ${index + 1}`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground truncate max-w-[240px]">
+                          {column === undefined ? "—" : sheet.rows[0][column] || "(empty)"}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              {missingRequired.length > 0 && (
+                <p className="text-sm text-destructive">
+                  Map {missingRequired.map((field) => field.label).join(", ")} to continue.
+                </p>
+              )}
+
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={reset}>
+                  Choose Another File
+                </Button>
+                <Button onClick={handleValidate} disabled={missingRequired.length > 0 || isWorking}>
+                  {isWorking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Check Rows
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === "review" && validation && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Card>
+                <CardContent className="p-4">
+                  <div className="text-2xl font-bold">{sheet.rows.length}</div>
+                  <p className="text-sm text-muted-foreground">Rows in file</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <div className="text-2xl font-bold text-success">
+                    {validation.employees.length - validation.updateCount}
+                  </div>
+                  <p className="text-sm text-muted-foreground">New employees</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <div className="text-2xl font-bold text-primary">{validation.updateCount}</div>
+                  <p className="text-sm text-muted-foreground">Updates</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <div className="text-2xl font-bold text-destructive">{validation.rejectedRows.length}</div>
+                  <p className="text-sm text-muted-foreground">Rows skipped</p>
+                </CardContent>
+              </Card>
+            </div>
+
+            {validation.duplicates.length > 0 && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">Duplicates</CardTitle>
+                  <CardDescription>
+                    Every row sharing an ID or email is skipped. Fix the file and import again to include them.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="flex flex-wrap gap-2">
+                  {validation.duplicates.map((duplicate) => (
+                    <Badge key={`${duplicate.field}-${duplicate.value}`} variant="outline" className="text-destructive">
+                      {duplicate.field === "id" ? "ID" : "Email"} {duplicate.value}: rows {duplicate.rows.join(", ")}
+                    </Badge>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {validation.issues.length > 0 && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">
+                    {errorCount} error(s), {warningCount} warning(s)
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="rounded-lg border border-border max-h-[400px] overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-20">Row</TableHead>
+                          <TableHead>Problem</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {validation.issues.slice(0, MAX_VISIBLE_ISSUES).map((issue, idx) => (
+                          <TableRow key={idx}>
+                            <TableCell>{issue.row}</TableCell>
+                            <TableCell className="text-sm">
+                              <span
+                                className={cn(
+                                  "inline-flex items-center gap-1",
+                                  issue.severity === "error" ? "text-destructive" : "text-warning"
+                                )}
+                              >
+                                {issue.severity === "error" ? (
+                                  <XCircle className="w-3 h-3" />
+                                ) : (
+                                  <AlertTriangle className="w-3 h-3" />
+                                )}
+                                {issue.message}
+                              </span>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                  {validation.issues.length > MAX_VISIBLE_ISSUES && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      and {validation.issues.length - MAX_VISIBLE_ISSUES} more
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep("map")}>
+                Back to Mapping
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={validation.employees.length === 0 || importEmployees.isPending}
+              >
+                {importEmployees.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Import {validation.employees.length} Employee(s)
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "done" && validation && (
+          <Card>
+            <CardContent className="p-8 text-center space-y-4">
+              <CheckCircle2 className="w-10 h-10 text-success mx-auto" />
+              <div>
+                <p className="text-lg font-semibold">Import complete</p>
+                <p className="text-sm text-muted-foreground">
+                  Added {validation.employees.length - validation.updateCount} and updated{" "}
+                  {validation.updateCount} employee(s) from {fileName}.
+                  {validation.rejectedRows.length > 0 &&
+                    ` ${validation.rejectedRows.length} row(s) were skipped.`}
+                </p>
+              </div>
+              <div className="flex justify-center gap-3">
+                <Button variant="outline" onClick={reset}>
+                  Import Another File
+                </Button>
+                <Link to="/">
+                  <Button>Compose Notification</Button>
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EmployeeImport;
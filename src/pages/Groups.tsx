@@ -0,0 +1,241 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Building2, MapPin, Pencil, Plus, Search, Trash2, Users, UsersRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useDeleteGroup, useGroupExpansion, useGroups, useSaveGroup } from "@/hooks/use-groups";
+import type { NewRecipientGroup, RecipientGroup } from "@/lib/recipient-groups";
+import { GroupEditorDialog } from "@/components/GroupEditorDialog";
+import { format } from "date-fns";
+
+const Groups = () => {
+  const { toast } = useToast();
+  const { data: groups = [], isLoading } = useGroups();
+  const { data: expansion } = useGroupExpansion(groups);
+  const saveGroup = useSaveGroup();
+  const deleteGroup = useDeleteGroup();
+  const [searchQuery, setSearchQuery] = useState("");
+  // undefined while closed, null for a new list
+  const [editingGroup, setEditingGroup] = useState<RecipientGroup | null | undefined>(undefined);
+  const [deletingGroup, setDeletingGroup] = useState<RecipientGroup | null>(null);
+
+  const groupNames = new Map(groups.map((group) => [group.id, group.name]));
+  const sizes = new Map(
+    (expansion?.expansions ?? []).map((entry) => [entry.groupId, entry.employeeIds.length])
+  );
+
+  const filteredGroups = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return groups.filter(
+      (group) =>
+        !query ||
+        group.name.toLowerCase().includes(query) ||
+        group.description?.toLowerCase().includes(query)
+    );
+  }, [groups, searchQuery]);
+
+  const sections = [
+    {
+      title: "Distribution Lists",
+      groups: filteredGroups.filter((group) => !group.builtIn),
+      empty: 'No distribution lists yet. Choose "New List" to add one.',
+    },
+    {
+      title: "Directory Groups",
+      groups: filteredGroups.filter((group) => group.builtIn),
+      empty: "The employee directory is empty.",
+    },
+  ];
+
+  const handleSave = (group: NewRecipientGroup) => {
+    saveGroup.mutate(
+      { group, id: editingGroup?.id },
+      {
+        onSuccess: (saved) => {
+          setEditingGroup(undefined);
+          toast({ title: "List Saved", description: `"${saved.name}" was saved.` });
+        },
+        onError: () =>
+          toast({
+            title: "List Not Saved",
+            description: "The distribution list could not be saved. Please try again.",
+            variant: "destructive",
+          }),
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    const { id, name } = deletingGroup;
+    setDeletingGroup(null);
+    deleteGroup.mutate(id, {
+      onSuccess: () => toast({ title: "List Deleted", description: `"${name}" was removed.` }),
+    });
+  };
+
+  const usedBy = (group: RecipientGroup) => groups.filter((other) => other.groupIds.includes(group.id));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-7xl">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <Link to="/">
+              <Button variant="ghost" size="sm" className="gap-2">
+                <ArrowLeft className="w-4 h-4" />
+                Back
+              </Button>
+            </Link>
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-gradient-to-br from-primary to-accent rounded-lg">
+                <UsersRound className="w-6 h-6 text-primary-foreground" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold">Recipient Groups</h1>
+                <p className="text-muted-foreground">
+                  Distribution lists and directory groups you can send to
+                </p>
+              </div>
+            </div>
+            <Button className="gap-2" onClick={() => setEditingGroup(null)}>
+              <Plus className="w-4 h-4" />
+              New List
+            </Button>
+          </div>
+        </div>
+
+        <div className="relative md:w-80 mb-6">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Search groups..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+
+        {isLoading ? (
+          <p className="p-6 text-center text-sm text-muted-foreground">Loading groups...</p>
+        ) : (
+          <div className="space-y-8">
+            {sections.map((section) => (
+              <section key={section.title}>
+                <h2 className="text-lg font-semibold mb-3">{section.title}</h2>
+                {section.groups.length === 0 ? (
+                  <Card className="border-dashed">
+                    <CardContent className="p-8 text-center text-sm text-muted-foreground">
+                      {searchQuery ? "No groups match your search." : section.empty}
+                    </CardContent>
+                  </Card>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                    {section.groups.map((group) => (
+                      <Card key={group.id} className="flex flex-col">
+                        <CardHeader className="pb-3">
+                          <CardTitle className="text-base flex items-center justify-between gap-2">
+                            {group.name}
+                            {sizes.has(group.id) && (
+                              <Badge variant="secondary" className="gap-1 shrink-0">
+                                <Users className="w-3 h-3" />
+                                {sizes.get(group.id)}
+                              </Badge>
+                            )}
+                          </CardTitle>
+                          {group.description && <CardDescription>{group.description}</CardDescription>}
+                        </CardHeader>
+                        <CardContent className="flex-1 flex flex-col gap-3">
+                          <div className="flex flex-wrap gap-1">
+                            {group.everyone && <Badge variant="outline">Everyone</Badge>}
+                            {group.departments.map((department) => (
+                              <Badge key={department} variant="outline" className="gap-1">
+                                <Building2 className="w-3 h-3" />
+                                {department}
+                              </Badge>
+                            ))}
+                            {group.locations.map((location) => (
+                              <Badge key={location} variant="outline" className="gap-1">
+                                <MapPin className="w-3 h-3" />
+                                {location}
+                              </Badge>
+                            ))}
+                            {group.employeeIds.length > 0 && (
+                              <Badge variant="outline">{group.employeeIds.length} listed employee(s)</Badge>
+                            )}
+                            {group.groupIds.map((id) => (
+                              <Badge key={id} variant="outline" className="gap-1">
+                                <UsersRound className="w-3 h-3" />
+                                {groupNames.get(id) ?? "Deleted group"}
+                              </Badge>
+                            ))}
+                          </div>
+                          {!group.builtIn && (
+                            <div className="flex items-center justify-between mt-auto">
+                              <p className="text-xs text-muted-foreground">
+                                Updated {format(group.updatedAt, "MMM d, yyyy")}
+                              </p>
+                              <div className="flex gap-1">
+                                <Button variant="ghost" size="sm" title="Edit" onClick={() => setEditingGroup(group)}>
+                                  <Pencil className="w-4 h-4" />
+                                </Button>
+                                <Button variant="ghost" size="sm" title="Delete" onClick={() => setDeletingGroup(group)}>
+                                  <Trash2 className="w-4 h-4 text-destructive" />
+                                </Button>
+                              </div>
+                            </div>
+                          )}
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                )}
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <GroupEditorDialog
+        open={editingGroup !== undefined}
+        onOpenChange={(open) => !open && setEditingGroup(undefined)}
+        group={editingGroup ?? null}
+        groups={groups}
+        onSave={handleSave}
+      />
+
+      <AlertDialog open={deletingGroup !== null} onOpenChange={(open) => !open && setDeletingGroup(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Distribution List?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deletingGroup?.name}" will be removed. Notifications already sent keep their recorded expansion.
+              {deletingGroup && usedBy(deletingGroup).length > 0 &&
+                ` It is nested in ${usedBy(deletingGroup).map((group) => `"${group.name}"`).join(", ")}, which will no longer include its members.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Groups;
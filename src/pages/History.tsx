@@ -1,6 +1,6 @@
 import { useState, useMemo } from "react";
 import { Link } from "react-router-dom";
-import { Bell, Send, ArrowLeft, Eye, RefreshCw, Mail, MessageSquare, CheckCircle2, Clock, XCircle, Users, Search, Filter, X, CalendarIcon, AlertTriangle } from "lucide-react";
+import { Bell, Send, ArrowLeft, Eye, RefreshCw, Mail, MessageSquare, CheckCircle2, Clock, XCircle, Users, Search, Filter, X, CalendarIcon, AlertTriangle, CalendarClock, Ban, RotateCcw, ShieldQuestion, MessageSquareWarning, Pencil } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
@@ -27,101 +27,46 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { NotificationDetailModal } from "@/components/NotificationDetailModal";
+import { RescheduleDialog } from "@/components/RescheduleDialog";
+import { RetryPolicyPopover } from "@/components/RetryPolicyPopover";
 import { useToast } from "@/hooks/use-toast";
 import { format, isAfter, isBefore, startOfDay, endOfDay } from "date-fns";
 import { cn } from "@/lib/utils";
-import type { Notification } from "@/components/NotificationCenter";
-
-// Mock data - in production this would come from a database
-const mockNotifications: Notification[] = [
-  {
-    id: "1",
-    title: "Team Meeting Tomorrow",
-    message: "Don't forget our quarterly review meeting at 10 AM in Conference Room B. Please bring your progress reports and any questions you may have for the leadership team.",
-    channels: ["email", "portal"],
-    recipients: ["Alice Johnson", "Bob Smith", "Carol Williams", "David Brown", "Eva Martinez"],
-    requiresAcknowledgement: true,
-    acknowledgementSettings: {
-      required: true,
-      responseOptions: ["Acknowledged", "Need more information", "Cannot attend"],
-      allowComments: true,
-      deadline: new Date(Date.now() + 24 * 60 * 60 * 1000),
-    },
-    acknowledgementResponses: [
-      { recipientName: "Alice Johnson", selectedOption: "Acknowledged", respondedAt: new Date(Date.now() - 1 * 60 * 60 * 1000) },
-      { recipientName: "Bob Smith", selectedOption: "Acknowledged", comment: "Will bring Q3 report", respondedAt: new Date(Date.now() - 30 * 60 * 1000) },
-      { recipientName: "Carol Williams", selectedOption: "Cannot attend", comment: "On PTO that day", respondedAt: new Date(Date.now() - 45 * 60 * 1000) },
-    ],
-    status: "sent",
-    sentAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
-    acknowledgedBy: ["Alice Johnson", "Bob Smith", "Carol Williams"],
-  },
-  {
-    id: "2",
-    title: "System Maintenance Alert",
-    message: "The employee portal will be down for maintenance on Saturday from 2-4 AM. Please save any work and log out before this time.",
-    channels: ["email", "sms", "portal"],
-    recipients: ["Grace Lee", "Henry Wilson", "Ivy Chen", "Jack Taylor"],
-    requiresAcknowledgement: false,
-    status: "sent",
-    sentAt: new Date(Date.now() - 24 * 60 * 60 * 1000),
-  },
-  {
-    id: "3",
-    title: "Policy Update Required",
-    message: "Please review and acknowledge the updated remote work policy in the employee handbook. This policy takes effect from next Monday.",
-    channels: ["portal"],
-    recipients: ["Alice Johnson", "Bob Smith", "Carol Williams", "David Brown", "Eva Martinez", "Frank Garcia", "Grace Lee"],
-    requiresAcknowledgement: true,
-    acknowledgementSettings: {
-      required: true,
-      responseOptions: ["Acknowledged and agree", "Have questions"],
-      allowComments: true,
-      deadline: new Date(Date.now() - 12 * 60 * 60 * 1000),
-    },
-    acknowledgementResponses: [
-      { recipientName: "Alice Johnson", selectedOption: "Acknowledged and agree", respondedAt: new Date(Date.now() - 36 * 60 * 60 * 1000) },
-      { recipientName: "Bob Smith", selectedOption: "Have questions", comment: "Need clarification on section 3.2", respondedAt: new Date(Date.now() - 24 * 60 * 60 * 1000) },
-    ],
-    status: "sent",
-    sentAt: new Date(Date.now() - 48 * 60 * 60 * 1000),
-    acknowledgedBy: ["Alice Johnson", "Bob Smith"],
-  },
-  {
-    id: "4",
-    title: "Holiday Schedule Announcement",
-    message: "Please note the updated holiday schedule for Q4. The office will be closed on the dates listed in the attached document.",
-    channels: ["email"],
-    recipients: ["All Employees"],
-    requiresAcknowledgement: false,
-    status: "sent",
-    sentAt: new Date(Date.now() - 72 * 60 * 60 * 1000),
-  },
-  {
-    id: "5",
-    title: "Security Training Required",
-    message: "All employees must complete the annual security awareness training by end of month. Please access the training portal to begin.",
-    channels: ["email", "portal"],
-    recipients: ["IT Department", "Operations Team"],
-    requiresAcknowledgement: true,
-    acknowledgementSettings: {
-      required: true,
-      responseOptions: ["Training completed", "In progress", "Need assistance"],
-      allowComments: false,
-      deadline: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-    },
-    status: "pending",
-    sentAt: new Date(Date.now() - 1 * 60 * 60 * 1000),
-  },
-];
+import type { Notification, NotificationSchedule } from "@/components/NotificationCenter";
+import {
+  useCancelScheduledNotification,
+  useNotifications,
+  useRescheduleNotification,
+  useRetryAllFailed,
+  useRetryFailedDeliveries,
+  useSendReminders,
+  useSendScheduledNow,
+} from "@/hooks/use-notifications";
+import { isFailedDelivery } from "@/lib/delivery-status";
+import { getRemindableRecipients } from "@/lib/reminders";
+import { formatInTimeZone } from "@/lib/timezones";
+import { useCurrentUser } from "@/hooks/use-auth";
+import { canManageNotification, canViewNotification } from "@/lib/auth";
 
 type AckFilterType = "all" | "required" | "not-required" | "complete" | "pending" | "overdue";
 
 const History = () => {
   const { toast } = useToast();
-  const [notifications] = useState<Notification[]>(mockNotifications);
+  const { data: allNotifications = [], isLoading } = useNotifications();
+  const { data: user } = useCurrentUser();
+  const notifications = useMemo(
+    () => allNotifications.filter((notification) => canViewNotification(user, notification)),
+    [allNotifications, user]
+  );
   const [selectedNotification, setSelectedNotification] = useState<Notification | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [rescheduleTarget, setRescheduleTarget] = useState<Notification | null>(null);
+  const cancelScheduled = useCancelScheduledNotification();
+  const reschedule = useRescheduleNotification();
+  const sendNow = useSendScheduledNow();
+  const retryFailed = useRetryFailedDeliveries();
+  const retryAllFailed = useRetryAllFailed();
+  const sendReminders = useSendReminders();
 
   // Filter states
   const [searchQuery, setSearchQuery] = useState("");
@@ -234,6 +179,13 @@ const History = () => {
             Sent
           </Badge>
         );
+      case "partial":
+        return (
+          <Badge className="bg-warning/10 text-warning border-warning/20 border">
+            <AlertTriangle className="w-3 h-3 mr-1" />
+            Partially Failed
+          </Badge>
+        );
       case "pending":
         return (
           <Badge className="bg-warning/10 text-warning border-warning/20 border">
@@ -248,26 +200,158 @@ const History = () => {
             Failed
           </Badge>
         );
+      case "scheduled":
+        return (
+          <Badge className="bg-primary/10 text-primary border-primary/20 border">
+            <CalendarClock className="w-3 h-3 mr-1" />
+            Scheduled
+          </Badge>
+        );
+      case "cancelled":
+        return (
+          <Badge variant="outline" className="text-muted-foreground">
+            <Ban className="w-3 h-3 mr-1" />
+            Cancelled
+          </Badge>
+        );
+      case "pending_approval":
+        return (
+          <Badge className="bg-primary/10 text-primary border-primary/20 border">
+            <ShieldQuestion className="w-3 h-3 mr-1" />
+            Awaiting Approval
+          </Badge>
+        );
+      case "changes_requested":
+        return (
+          <Badge className="bg-warning/10 text-warning border-warning/20 border">
+            <MessageSquareWarning className="w-3 h-3 mr-1" />
+            Changes Requested
+          </Badge>
+        );
+      case "rejected":
+        return (
+          <Badge className="bg-destructive/10 text-destructive border-destructive/20 border">
+            <XCircle className="w-3 h-3 mr-1" />
+            Rejected
+          </Badge>
+        );
       default:
         return null;
     }
   };
 
+  const countFailedDeliveries = (notification: Notification) =>
+    (notification.deliveries ?? []).filter((delivery) => isFailedDelivery(delivery.status)).length;
+
+  // Only failures the user may retry; the rest are for their authors
+  const notificationsWithFailures = notifications.filter(
+    (n) => countFailedDeliveries(n) > 0 && canManageNotification(user, n)
+  );
+
   const handleViewDetails = (notification: Notification) => {
     setSelectedNotification(notification);
     setIsModalOpen(true);
   };
 
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
   const handleSendReminder = (notification: Notification) => {
-    const unacknowledged = notification.recipients.filter(
-      (r) => !notification.acknowledgedBy?.includes(r)
-    );
-    toast({
-      title: "Reminder Sent",
-      description: `Reminder sent to ${unacknowledged.length} recipient(s) who haven't acknowledged.`,
+    const before = notification.reminders?.length ?? 0;
+    sendReminders.mutate(notification.id, {
+      onSuccess: (updated) => {
+        const sent = (updated.reminders ?? []).slice(before);
+        const held = getRemindableRecipients(notification).length - sent.length;
+        toast({
+          title: "Reminders Sent",
+          description:
+            `Reminded ${sent.length} recipient(s) who haven't responded.` +
+            (held > 0 ? ` ${held} in quiet hours will be reminded by the next automatic reminder.` : ""),
+        });
+      },
+      onError: showError("Reminder Failed"),
+    });
+  };
+
+  const handleCancelScheduled = (notification: Notification) => {
+    cancelScheduled.mutate(notification.id, {
+      onSuccess: () => {
+        toast({
+          title: "Schedule Cancelled",
+          description: `"${notification.title}" will not be sent.`,
+        });
+      },
+      onError: showError("Could Not Cancel"),
+    });
+  };
+
+  const handleSendNow = (notification: Notification) => {
+    sendNow.mutate(notification.id, {
+      onSuccess: () => {
+        toast({
+          title: "Notification Sent",
+          description: `"${notification.title}" was sent ahead of schedule.`,
+        });
+      },
+      onError: showError("Could Not Send"),
+    });
+  };
+
+  const handleRetryFailed = (notification: Notification) => {
+    retryFailed.mutate(notification.id, {
+      onSuccess: (retried) => {
+        const stillFailed = countFailedDeliveries(retried);
+        toast({
+          title: stillFailed > 0 ? "Some Deliveries Still Failing" : "Deliveries Resent",
+          description:
+            stillFailed > 0
+              ? `${stillFailed} delivery(ies) for "${notification.title}" failed again.`
+              : `All failed deliveries for "${notification.title}" went through.`,
+          variant: stillFailed > 0 ? "destructive" : "default",
+        });
+        if (selectedNotification?.id === retried.id) {
+          setSelectedNotification(retried);
+        }
+      },
+      onError: showError("Could Not Retry"),
     });
   };
 
+  const handleRetryAllFailed = () => {
+    const before = notificationsWithFailures.reduce((sum, n) => sum + countFailedDeliveries(n), 0);
+    retryAllFailed.mutate(
+      notificationsWithFailures.map((n) => n.id),
+      {
+        onSuccess: (retried) => {
+          const stillFailed = retried.reduce((sum, n) => sum + countFailedDeliveries(n), 0);
+          toast({
+            title: "Retry Complete",
+            description: `${before - stillFailed} of ${before} failed deliveries went through.`,
+            variant: stillFailed > 0 ? "destructive" : "default",
+          });
+        },
+        onError: showError("Could Not Retry"),
+      }
+    );
+  };
+
+  const handleReschedule = (notification: Notification, schedule: NotificationSchedule) => {
+    reschedule.mutate(
+      { id: notification.id, schedule },
+      {
+        onSuccess: () => {
+          setRescheduleTarget(null);
+          toast({
+            title: "Notification Rescheduled",
+            description: `"${notification.title}" will be sent on ${formatInTimeZone(schedule.sendAt, schedule.timezone)}.`,
+          });
+        },
+        onError: showError("Could Not Reschedule"),
+      }
+    );
+  };
+
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-4 py-8 max-w-7xl">
@@ -293,17 +377,31 @@ const History = () => {
                 </p>
               </div>
             </div>
-            <Link to="/">
-              <Button className="gap-2">
-                <Send className="w-4 h-4" />
-                Compose New
-              </Button>
-            </Link>
+            <div className="flex gap-2">
+              <RetryPolicyPopover />
+              {notificationsWithFailures.length > 0 && (
+                <Button
+                  variant="outline"
+                  className="gap-2 text-destructive hover:text-destructive"
+                  onClick={handleRetryAllFailed}
+                  disabled={retryAllFailed.isPending}
+                >
+                  <RotateCcw className={cn("w-4 h-4", retryAllFailed.isPending && "animate-spin")} />
+                  Retry All Failed ({notificationsWithFailures.length})
+                </Button>
+              )}
+              <Link to="/">
+                <Button className="gap-2">
+                  <Send className="w-4 h-4" />
+                  Compose New
+                </Button>
+              </Link>
+            </div>
           </div>
         </div>
 
         {/* Stats */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
           <div className="p-4 rounded-lg border border-border bg-card">
             <p className="text-sm text-muted-foreground">Total Sent</p>
             <p className="text-2xl font-bold">{notifications.length}</p>
@@ -320,6 +418,12 @@ const History = () => {
               {notifications.filter((n) => n.status === "pending").length}
             </p>
           </div>
+          <div className="p-4 rounded-lg border border-border bg-card">
+            <p className="text-sm text-muted-foreground">Scheduled</p>
+            <p className="text-2xl font-bold text-primary">
+              {notifications.filter((n) => n.status === "scheduled").length}
+            </p>
+          </div>
           <div className="p-4 rounded-lg border border-border bg-card">
             <p className="text-sm text-muted-foreground">This Week</p>
             <p className="text-2xl font-bold">
@@ -360,8 +464,14 @@ const History = () => {
                 <SelectContent>
                   <SelectItem value="all">All statuses</SelectItem>
                   <SelectItem value="sent">Sent</SelectItem>
+                  <SelectItem value="partial">Partially Failed</SelectItem>
                   <SelectItem value="pending">Pending</SelectItem>
                   <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="scheduled">Scheduled</SelectItem>
+                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                  <SelectItem value="pending_approval">Awaiting Approval</SelectItem>
+                  <SelectItem value="changes_requested">Changes Requested</SelectItem>
+                  <SelectItem value="rejected">Rejected</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -496,18 +606,27 @@ const History = () => {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredNotifications.length === 0 ? (
+              {isLoading ? (
                 <TableRow>
                   <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
-                    No notifications match your filters
+                    Loading notifications...
+                  </TableCell>
+                </TableRow>
+              ) : filteredNotifications.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    {notifications.length === 0
+                      ? "No notifications sent yet"
+                      : "No notifications match your filters"}
                   </TableCell>
                 </TableRow>
               ) : (
                 filteredNotifications.map((notification) => {
                   const ackCount = notification.acknowledgedBy?.length || 0;
                   const totalRecipients = notification.recipients.length;
-                  const needsReminder =
-                    notification.requiresAcknowledgement && ackCount < totalRecipients;
+                  const canManage = canManageNotification(user, notification);
+                  const isScheduled = notification.status === "scheduled";
+                  const needsReminder = getRemindableRecipients(notification).length > 0;
                   const deadline = notification.acknowledgementSettings?.deadline 
                     ? new Date(notification.acknowledgementSettings.deadline) 
                     : null;
@@ -573,7 +692,9 @@ const History = () => {
                         )}
                       </TableCell>
                       <TableCell className="text-sm text-muted-foreground">
-                        {format(notification.sentAt, "MMM d, h:mm a")}
+                        {isScheduled && notification.schedule
+                          ? formatInTimeZone(notification.schedule.sendAt, notification.schedule.timezone)
+                          : format(notification.sentAt, "MMM d, h:mm a")}
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
@@ -584,7 +705,55 @@ const History = () => {
                           >
                             <Eye className="w-4 h-4" />
                           </Button>
-                          {needsReminder && (
+                          {canManage && countFailedDeliveries(notification) > 0 && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Retry failed deliveries"
+                              onClick={() => handleRetryFailed(notification)}
+                              disabled={retryFailed.isPending}
+                              className="text-destructive hover:text-destructive"
+                            >
+                              <RotateCcw className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {canManage && isScheduled && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Send now"
+                                onClick={() => handleSendNow(notification)}
+                              >
+                                <Send className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Reschedule"
+                                onClick={() => setRescheduleTarget(notification)}
+                              >
+                                <CalendarClock className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Cancel schedule"
+                                onClick={() => handleCancelScheduled(notification)}
+                                className="text-destructive hover:text-destructive"
+                              >
+                                <Ban className="w-4 h-4" />
+                              </Button>
+                            </>
+                          )}
+                          {canManage && notification.status === "changes_requested" && (
+                            <Link to={`/?revise=${notification.id}`}>
+                              <Button variant="ghost" size="sm" title="Revise and resubmit">
+                                <Pencil className="w-4 h-4" />
+                              </Button>
+                            </Link>
+                          )}
+                          {canManage && needsReminder && (
                             <Button
                               variant="ghost"
                               size="sm"
@@ -614,6 +783,15 @@ const History = () => {
         open={isModalOpen}
         onOpenChange={setIsModalOpen}
         onSendReminder={handleSendReminder}
+        onRetryFailed={handleRetryFailed}
+        canManage={!!selectedNotification && canManageNotification(user, selectedNotification)}
+      />
+
+      <RescheduleDialog
+        notification={rescheduleTarget}
+        open={rescheduleTarget !== null}
+        onOpenChange={(open) => !open && setRescheduleTarget(null)}
+        onReschedule={handleReschedule}
       />
     </div>
   );
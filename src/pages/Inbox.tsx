@@ -0,0 +1,301 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Archive, ArchiveRestore, ArrowLeft, Mailbox, MailOpen, Paperclip, Search, ShieldQuestion } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-auth";
+import {
+  useNotifications,
+  useRenderedMessage,
+  useSetInboxArchived,
+  useSetInboxRead,
+  useSubmitAcknowledgement,
+} from "@/hooks/use-notifications";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import { getInboxItems, isUnread, matchesInboxSearch, type InboxItem } from "@/lib/inbox";
+import { findResponse, type ResponseInput } from "@/lib/acknowledgements";
+import { SanitizedHtml } from "@/components/SanitizedHtml";
+import { AcknowledgementResponseForm } from "@/components/AcknowledgementResponseForm";
+
+type InboxView = "inbox" | "unread" | "archived";
+
+const VIEW_LABELS: Record<InboxView, string> = {
+  inbox: "Inbox",
+  unread: "Unread",
+  archived: "Archived",
+};
+
+const isInView = (item: InboxItem, view: InboxView) => {
+  if (view === "archived") return !!item.delivery.archivedAt;
+  return view === "inbox" ? !item.delivery.archivedAt : isUnread(item);
+};
+
+const Inbox = () => {
+  const { toast } = useToast();
+  const { data: user } = useCurrentUser();
+  const { data: notifications = [], isLoading } = useNotifications();
+  const setRead = useSetInboxRead();
+  const setArchived = useSetInboxArchived();
+  const submitResponse = useSubmitAcknowledgement();
+  const [view, setView] = useState<InboxView>("inbox");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Signed-in users share their ID with their employee record
+  const items = useMemo(() => (user ? getInboxItems(notifications, user.id) : []), [notifications, user]);
+  const filteredItems = useMemo(
+    () => items.filter((item) => isInView(item, view) && matchesInboxSearch(item, searchQuery)),
+    [items, view, searchQuery]
+  );
+  // Looked up in every item so a message stays open after it is read in the Unread view
+  const selected = items.find((item) => item.notification.id === selectedId);
+  const { data: rendered, isLoading: isRendering } = useRenderedMessage(
+    selected?.notification,
+    "portal",
+    selected?.delivery.recipient
+  );
+  const attachments = selected?.notification.channelMessages?.portal?.attachments ?? [];
+
+  const handleSelect = (item: InboxItem) => {
+    setSelectedId(item.notification.id);
+    if (!item.delivery.readAt) {
+      setRead.mutate({ id: item.notification.id, employeeId: user.id, read: true });
+    }
+  };
+
+  const handleMarkUnread = (item: InboxItem) => {
+    setRead.mutate({ id: item.notification.id, employeeId: user.id, read: false });
+    setSelectedId(null);
+  };
+
+  const handleArchive = (item: InboxItem, archived: boolean) => {
+    setArchived.mutate(
+      { id: item.notification.id, employeeId: user.id, archived },
+      {
+        onSuccess: () => {
+          setSelectedId(null);
+          toast({
+            title: archived ? "Notification Archived" : "Moved To Inbox",
+            description: `"${item.notification.title}"`,
+          });
+        },
+        onError: (error) => {
+          toast({ title: "Update Failed", description: error.message, variant: "destructive" });
+        },
+      }
+    );
+  };
+
+  const handleRespond = (item: InboxItem, input: ResponseInput) => {
+    submitResponse.mutate(
+      { id: item.notification.id, recipient: item.delivery.recipient, input },
+      {
+        onSuccess: () => {
+          toast({ title: "Response Sent", description: `You responded "${input.selectedOption}".` });
+        },
+        onError: (error) => {
+          toast({ title: "Response Failed", description: error.message, variant: "destructive" });
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-7xl">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <Link to="/">
+              <Button variant="ghost" size="sm" className="gap-2">
+                <ArrowLeft className="w-4 h-4" />
+                Back
+              </Button>
+            </Link>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-primary to-accent rounded-lg">
+              <Mailbox className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold">My Inbox</h1>
+              <p className="text-muted-foreground">
+                Portal notifications sent to {user?.name ?? "you"}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* View and Search */}
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          {(Object.keys(VIEW_LABELS) as InboxView[]).map((option) => (
+            <Button
+              key={option}
+              variant={view === option ? "default" : "outline"}
+              size="sm"
+              onClick={() => setView(option)}
+            >
+              {VIEW_LABELS[option]} ({items.filter((item) => isInView(item, option)).length})
+            </Button>
+          ))}
+          <div className="relative ml-auto w-full sm:w-72">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Search title, message or sender..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-4">
+          {/* Notification List */}
+          <div className="lg:col-span-2 rounded-lg border border-border bg-card">
+            <ScrollArea className="h-[600px]">
+              {isLoading ? (
+                <p className="p-6 text-center text-sm text-muted-foreground">Loading inbox...</p>
+              ) : filteredItems.length === 0 ? (
+                <p className="p-6 text-center text-sm text-muted-foreground">
+                  {searchQuery.trim()
+                    ? "No notifications match your search"
+                    : view === "archived"
+                      ? "Nothing archived yet"
+                      : "You're all caught up"}
+                </p>
+              ) : (
+                <div className="p-2 space-y-1">
+                  {filteredItems.map((item) => {
+                    const unread = !item.delivery.readAt;
+                    return (
+                      <button
+                        key={item.notification.id}
+                        type="button"
+                        onClick={() => handleSelect(item)}
+                        className={cn(
+                          "w-full text-left p-3 rounded-md hover:bg-muted/50",
+                          selected?.notification.id === item.notification.id && "bg-muted"
+                        )}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className={cn("text-sm truncate", unread ? "font-semibold" : "font-medium")}>
+                            {unread && <span className="inline-block w-2 h-2 mr-2 rounded-full bg-primary" />}
+                            {item.notification.title}
+                          </span>
+                          <span className="text-xs text-muted-foreground shrink-0">
+                            {format(item.delivery.updatedAt, "MMM d, h:mm a")}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                          <span className="truncate">{item.notification.message}</span>
+                          <span className="flex items-center gap-1 ml-auto shrink-0">
+                            {item.notification.requiresAcknowledgement &&
+                              !findResponse(item.notification, item.delivery.recipient) && (
+                                <ShieldQuestion className="w-3 h-3 text-primary" />
+                              )}
+                            {(item.notification.channelMessages?.portal?.attachments.length ?? 0) > 0 && (
+                              <Paperclip className="w-3 h-3" />
+                            )}
+                          </span>
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+
+          {/* Notification Detail */}
+          <div className="lg:col-span-3 rounded-lg border border-border bg-card p-6">
+            {selected ? (
+              <div className="space-y-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h2 className="text-xl font-semibold">{rendered?.subject ?? selected.notification.title}</h2>
+                    <p className="text-sm text-muted-foreground">
+                      {selected.notification.createdBy && `From ${selected.notification.createdBy.name} · `}
+                      {format(selected.delivery.updatedAt, "MMMM d, yyyy 'at' h:mm a")}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="gap-1"
+                      onClick={() => handleMarkUnread(selected)}
+                      disabled={setRead.isPending}
+                    >
+                      <MailOpen className="w-4 h-4" />
+                      Mark Unread
+                    </Button>
+                    {selected.delivery.archivedAt ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="gap-1"
+                        onClick={() => handleArchive(selected, false)}
+                        disabled={setArchived.isPending}
+                      >
+                        <ArchiveRestore className="w-4 h-4" />
+                        Move to Inbox
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="gap-1"
+                        onClick={() => handleArchive(selected, true)}
+                        disabled={setArchived.isPending}
+                      >
+                        <Archive className="w-4 h-4" />
+                        Archive
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <div className="p-4 rounded-lg bg-muted/50 border border-border">
+                  {isRendering ? (
+                    <p className="text-sm text-muted-foreground">Loading message...</p>
+                  ) : (
+                    <SanitizedHtml html={rendered?.body ?? ""} />
+                  )}
+                </div>
+                {attachments.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {attachments.map((attachment, idx) => (
+                      <Badge key={idx} variant="secondary" className="gap-1 py-1">
+                        <Paperclip className="w-3 h-3" />
+                        {attachment.name}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {selected.notification.requiresAcknowledgement && (
+                  <AcknowledgementResponseForm
+                    // Remounted per notification so a half-filled response does not carry over
+                    key={selected.notification.id}
+                    notification={selected.notification}
+                    recipient={selected.delivery.recipient}
+                    onSubmit={(input) => handleRespond(selected, input)}
+                    isSubmitting={submitResponse.isPending}
+                  />
+                )}
+              </div>
+            ) : (
+              <p className="text-center text-sm text-muted-foreground py-12">
+                Select a notification to read it
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Inbox;
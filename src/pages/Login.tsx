@@ -0,0 +1,66 @@
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Bell, UserCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useSignIn, useSignInUsers } from "@/hooks/use-auth";
+import { ROLE_LABELS } from "@/lib/auth";
+
+const Login = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { data: users = [] } = useSignInUsers();
+  const signIn = useSignIn();
+
+  // Only follow in-app paths back after signing in
+  const next = searchParams.get("next");
+  const destination = next?.startsWith("/") && !next.startsWith("//") ? next : "/";
+
+  const handleSignIn = (userId: string) => {
+    signIn.mutate(userId, {
+      onSuccess: () => navigate(destination, { replace: true }),
+      onError: (error) => toast({ title: "Sign In Failed", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="text-center">
+          <div className="mx-auto p-2 bg-gradient-to-br from-primary to-accent rounded-lg w-fit mb-2">
+            <Bell className="w-6 h-6 text-primary-foreground" />
+          </div>
+          <CardTitle>Sign In</CardTitle>
+          <CardDescription>Development sign-in: choose who to act as</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {users.map((user) => (
+            <button
+              key={user.id}
+              type="button"
+              onClick={() => handleSignIn(user.id)}
+              disabled={signIn.isPending}
+              className="w-full flex items-center gap-3 p-3 rounded-lg border border-border text-left hover:bg-muted/50 transition-colors"
+            >
+              <UserCircle className="w-8 h-8 text-muted-foreground shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium">{user.name}</p>
+                <p className="text-xs text-muted-foreground">{user.department}</p>
+              </div>
+              <div className="flex flex-wrap justify-end gap-1">
+                {user.roles.map((role) => (
+                  <Badge key={role} variant="secondary">
+                    {ROLE_LABELS[role]}
+                  </Badge>
+                ))}
+              </div>
+            </button>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
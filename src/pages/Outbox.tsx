@@ -0,0 +1,225 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Bell, Inbox, Mail, MessageSquare, Paperclip, Trash2, CheckCircle2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { useClearOutbox, useOutbox } from "@/hooks/use-outbox";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import type { OutboxEntry } from "@/lib/capture-transport";
+import { SanitizedHtml } from "@/components/SanitizedHtml";
+
+const getChannelIcon = (channel: string) => {
+  switch (channel) {
+    case "email":
+      return <Mail className="w-3 h-3" />;
+    case "sms":
+      return <MessageSquare className="w-3 h-3" />;
+    case "portal":
+      return <Bell className="w-3 h-3" />;
+    default:
+      return null;
+  }
+};
+
+const getAddress = (entry: OutboxEntry) => {
+  if (entry.channel === "email") return entry.to.email;
+  if (entry.channel === "sms") return entry.to.phone;
+  return "Employee portal";
+};
+
+const isFailure = (entry: OutboxEntry) =>
+  entry.result.status === "failed" || entry.result.status === "bounced";
+
+const Outbox = () => {
+  const { toast } = useToast();
+  const { data: entries = [], isLoading } = useOutbox();
+  const clearOutbox = useClearOutbox();
+  const [channelFilter, setChannelFilter] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const filteredEntries = useMemo(
+    () => (channelFilter ? entries.filter((entry) => entry.channel === channelFilter) : entries),
+    [entries, channelFilter]
+  );
+  const selected = filteredEntries.find((entry) => entry.id === selectedId) ?? filteredEntries[0];
+
+  const handleClear = () => {
+    clearOutbox.mutate(undefined, {
+      onSuccess: () => {
+        setSelectedId(null);
+        toast({ title: "Outbox Cleared", description: "All captured messages were removed." });
+      },
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-7xl">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <Link to="/">
+              <Button variant="ghost" size="sm" className="gap-2">
+                <ArrowLeft className="w-4 h-4" />
+                Back
+              </Button>
+            </Link>
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-gradient-to-br from-primary to-accent rounded-lg">
+                <Inbox className="w-6 h-6 text-primary-foreground" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold">Local Outbox</h1>
+                <p className="text-muted-foreground">
+                  Messages captured by the local delivery transport instead of a real provider
+                </p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={handleClear}
+              disabled={entries.length === 0 || clearOutbox.isPending}
+            >
+              <Trash2 className="w-4 h-4" />
+              Clear Outbox
+            </Button>
+          </div>
+        </div>
+
+        {/* Channel Filter */}
+        <div className="flex items-center gap-2 mb-4">
+          <Button
+            variant={channelFilter === null ? "default" : "outline"}
+            size="sm"
+            onClick={() => setChannelFilter(null)}
+          >
+            All ({entries.length})
+          </Button>
+          {["email", "sms", "portal"].map((channel) => (
+            <Button
+              key={channel}
+              variant={channelFilter === channel ? "default" : "outline"}
+              size="sm"
+              onClick={() => setChannelFilter(channel)}
+              className="gap-1 capitalize"
+            >
+              {getChannelIcon(channel)}
+              {channel}
+            </Button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-4">
+          {/* Message List */}
+          <div className="lg:col-span-2 rounded-lg border border-border bg-card">
+            <ScrollArea className="h-[600px]">
+              {isLoading ? (
+                <p className="p-6 text-center text-sm text-muted-foreground">Loading outbox...</p>
+              ) : filteredEntries.length === 0 ? (
+                <p className="p-6 text-center text-sm text-muted-foreground">
+                  No captured messages yet. Send or test a notification to see it here.
+                </p>
+              ) : (
+                <div className="p-2 space-y-1">
+                  {filteredEntries.map((entry) => (
+                    <button
+                      key={entry.id}
+                      type="button"
+                      onClick={() => setSelectedId(entry.id)}
+                      className={cn(
+                        "w-full text-left p-3 rounded-md hover:bg-muted/50",
+                        selected?.id === entry.id && "bg-muted"
+                      )}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-sm truncate">{entry.subject}</span>
+                        <span className="text-xs text-muted-foreground shrink-0">
+                          {format(entry.capturedAt, "MMM d, h:mm a")}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                        {getChannelIcon(entry.channel)}
+                        <span className="truncate">{entry.to.name}</span>
+                        {entry.isTest && <Badge variant="outline" className="text-xs">Test</Badge>}
+                        {isFailure(entry) && (
+                          <XCircle className="w-3 h-3 text-destructive ml-auto shrink-0" />
+                        )}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+
+          {/* Message Detail */}
+          <div className="lg:col-span-3 rounded-lg border border-border bg-card p-6">
+            {selected ? (
+              <div className="space-y-4">
+                <div>
+                  <h2 className="text-xl font-semibold">{selected.subject}</h2>
+                  <p className="text-sm text-muted-foreground">
+                    Captured {format(selected.capturedAt, "MMMM d, yyyy 'at' h:mm:ss a")}
+                  </p>
+                </div>
+                <div className="grid grid-cols-2 gap-3 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">To</p>
+                    <p className="font-medium">{selected.to.name}</p>
+                    <p className="text-muted-foreground">{getAddress(selected) ?? "No address"}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Result</p>
+                    {isFailure(selected) ? (
+                      <Badge className="bg-destructive/10 text-destructive border-destructive/20 border capitalize">
+                        <XCircle className="w-3 h-3 mr-1" />
+                        {selected.result.status}
+                      </Badge>
+                    ) : (
+                      <Badge className="bg-success/10 text-success border-success/20 border capitalize">
+                        <CheckCircle2 className="w-3 h-3 mr-1" />
+                        {selected.result.status}
+                      </Badge>
+                    )}
+                    {"reason" in selected.result && (
+                      <p className="text-xs text-destructive mt-1">{selected.result.reason}</p>
+                    )}
+                  </div>
+                </div>
+                <div className="p-4 rounded-lg bg-muted/50 border border-border">
+                  {selected.channel === "sms" ? (
+                    <p className="whitespace-pre-wrap text-sm">{selected.body}</p>
+                  ) : (
+                    <SanitizedHtml html={selected.body} />
+                  )}
+                </div>
+                {selected.attachments.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {selected.attachments.map((attachment, idx) => (
+                      <Badge key={idx} variant="secondary" className="gap-1 py-1">
+                        <Paperclip className="w-3 h-3" />
+                        {attachment.name}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ) : (
+              <p className="text-center text-sm text-muted-foreground py-12">
+                Select a message to view it
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Outbox;
@@ -0,0 +1,81 @@
+import { useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { Bell } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useRenderedMessage, useResponseLink, useSubmitAcknowledgement } from "@/hooks/use-notifications";
+import type { ResponseInput } from "@/lib/acknowledgements";
+import { SanitizedHtml } from "@/components/SanitizedHtml";
+import { AcknowledgementResponseForm } from "@/components/AcknowledgementResponseForm";
+
+// Reached from the link in an emailed notification; the token stands in for signing in
+const Respond = () => {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const { data: link, isLoading, isError } = useResponseLink(token);
+  const { data: rendered } = useRenderedMessage(link?.notification, "email", link?.recipient);
+  const submitResponse = useSubmitAcknowledgement();
+
+  const handleRespond = (input: ResponseInput) => {
+    submitResponse.mutate(
+      { id: link.notification.id, recipient: link.recipient, input },
+      {
+        onSuccess: () => toast({ title: "Response Sent", description: "Thank you, your response was recorded." }),
+        onError: (error) => toast({ title: "Response Failed", description: error.message, variant: "destructive" }),
+      }
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4 py-8">
+      <Card className="w-full max-w-2xl shadow-lg">
+        <CardHeader>
+          <div className="p-2 bg-gradient-to-br from-primary to-accent rounded-lg w-fit mb-2">
+            <Bell className="w-6 h-6 text-primary-foreground" />
+          </div>
+          {link ? (
+            <>
+              <CardTitle>{rendered?.subject ?? link.notification.title}</CardTitle>
+              <CardDescription>
+                For {link.recipient.name}
+                {link.notification.createdBy && ` from ${link.notification.createdBy.name}`} · Sent{" "}
+                {format(link.notification.sentAt, "MMMM d, yyyy")}
+              </CardDescription>
+            </>
+          ) : (
+            <CardTitle>{isLoading ? "Loading..." : isError ? "Could Not Load" : "Link Not Valid"}</CardTitle>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isError && (
+            <p className="text-sm text-muted-foreground">
+              Your response link could not be checked right now. Please try again in a few minutes.
+            </p>
+          )}
+          {!isLoading && !isError && !link && (
+            <p className="text-sm text-muted-foreground">
+              This response link is not recognized. Check that you copied the whole link from the email.
+            </p>
+          )}
+          {link && (
+            <>
+              {rendered && (
+                <div className="p-4 rounded-lg bg-muted/50 border border-border">
+                  <SanitizedHtml html={rendered.body} />
+                </div>
+              )}
+              <AcknowledgementResponseForm
+                notification={link.notification}
+                recipient={link.recipient}
+                onSubmit={handleRespond}
+                isSubmitting={submitResponse.isPending}
+              />
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Respond;
@@ -0,0 +1,305 @@
+import { useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import {
+  ArrowLeft,
+  Bell,
+  Copy,
+  LayoutTemplate,
+  Mail,
+  MessageSquare,
+  Pencil,
+  Plus,
+  Search,
+  Send,
+  Trash2,
+  Users,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useDeleteTemplate, useSaveTemplate, useTemplates } from "@/hooks/use-templates";
+import { getTemplateCategories, type NotificationTemplate } from "@/lib/notification-templates";
+import { TemplateDetailsDialog, type TemplateDetails } from "@/components/TemplateDetailsDialog";
+import { format } from "date-fns";
+
+const getChannelIcon = (channel: string) => {
+  switch (channel) {
+    case "email":
+      return <Mail className="w-3 h-3" />;
+    case "sms":
+      return <MessageSquare className="w-3 h-3" />;
+    case "portal":
+      return <Bell className="w-3 h-3" />;
+    default:
+      return null;
+  }
+};
+
+const Templates = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { data: templates = [], isLoading } = useTemplates();
+  const saveTemplate = useSaveTemplate();
+  const deleteTemplate = useDeleteTemplate();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
+  const [editingTemplate, setEditingTemplate] = useState<NotificationTemplate | null>(null);
+  const [deletingTemplate, setDeletingTemplate] = useState<NotificationTemplate | null>(null);
+
+  const categories = getTemplateCategories(templates);
+
+  const filteredTemplates = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return templates.filter(
+      (template) =>
+        (!categoryFilter || template.category === categoryFilter) &&
+        (!query ||
+          template.name.toLowerCase().includes(query) ||
+          template.title.toLowerCase().includes(query) ||
+          template.description?.toLowerCase().includes(query))
+    );
+  }, [templates, searchQuery, categoryFilter]);
+
+  const editingDetails = useMemo<TemplateDetails>(
+    () => ({
+      name: editingTemplate?.name ?? "",
+      category: editingTemplate?.category ?? "",
+      description: editingTemplate?.description,
+    }),
+    [editingTemplate]
+  );
+
+  const handleEditDetails = (details: TemplateDetails) => {
+    const { id, updatedAt, ...template } = editingTemplate;
+    saveTemplate.mutate(
+      { id, template: { ...template, ...details } },
+      {
+        onSuccess: () => {
+          setEditingTemplate(null);
+          toast({ title: "Template Updated", description: `"${details.name}" was saved.` });
+        },
+      }
+    );
+  };
+
+  const handleDuplicate = (original: NotificationTemplate) => {
+    const { id, updatedAt, ...template } = original;
+    saveTemplate.mutate(
+      { template: { ...template, name: `${template.name} (copy)` } },
+      {
+        onSuccess: (copy) =>
+          toast({ title: "Template Duplicated", description: `Created "${copy.name}".` }),
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    const { id, name } = deletingTemplate;
+    setDeletingTemplate(null);
+    deleteTemplate.mutate(id, {
+      onSuccess: () => toast({ title: "Template Deleted", description: `"${name}" was removed.` }),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-7xl">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <Link to="/">
+              <Button variant="ghost" size="sm" className="gap-2">
+                <ArrowLeft className="w-4 h-4" />
+                Back
+              </Button>
+            </Link>
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-gradient-to-br from-primary to-accent rounded-lg">
+                <LayoutTemplate className="w-6 h-6 text-primary-foreground" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold">Template Library</h1>
+                <p className="text-muted-foreground">
+                  Reusable notifications for recurring announcements
+                </p>
+              </div>
+            </div>
+            <Link to="/">
+              <Button className="gap-2">
+                <Plus className="w-4 h-4" />
+                Compose New
+              </Button>
+            </Link>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col md:flex-row md:items-center gap-3 mb-6">
+          <div className="relative md:w-80">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Search templates..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              variant={categoryFilter === null ? "default" : "outline"}
+              size="sm"
+              onClick={() => setCategoryFilter(null)}
+            >
+              All ({templates.length})
+            </Button>
+            {categories.map((category) => (
+              <Button
+                key={category}
+                variant={categoryFilter === category ? "default" : "outline"}
+                size="sm"
+                onClick={() => setCategoryFilter(category)}
+              >
+                {category}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="p-6 text-center text-sm text-muted-foreground">Loading templates...</p>
+        ) : filteredTemplates.length === 0 ? (
+          <Card className="border-dashed">
+            <CardContent className="p-8 text-center text-sm text-muted-foreground">
+              {templates.length === 0
+                ? 'No templates yet. Compose a notification and choose "Save as Template" to add one.'
+                : "No templates match your search."}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-8">
+            {getTemplateCategories(filteredTemplates).map((category) => (
+              <section key={category}>
+                <h2 className="text-lg font-semibold mb-3">{category}</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                  {filteredTemplates
+                    .filter((template) => template.category === category)
+                    .map((template) => (
+                      <Card key={template.id} className="flex flex-col">
+                        <CardHeader className="pb-3">
+                          <CardTitle className="text-base">{template.name}</CardTitle>
+                          {template.description && (
+                            <CardDescription>{template.description}</CardDescription>
+                          )}
+                        </CardHeader>
+                        <CardContent className="flex-1 flex flex-col gap-3">
+                          <p className="text-sm truncate">
+                            <span className="text-muted-foreground">Title: </span>
+                            {template.title || "Untitled"}
+                          </p>
+                          <div className="flex flex-wrap gap-1">
+                            {template.channels.map((channel) => (
+                              <Badge key={channel} variant="outline" className="gap-1 capitalize">
+                                {getChannelIcon(channel)}
+                                {channel}
+                              </Badge>
+                            ))}
+                            {template.acknowledgement.required && (
+                              <Badge variant="secondary">Acknowledgement</Badge>
+                            )}
+                            {template.defaultRecipientIds.length > 0 && (
+                              <Badge variant="secondary" className="gap-1">
+                                <Users className="w-3 h-3" />
+                                {template.defaultRecipientIds.length}
+                              </Badge>
+                            )}
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            Updated {format(template.updatedAt, "MMM d, yyyy")}
+                          </p>
+                          <div className="flex items-center gap-2 mt-auto">
+                            <Button
+                              size="sm"
+                              className="gap-1 flex-1"
+                              onClick={() => navigate(`/?template=${template.id}`)}
+                            >
+                              <Send className="w-3 h-3" />
+                              Use Template
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Edit details"
+                              onClick={() => setEditingTemplate(template)}
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Duplicate"
+                              onClick={() => handleDuplicate(template)}
+                            >
+                              <Copy className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Delete"
+                              onClick={() => setDeletingTemplate(template)}
+                            >
+                              <Trash2 className="w-4 h-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <TemplateDetailsDialog
+        open={editingTemplate !== null}
+        onOpenChange={(open) => !open && setEditingTemplate(null)}
+        title="Edit Template Details"
+        initialDetails={editingDetails}
+        categories={categories}
+        onSave={handleEditDetails}
+      />
+
+      <AlertDialog open={deletingTemplate !== null} onOpenChange={(open) => !open && setDeletingTemplate(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Template?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deletingTemplate?.name}" will be removed from the library. Notifications already sent
+              from it are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Templates;